@@ -13,7 +13,11 @@ export default function App() {
   return (
     <Routes>
       <Route path="/" element={<Welcome />} />
-      <Route path="/onboarding" element={<Onboarding />} />
+      {/* The wizard keeps its modelo, period and step in the URL */}
+      <Route path="/onboarding" element={<Onboarding />}>
+        <Route path=":section" element={null} />
+        <Route path=":modelo/:period/:step" element={null} />
+      </Route>
       <Route path="/terms" element={<Terms />} />
       <Route path="/privacy" element={<Privacy />} />
       <Route path="/auth/login" element={<Login />} />
@@ -19,8 +19,13 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { DraftList } from "@/components/onboarding/draft-list/DraftList";
+import type { ManualFormValues } from "@/lib/declaration/adapters";
+import type { Draft } from "@/lib/declaration/drafts";
+import type { ChangeJournal } from "@/lib/declaration/journal";
+import { formList } from "@/lib/declaration/forms";
+import type { Declaration } from "@/lib/declaration/types";
 import { cn } from "@/lib/utils";
-import { taxFormTypes } from "@/pages/Onboarding";
 import { toast } from "sonner";
 import { AiChatAssistant } from "./ai-chat-assistant/AiChatAssistant";
 import { FormUpload } from "./form-upload/FormUpload";
@@ -37,6 +42,20 @@ interface FormFillingProps {
   onFormSelect: (formId: string) => void;
   selectedMethod: string | null;
   onMethodSelect: (methodId: string) => void;
+  onComplete: (declaration: Declaration) => void;
+  // Drafts left on this device, offered on the form type step
+  drafts: Draft[];
+  onResumeDraft: (draft: Draft) => void;
+  onDiscardDraft: (draft: Draft) => void;
+  // Values of the manual form kept in the draft
+  draftValues?: ManualFormValues;
+  onDraftValuesChange: (values: ManualFormValues) => void;
+  onSaveDraftValues: (values: ManualFormValues) => Promise<boolean>;
+  // Changes of the declaration, which manual edits are added to
+  journal: ChangeJournal;
+  onJournalChange: (
+    update: (journal: ChangeJournal) => ChangeJournal
+  ) => void;
 }
 
 interface FormMethod {
@@ -83,14 +102,32 @@ export function FormFilling({
   onFormSelect,
   selectedMethod,
   onMethodSelect,
+  onComplete,
+  drafts,
+  onResumeDraft,
+  onDiscardDraft,
+  draftValues,
+  onDraftValuesChange,
+  onSaveDraftValues,
+  journal,
+  onJournalChange,
 }: FormFillingProps): React.ReactElement {
-  const [showAiChat, setShowAiChat] = useState<boolean>(false);
-  const [showManualForm, setShowManualForm] = useState<boolean>(false);
-  const [showUploadForm, setShowUploadForm] = useState<boolean>(false);
-  const [showIdLookup, setShowIdLookup] = useState<boolean>(false);
+  // A resumed draft opens the method it was being filled with
+  const [showAiChat, setShowAiChat] = useState<boolean>(
+    selectedMethod === "ai"
+  );
+  const [showManualForm, setShowManualForm] = useState<boolean>(
+    selectedMethod === "manual"
+  );
+  const [showUploadForm, setShowUploadForm] = useState<boolean>(
+    selectedMethod === "upload"
+  );
+  const [showIdLookup, setShowIdLookup] = useState<boolean>(
+    selectedMethod === "lookup"
+  );
 
   // Get selected form details
-  const selectedFormDetails = taxFormTypes.find(
+  const selectedFormDetails = formList.find(
     (form) => form.id === selectedForm
   );
 
@@ -156,12 +193,12 @@ export function FormFilling({
     setShowIdLookup(false);
   };
 
-  const handleComplete = (): void => {
+  const handleComplete = (declaration: Declaration): void => {
     // This function is called when a form filling method is completed
     toast.success("Form completed successfully", {
       description: "Your tax information has been saved.",
     });
-    onNext();
+    onComplete(declaration);
   };
 
   // If any of the specific form methods are showing, don't show the main card
@@ -171,6 +208,11 @@ export function FormFilling({
         onComplete={handleComplete}
         onCancel={handleCancel}
         formType={selectedForm || ""}
+        initialValues={draftValues}
+        onValuesChange={onDraftValuesChange}
+        onSaveDraft={onSaveDraftValues}
+        journal={journal}
+        onJournalChange={onJournalChange}
       />
     );
   }
@@ -214,31 +256,44 @@ export function FormFilling({
 
       <CardContent className="space-y-6">
         {step === "form-type" ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {taxFormTypes.map((type) => (
-              <Card
-                key={type.id}
-                className={cn(
-                  "cursor-pointer hover:border-primary transition-all",
-                  selectedForm === type.id &&
-                    "border-primary ring-1 ring-primary"
-                )}
-                onClick={() => handleFormTypeSelect(type.id)}
-              >
-                <CardContent className="flex items-center p-4">
-                  <div className="bg-primary/10 p-3 rounded-full mr-4">
-                    <FileText className="h-6 w-6 text-primary" />
-                  </div>
-                  <div>
-                    <h3 className="font-medium">{type.name}</h3>
-                    <p className="text-sm text-muted-foreground">
-                      {type.description}
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+          <>
+            {drafts.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-medium">Borradores guardados</h3>
+                <DraftList
+                  drafts={drafts}
+                  onResume={onResumeDraft}
+                  onDiscard={onDiscardDraft}
+                />
+                <Separator />
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {formList.map((type) => (
+                <Card
+                  key={type.id}
+                  className={cn(
+                    "cursor-pointer hover:border-primary transition-all",
+                    selectedForm === type.id &&
+                      "border-primary ring-1 ring-primary"
+                  )}
+                  onClick={() => handleFormTypeSelect(type.id)}
+                >
+                  <CardContent className="flex items-center p-4">
+                    <div className="bg-primary/10 p-3 rounded-full mr-4">
+                      <FileText className="h-6 w-6 text-primary" />
+                    </div>
+                    <div>
+                      <h3 className="font-medium">{type.name}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {type.description}
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
         ) : (
           <>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -271,81 +326,18 @@ export function FormFilling({
                 </h3>
                 <Separator className="mb-3" />
                 <div className="space-y-2">
-                  {selectedFormDetails.id === "modelo100" && (
-                    <>
-                      <p className="text-sm">
-                        El <strong>Modelo 100</strong> es la declaración anual
-                        del IRPF (Impuesto sobre la Renta de las Personas
-                        Físicas) que deben presentar los contribuyentes
-                        residentes en España.
-                      </p>
-                      <p className="text-sm">
-                        <strong>Plazo de presentación:</strong> Generalmente
-                        entre abril y junio del año siguiente al ejercicio
-                        fiscal.
-                      </p>
-                      <p className="text-sm">
-                        <strong>Información necesaria:</strong> Ingresos por
-                        trabajo, rendimientos de capital, ganancias
-                        patrimoniales, deducciones aplicables.
-                      </p>
-                    </>
-                  )}
-
-                  {selectedFormDetails.id === "modelo303" && (
-                    <>
-                      <p className="text-sm">
-                        El <strong>Modelo 303</strong> es la declaración
-                        trimestral del IVA (Impuesto sobre el Valor Añadido) que
-                        deben presentar autónomos y empresas.
-                      </p>
-                      <p className="text-sm">
-                        <strong>Plazo de presentación:</strong> Trimestral
-                        (abril, julio, octubre y enero)
-                      </p>
-                      <p className="text-sm">
-                        <strong>Información necesaria:</strong> IVA repercutido,
-                        IVA soportado, operaciones intracomunitarias.
-                      </p>
-                    </>
-                  )}
-
-                  {selectedFormDetails.id === "modelo130" && (
-                    <>
-                      <p className="text-sm">
-                        El <strong>Modelo 130</strong> es el pago fraccionado
-                        del IRPF para autónomos y profesionales en estimación
-                        directa.
-                      </p>
-                      <p className="text-sm">
-                        <strong>Plazo de presentación:</strong> Trimestral
-                        (abril, julio, octubre y enero)
-                      </p>
-                      <p className="text-sm">
-                        <strong>Información necesaria:</strong> Ingresos y
-                        gastos trimestrales, retenciones soportadas.
-                      </p>
-                    </>
-                  )}
-
-                  {selectedFormDetails.id === "modelo714" && (
-                    <>
-                      <p className="text-sm">
-                        El <strong>Modelo 714</strong> es la declaración del
-                        Impuesto sobre el Patrimonio para personas con bienes
-                        superiores a cierto umbral.
-                      </p>
-                      <p className="text-sm">
-                        <strong>Plazo de presentación:</strong> Mismos plazos
-                        que el IRPF (generalmente abril-junio)
-                      </p>
-                      <p className="text-sm">
-                        <strong>Información necesaria:</strong> Bienes
-                        inmuebles, cuentas bancarias, inversiones, vehículos,
-                        obras de arte, etc.
-                      </p>
-                    </>
-                  )}
+                  <p className="text-sm">
+                    El <strong>{selectedFormDetails.name}</strong>{" "}
+                    {selectedFormDetails.info.summary}
+                  </p>
+                  <p className="text-sm">
+                    <strong>Plazo de presentación:</strong>{" "}
+                    {selectedFormDetails.info.deadline}
+                  </p>
+                  <p className="text-sm">
+                    <strong>Información necesaria:</strong>{" "}
+                    {selectedFormDetails.info.requirements}
+                  </p>
                 </div>
               </div>
             )}
@@ -353,7 +345,10 @@ export function FormFilling({
             {/* Render AI Chat Assistant when AI method is selected */}
             {showAiChat && (
               <div className="mt-8">
-                <AiChatAssistant taxFormType={selectedFormDetails?.name} />
+                <AiChatAssistant
+                  taxFormType={selectedFormDetails?.name}
+                  onComplete={handleComplete}
+                />
               </div>
             )}
           </>
@@ -24,77 +24,75 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { DraftList } from "@/components/onboarding/draft-list/DraftList";
+import type { Draft } from "@/lib/declaration/drafts";
+import { getFormTitle } from "@/lib/declaration/forms";
+import {
+  getStoredDeclarations,
+  type StoredDeclaration,
+} from "@/lib/declaration/history";
+import { formatPeriod } from "@/lib/declaration/period";
+import {
+  downloadDeclarationPdf,
+  getDeclarationOutcome,
+  openDeclarationPdf,
+} from "@/lib/declaration/pdf";
+import { formatCurrency } from "@/lib/utils";
 import { Download, Eye, FileText, Filter, Search } from "lucide-react";
 import { useState } from "react";
+import { toast } from "sonner";
 
-// Sample tax filing history data
-const taxFilings = [
-  {
-    id: "F2024-001",
-    type: "Modelo 100",
-    year: "2024",
-    status: "Submitted",
-    dateSubmitted: "2024-04-10",
-    amount: "€1,245.78",
-  },
-  {
-    id: "F2023-045",
-    type: "Modelo 100",
-    year: "2023",
-    status: "Completed",
-    dateSubmitted: "2023-04-15",
-    amount: "€956.32",
-  },
-  {
-    id: "F2023-102",
-    type: "Modelo 303",
-    year: "2023",
-    status: "Completed",
-    dateSubmitted: "2023-10-20",
-    amount: "€450.00",
-  },
-  {
-    id: "F2022-089",
-    type: "Modelo 100",
-    year: "2022",
-    status: "Completed",
-    dateSubmitted: "2022-04-18",
-    amount: "€1,120.45",
-  },
-  {
-    id: "F2022-156",
-    type: "Modelo 349",
-    year: "2022",
-    status: "Completed",
-    dateSubmitted: "2022-06-30",
-    amount: "€0.00",
-  },
-  {
-    id: "F2024-012",
-    type: "Modelo 303",
-    year: "2024",
-    status: "Draft",
-    dateSubmitted: "-",
-    amount: "-",
-  },
-];
+// Most recent first
+const getFilings = () =>
+  getStoredDeclarations().sort((a, b) => b.savedAt.localeCompare(a.savedAt));
 
-export function History() {
+interface HistoryProps {
+  // Declarations still being filled in, listed above the filed ones
+  drafts: Draft[];
+  onResumeDraft: (draft: Draft) => void;
+  onDiscardDraft: (draft: Draft) => void;
+}
+
+export function History({
+  drafts,
+  onResumeDraft,
+  onDiscardDraft,
+}: HistoryProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [yearFilter, setYearFilter] = useState("all");
   const [typeFilter, setTypeFilter] = useState("all");
+  const [filings] = useState(getFilings);
+
+  // Only the years and forms that have filings can be picked
+  const years = [
+    ...new Set(filings.map(({ declaration }) => declaration.period.year)),
+  ].sort((a, b) => b - a);
+  const types = [
+    ...new Set(filings.map(({ declaration }) => declaration.modelo)),
+  ].sort();
 
   // Filter the tax filings based on search term and filters
-  const filteredFilings = taxFilings.filter((filing) => {
+  const filteredFilings = filings.filter(({ id, declaration }) => {
+    const search = searchTerm.toLowerCase();
     const matchesSearch =
-      filing.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      filing.type.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesYear = yearFilter === "all" || filing.year === yearFilter;
-    const matchesType = typeFilter === "all" || filing.type === typeFilter;
+      id.toLowerCase().includes(search) ||
+      getFormTitle(declaration.modelo).toLowerCase().includes(search);
+    const matchesYear =
+      yearFilter === "all" || String(declaration.period.year) === yearFilter;
+    const matchesType =
+      typeFilter === "all" || declaration.modelo === typeFilter;
 
     return matchesSearch && matchesYear && matchesType;
   });
 
+  const handleDownload = async (filing: StoredDeclaration) => {
+    try {
+      await downloadDeclarationPdf(filing.declaration);
+    } catch {
+      toast.error("Could not generate the PDF");
+    }
+  };
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -104,6 +102,17 @@ export function History() {
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {drafts.length > 0 && (
+          <div className="mb-6 space-y-3">
+            <h3 className="font-medium">Drafts in progress</h3>
+            <DraftList
+              drafts={drafts}
+              onResume={onResumeDraft}
+              onDiscard={onDiscardDraft}
+            />
+          </div>
+        )}
+
         <div className="flex flex-col md:flex-row justify-between mb-6 gap-4">
           <div className="relative w-full md:w-64">
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
@@ -122,9 +131,11 @@ export function History() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Years</SelectItem>
-                <SelectItem value="2024">2024</SelectItem>
-                <SelectItem value="2023">2023</SelectItem>
-                <SelectItem value="2022">2022</SelectItem>
+                {years.map((year) => (
+                  <SelectItem key={year} value={String(year)}>
+                    {year}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -134,9 +145,11 @@ export function History() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Forms</SelectItem>
-                <SelectItem value="Modelo 100">Modelo 100</SelectItem>
-                <SelectItem value="Modelo 303">Modelo 303</SelectItem>
-                <SelectItem value="Modelo 349">Modelo 349</SelectItem>
+                {types.map((modelo) => (
+                  <SelectItem key={modelo} value={modelo}>
+                    {getFormTitle(modelo)}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -152,7 +165,7 @@ export function History() {
               <TableRow>
                 <TableHead>ID</TableHead>
                 <TableHead>Form Type</TableHead>
-                <TableHead>Year</TableHead>
+                <TableHead>Period</TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead>Amount</TableHead>
                 <TableHead>Status</TableHead>
@@ -170,45 +183,50 @@ export function History() {
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredFilings.map((filing) => (
-                  <TableRow key={filing.id}>
-                    <TableCell>{filing.id}</TableCell>
-                    <TableCell className="flex items-center gap-2">
-                      <FileText className="h-4 w-4 text-gray-500" />
-                      {filing.type}
-                    </TableCell>
-                    <TableCell>{filing.year}</TableCell>
-                    <TableCell>{filing.dateSubmitted}</TableCell>
-                    <TableCell>{filing.amount}</TableCell>
-                    <TableCell>
-                      <Badge
-                        variant={
-                          filing.status === "Completed"
-                            ? "default"
-                            : filing.status === "Submitted"
-                            ? "secondary"
-                            : "outline"
-                        }
-                      >
-                        {filing.status}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <div className="flex justify-end gap-2">
-                        <Button variant="ghost" size="icon">
-                          <Eye className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          disabled={filing.status === "Draft"}
-                        >
-                          <Download className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))
+                filteredFilings.map((filing) => {
+                  const { declaration } = filing;
+                  const outcome = getDeclarationOutcome(declaration);
+
+                  return (
+                    <TableRow key={filing.id}>
+                      <TableCell>{filing.id}</TableCell>
+                      <TableCell className="flex items-center gap-2">
+                        <FileText className="h-4 w-4 text-gray-500" />
+                        {getFormTitle(declaration.modelo)}
+                      </TableCell>
+                      <TableCell>{formatPeriod(declaration.period)}</TableCell>
+                      <TableCell>
+                        {new Date(filing.savedAt).toLocaleDateString("es-ES")}
+                      </TableCell>
+                      <TableCell>{formatCurrency(outcome.amount)}</TableCell>
+                      <TableCell>
+                        <Badge variant="default">Completed</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="View PDF"
+                            onClick={() =>
+                              void openDeclarationPdf(declaration)
+                            }
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Download PDF"
+                            onClick={() => void handleDownload(filing)}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
               )}
             </TableBody>
           </Table>
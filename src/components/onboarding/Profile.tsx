@@ -1,4 +1,5 @@
 // Profile.tsx - For the Profile section
+import { DraftSecurity } from "@/components/onboarding/draft-security/DraftSecurity";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import {
@@ -22,7 +23,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Calendar, Mail, MapPin, Phone, Save } from "lucide-react";
 import { useState } from "react";
 
-export function Profile() {
+interface ProfileProps {
+  // The drafts on this device were sealed again, locked or removed
+  onDraftStoreChange: () => void;
+  // The drafts are about to be locked, or everything was removed
+  onDraftStoreLock: () => Promise<void>;
+  onDraftStoreWipe: () => void;
+}
+
+export function Profile({
+  onDraftStoreChange,
+  onDraftStoreLock,
+  onDraftStoreWipe,
+}: ProfileProps) {
   const [formData, setFormData] = useState({
     firstName: "John",
     lastName: "Doe",
@@ -232,8 +245,10 @@ export function Profile() {
                 </div>
               </div>
             </TabsContent>
+          </form>
 
-            <TabsContent value="security" className="space-y-6">
+          <TabsContent value="security" className="space-y-6">
+            <form onSubmit={handleSubmit} className="space-y-6">
               <div className="space-y-2">
                 <Label htmlFor="current-password">Current Password</Label>
                 <Input
@@ -258,8 +273,14 @@ export function Profile() {
                   placeholder="••••••••"
                 />
               </div>
-            </TabsContent>
-          </form>
+            </form>
+            {/* Outside the profile form, so that it doesn't submit it */}
+            <DraftSecurity
+              onChange={onDraftStoreChange}
+              onLock={onDraftStoreLock}
+              onWipe={onDraftStoreWipe}
+            />
+          </TabsContent>
         </CardContent>
         <CardFooter className="flex justify-between border-t pt-6">
           <Button variant="outline">Cancel</Button>
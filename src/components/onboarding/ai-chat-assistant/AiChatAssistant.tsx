@@ -32,6 +32,12 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  fromChatValues,
+  type ChatCapturedValues,
+} from "@/lib/declaration/adapters";
+import { getFormDefinition } from "@/lib/declaration/forms";
+import type { Declaration } from "@/lib/declaration/types";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 
@@ -53,49 +59,95 @@ interface Message {
 
 interface AiChatAssistantProps {
   taxFormType?: string;
-  onComplete?: () => void;
+  onComplete?: (declaration: Declaration) => void;
 }
 
-// Suggested questions for different tax forms
-const suggestedQuestionsByForm: Record<string, string[]> = {
-  "Modelo 100": [
-    "¿Qué es el Modelo 100?",
-    "¿Cuáles son las deducciones que puedo aplicar?",
-    "¿Necesito incluir ingresos del extranjero?",
-    "¿Cómo funcionan las deducciones por vivienda?",
-    "¿Puedo deducir gastos de autónomo?",
-  ],
-  "Modelo 303": [
-    "¿Qué es el Modelo 303?",
-    "¿Cómo calculor el IVA repercutido?",
-    "¿Puedo deducir todo el IVA soportado?",
-    "¿Cuál es el plazo de presentación?",
-    "¿Qué ocurre si tengo más IVA soportado que repercutido?",
-  ],
-  "Modelo 130": [
-    "¿Qué es el Modelo 130?",
-    "¿Quién debe presentar este modelo?",
-    "¿Cómo calculo el pago fraccionado?",
-    "¿Qué gastos puedo deducir?",
-    "¿Cuál es la relación con el IRPF anual?",
-  ],
-  "Modelo 714": [
-    "¿Qué es el Impuesto sobre el Patrimonio?",
-    "¿Qué bienes debo declarar?",
-    "¿Cuál es el mínimo exento?",
-    "¿Cómo se valoran los inmuebles?",
-    "¿Existen bonificaciones autonómicas?",
-  ],
-};
+// Keywords that tell which field an amount mentioned by the user refers to
+const amountPatterns: {
+  section: "income" | "deductions";
+  field: string;
+  keywords: string;
+}[] = [
+  { section: "income", field: "salaryIncome", keywords: "salario|sueldo|nómina" },
+  {
+    section: "income",
+    field: "selfEmploymentIncome",
+    keywords: "facturado|facturación|actividad|autónomo",
+  },
+  { section: "income", field: "rentalIncome", keywords: "alquiler" },
+  {
+    section: "income",
+    field: "capitalGainsIncome",
+    keywords: "ganancia|venta de",
+  },
+  {
+    section: "income",
+    field: "base21",
+    keywords: "base imponible|facturado|facturación|ventas",
+  },
+  { section: "income", field: "workPayments", keywords: "nóminas|salarios" },
+  {
+    section: "income",
+    field: "professionalPayments",
+    keywords: "facturas de profesionales|profesionales",
+  },
+  { section: "income", field: "rentBase", keywords: "alquiler del local|alquiler" },
+  {
+    section: "deductions",
+    field: "currentDomesticQuota",
+    keywords: "iva soportado",
+  },
+  {
+    section: "deductions",
+    field: "socialSecurity",
+    keywords: "seguridad social|cuota de autónomo",
+  },
+  {
+    section: "deductions",
+    field: "pensionContributions",
+    keywords: "plan de pensiones|planes de pensiones",
+  },
+  { section: "deductions", field: "mortgageInterest", keywords: "hipoteca" },
+  { section: "deductions", field: "donations", keywords: "donativo|donación" },
+];
+
+// Parses an amount written the Spanish way (32.000,50) into "32000.50"
+const parseSpanishAmount = (value: string): string =>
+  value.replace(/\.(?=\d{3}(\D|$))/g, "").replace(",", ".");
+
+// Pull the figures and identification data the user typed in a message
+function extractValuesFromMessage(message: string): ChatCapturedValues {
+  const captured: ChatCapturedValues = { personal: {}, income: {}, deductions: {} };
+  const text = message.toLowerCase();
+
+  amountPatterns.forEach(({ section, field, keywords }) => {
+    const match = text.match(
+      new RegExp(`(?:${keywords})[^\\d]{0,40}(\\d[\\d.]*(?:,\\d+)?)`)
+    );
+    if (match) {
+      captured[section][field] = parseSpanishAmount(match[1]);
+    }
+  });
+
+  const nifMatch = message.match(/\b([XYZxyz]\d{7}|\d{8})[A-Za-z]\b/);
+  if (nifMatch) {
+    captured.personal.nif = nifMatch[0].toUpperCase();
+  }
+
+  const emailMatch = message.match(/[^\s@]+@[^\s@]+\.[^\s@]+/);
+  if (emailMatch) {
+    captured.personal.email = emailMatch[0];
+  }
+
+  return captured;
+}
 
 export function AiChatAssistant({
   taxFormType = "Modelo 100",
   onComplete,
 }: AiChatAssistantProps): React.ReactElement {
   // Get the appropriate suggested questions based on form type
-  const suggestedQuestions =
-    suggestedQuestionsByForm[taxFormType] ||
-    suggestedQuestionsByForm["Modelo 100"];
+  const { suggestedQuestions } = getFormDefinition(taxFormType);
 
   // Initial message for the chat
   const initialMessages: Message[] = [
@@ -116,6 +168,11 @@ export function AiChatAssistant({
   const [isRecording, setIsRecording] = useState<boolean>(false);
   const [progress, setProgress] = useState<number>(0); // For tracking conversation progress
   const [isCompleted, setIsCompleted] = useState<boolean>(false);
+  const [capturedValues, setCapturedValues] = useState<ChatCapturedValues>({
+    personal: {},
+    income: {},
+    deductions: {},
+  });
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -174,6 +231,14 @@ export function AiChatAssistant({
     };
 
     setMessages((prev) => [...prev, userMessage]);
+
+    // Keep any figures the user mentioned so they reach the review step
+    const extracted = extractValuesFromMessage(input);
+    setCapturedValues((prev) => ({
+      personal: { ...prev.personal, ...extracted.personal },
+      income: { ...prev.income, ...extracted.income },
+      deductions: { ...prev.deductions, ...extracted.deductions },
+    }));
     setInput("");
     setAttachments([]);
     setShowSuggestions(false);
@@ -291,7 +356,7 @@ export function AiChatAssistant({
       description: "La información ha sido procesada correctamente.",
     });
     if (onComplete) {
-      onComplete();
+      onComplete(fromChatValues(taxFormType, capturedValues));
     }
   };
 
@@ -334,70 +399,18 @@ export function AiChatAssistant({
   const getDummyResponse = (userInput: string, formType: string): string => {
     const input = userInput.toLowerCase();
 
+    const { assistant } = getFormDefinition(formType);
+
     // General responses for all form types
     if (input.includes("fecha límite") || input.includes("plazo")) {
-      const deadlines: Record<string, string> = {
-        "Modelo 100":
-          "• Inicio: 1 de abril\n• Finalización: 30 de junio\n\nSi optas por domiciliación bancaria, el plazo termina el 25 de junio.",
-        "Modelo 303":
-          "El Modelo 303 es trimestral, con los siguientes plazos:\n• 1T: Del 1 al 20 de abril\n• 2T: Del 1 al 20 de julio\n• 3T: Del 1 al 20 de octubre\n• 4T: Del 1 al 30 de enero del año siguiente",
-        "Modelo 130":
-          "El Modelo 130 es trimestral, con los siguientes plazos:\n• 1T: Del 1 al 20 de abril\n• 2T: Del 1 al 20 de julio\n• 3T: Del 1 al 20 de octubre\n• 4T: Del 1 al 30 de enero del año siguiente",
-        "Modelo 714":
-          "Del 1 de abril al 30 de junio, coincidiendo con el plazo de presentación del IRPF.",
-      };
-      return `Los plazos para presentar el ${formType} son:\n\n${
-        deadlines[formType] || deadlines["Modelo 100"]
-      }\n\nTe recomiendo no dejarlo para el último momento para evitar problemas técnicos o dudas de última hora.`;
+      return `Los plazos para presentar el ${formType} son:\n\n${assistant.deadlines}\n\nTe recomiendo no dejarlo para el último momento para evitar problemas técnicos o dudas de última hora.`;
     }
 
     // Form-specific responses
-    if (formType === "Modelo 100") {
-      if (input.includes("modelo 100")) {
-        return "El Modelo 100 es la declaración anual del IRPF (Impuesto sobre la Renta de las Personas Físicas). Este formulario es obligatorio para la mayoría de los contribuyentes en España y se presenta generalmente entre abril y junio del año siguiente al ejercicio fiscal.";
-      } else if (input.includes("deducci")) {
-        return "Las deducciones principales en el IRPF incluyen:\n\n• Deducciones por inversión en vivienda habitual (régimen transitorio)\n• Deducciones por donativos a entidades sin ánimo de lucro\n• Deducciones por maternidad\n• Deducciones por familia numerosa o personas con discapacidad a cargo\n• Deducciones autonómicas específicas según tu comunidad\n\n¿Quieres que profundice en alguna de estas deducciones?";
-      } else if (
-        input.includes("extranjero") ||
-        input.includes("ingresos del extranjero")
-      ) {
-        return "Sí, debes declarar todos tus ingresos mundiales en la declaración de la renta española si eres residente fiscal en España. Esto incluye salarios, rentas, intereses, dividendos y ganancias de capital obtenidos en el extranjero. Existen mecanismos para evitar la doble imposición mediante convenios fiscales entre países.";
-      } else if (input.includes("vivienda")) {
-        return "Las deducciones por vivienda habitual han cambiado significativamente. Desde 2013, solo pueden aplicarla quienes compraron su vivienda habitual antes del 1 de enero de 2013. La deducción es del 15% sobre un máximo de 9.040€ anuales. Si estás pagando una hipoteca anterior a esa fecha, puedes seguir beneficiándote de esta deducción.";
-      } else if (input.includes("autónomo") || input.includes("autonomo")) {
-        return "Los autónomos pueden deducir los gastos relacionados directamente con la actividad económica, como:\n\n• Suministros de la parte de la vivienda afecta a la actividad\n• Material de oficina\n• Cuotas de autónomos a la Seguridad Social\n• Gastos de vehículo (con restricciones)\n• Seguros profesionales\n\nRecuerda que estos gastos deben estar vinculados a la actividad económica y estar debidamente justificados con facturas.";
-      }
-    } else if (formType === "Modelo 303") {
-      if (input.includes("modelo 303")) {
-        return "El Modelo 303 es la declaración trimestral del IVA (Impuesto sobre el Valor Añadido) que deben presentar empresarios, profesionales y autónomos. En él se declaran las operaciones realizadas en el trimestre, tanto el IVA repercutido (cobrado a clientes) como el IVA soportado (pagado a proveedores).";
-      } else if (input.includes("iva") || input.includes("repercutido")) {
-        return "El IVA repercutido es el que cobras a tus clientes en tus facturas. Dependiendo del tipo de bienes o servicios, puede ser del:\n\n• 21% (tipo general)\n• 10% (tipo reducido)\n• 4% (tipo superreducido)\n\nEste IVA repercutido debe declararse en el Modelo 303 y pagarse a Hacienda, salvo la parte que puedas compensar con el IVA soportado.";
-      } else if (input.includes("soportado") || input.includes("deducir")) {
-        return "El IVA soportado es el que has pagado a tus proveedores. Para poder deducirlo en tu Modelo 303 debe cumplir varios requisitos:\n\n• Debe corresponder a bienes o servicios afectos a tu actividad económica\n• Debe estar documentado en facturas completas y correctas\n• Debe estar contabilizado y registrado en los libros\n• No debe estar excluido del derecho a deducción (como gastos de representación o vehículos no afectos al 100%)\n\n¿Necesitas más información sobre algún aspecto específico?";
-      }
-    } else if (formType === "Modelo 130") {
-      if (input.includes("modelo 130")) {
-        return "El Modelo 130 es la declaración trimestral de pagos fraccionados del IRPF para empresarios y profesionales en estimación directa. Estos pagos son anticipos a cuenta del IRPF anual (Modelo 100) que se presentará el año siguiente.";
-      } else if (input.includes("calcul")) {
-        return "El cálculo del Modelo 130 se realiza aplicando el 20% sobre el rendimiento neto (ingresos - gastos) obtenido desde el inicio del año hasta el final del trimestre, menos los pagos fraccionados ya realizados en trimestres anteriores del mismo año, y menos las retenciones que te hayan practicado.\n\nSi estás en estimación directa simplificada, recuerda que tienes una reducción del 5% de los gastos de difícil justificación con un límite de 2.000€ anuales.";
-      } else if (
-        input.includes("obligatorio") ||
-        input.includes("quién") ||
-        input.includes("quien")
-      ) {
-        return "Están obligados a presentar el Modelo 130 los empresarios y profesionales individuales (no sociedades) que determinen el rendimiento de sus actividades por el método de estimación directa, tanto normal como simplificada.\n\nEstán exentos los profesionales con más del 70% de sus ingresos con retención, siempre que en el año anterior hubieran tenido al menos un pago con retención.";
-      }
-    } else if (formType === "Modelo 714") {
-      if (input.includes("modelo 714") || input.includes("patrimonio")) {
-        return "El Modelo 714 es la declaración del Impuesto sobre el Patrimonio. Este impuesto grava el patrimonio neto de las personas físicas (bienes y derechos menos deudas) cuando supera cierto umbral, que varía según la Comunidad Autónoma.";
-      } else if (input.includes("mínimo") || input.includes("exento")) {
-        return "El mínimo exento general en el Impuesto sobre el Patrimonio es de 700.000€, más 300.000€ por vivienda habitual. Sin embargo, cada Comunidad Autónoma puede establecer un mínimo diferente. Por ejemplo, en Madrid está bonificado al 100%, mientras que en Cataluña el mínimo exento es de 500.000€.\n\n¿Quieres información sobre alguna Comunidad Autónoma específica?";
-      } else if (input.includes("bien") || input.includes("declar")) {
-        return "En el Impuesto sobre el Patrimonio debes declarar todos tus bienes y derechos con valor económico:\n\n• Bienes inmuebles (viviendas, terrenos, etc.)\n• Depósitos bancarios y activos financieros\n• Acciones y participaciones en empresas\n• Seguros de vida y rentas temporales o vitalicias\n• Joyas, pieles, vehículos, embarcaciones, aeronaves\n• Objetos de arte y antigüedades\n• Derechos reales y concesiones administrativas\n• Propiedad intelectual e industrial\n\nDe estos bienes, puedes restar tus deudas para calcular el patrimonio neto.";
-      } else if (input.includes("valor") || input.includes("inmueble")) {
-        return "Para valorar los inmuebles en el Impuesto sobre el Patrimonio se usa el mayor de estos tres valores:\n\n• Valor catastral\n• Valor comprobado por la Administración a efectos de otros impuestos\n• Valor de adquisición\n\nPara la vivienda habitual hay una exención de hasta 300.000€, y las deudas relacionadas con la adquisición de bienes pueden restarse de su valor.";
-      }
-    }
+    const answer = assistant.answers?.find(({ keywords }) =>
+      keywords.some((keyword) => input.includes(keyword))
+    );
+    if (answer) return answer.text;
 
     // Completion responses
     if (
@@ -0,0 +1,210 @@
+import { Home, Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  PatrimonioAsset,
+  PatrimonioAssetType,
+} from "@/lib/declaration/types";
+import { assetTypes, getAssetValue } from "@/lib/tax/patrimonio";
+import { formatCurrency } from "@/lib/utils";
+
+interface AssetInventoryProps {
+  assets: PatrimonioAsset[];
+  onChange: (assets: PatrimonioAsset[]) => void;
+  // Validation messages keyed as "assets.<index>.<field>"
+  errors?: Record<string, string>;
+}
+
+const createAsset = (type: PatrimonioAssetType): PatrimonioAsset => ({
+  id: crypto.randomUUID(),
+  type,
+  description: "",
+  ownership: "100",
+  habitualHome: false,
+  values: {},
+});
+
+// Inventory of bienes, derechos and deudas of the Modelo 714, each valued
+// with the rule of its type
+export function AssetInventory({
+  assets,
+  onChange,
+  errors = {},
+}: AssetInventoryProps): React.ReactElement {
+  const updateAsset = (index: number, changes: Partial<PatrimonioAsset>) =>
+    onChange(
+      assets.map((asset, i) => (i === index ? { ...asset, ...changes } : asset))
+    );
+
+  const removeAsset = (index: number) =>
+    onChange(assets.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-4">
+      {assets.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Añade tus bienes, derechos y deudas a 31 de diciembre.
+        </p>
+      )}
+
+      {assets.map((asset, index) => {
+        const definition = assetTypes[asset.type];
+        const error = (field: string) => errors[`assets.${index}.${field}`];
+
+        return (
+          <div key={asset.id} className="p-4 border rounded-lg space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Tipo</Label>
+                <Select
+                  value={asset.type}
+                  onValueChange={(type) =>
+                    updateAsset(index, {
+                      type: type as PatrimonioAssetType,
+                      habitualHome: false,
+                      values: {},
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(assetTypes).map(([type, { label }]) => (
+                      <SelectItem key={type} value={type}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Descripción</Label>
+                <Input
+                  value={asset.description}
+                  placeholder="p. ej. Piso en Calle Mayor 1"
+                  aria-invalid={!!error("description")}
+                  onChange={(e) =>
+                    updateAsset(index, { description: e.target.value })
+                  }
+                />
+                {error("description") && (
+                  <p className="text-xs text-destructive">
+                    {error("description")}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label>Titularidad (%)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={asset.ownership}
+                  aria-invalid={!!error("ownership")}
+                  onChange={(e) =>
+                    updateAsset(index, { ownership: e.target.value })
+                  }
+                />
+                {error("ownership") && (
+                  <p className="text-xs text-destructive">
+                    {error("ownership")}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {definition.inputs.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label>{label} (€)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={asset.values[key] ?? ""}
+                    aria-invalid={!!error(`values.${key}`)}
+                    onChange={(e) =>
+                      updateAsset(index, {
+                        values: { ...asset.values, [key]: e.target.value },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+
+            {asset.type === "realEstate" && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`habitual-${asset.id}`}
+                  checked={asset.habitualHome}
+                  onCheckedChange={(checked) =>
+                    updateAsset(index, { habitualHome: checked === true })
+                  }
+                />
+                <Label htmlFor={`habitual-${asset.id}`} className="font-normal">
+                  <Home className="h-4 w-4" />
+                  Es mi vivienda habitual
+                </Label>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{definition.rule}</span>
+              <div className="flex items-center gap-2">
+                <span className="font-medium whitespace-nowrap">
+                  {formatCurrency(getAssetValue(asset).toFixed(2))}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label="Eliminar"
+                  onClick={() => removeAsset(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...assets, createAsset("realEstate")])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Añadir bien o derecho
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...assets, createAsset("debt")])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Añadir deuda
+        </Button>
+      </div>
+    </div>
+  );
+}
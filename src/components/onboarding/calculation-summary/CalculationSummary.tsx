@@ -0,0 +1,55 @@
+import { AlertTriangle } from "lucide-react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { cn, formatCurrency } from "@/lib/utils";
+import type { CalculationBreakdown } from "@/lib/tax/types";
+
+interface CalculationSummaryProps {
+  breakdown: CalculationBreakdown;
+  title?: string;
+}
+
+// Line-by-line breakdown of a calculation with the final result highlighted
+export function CalculationSummary({
+  breakdown,
+  title = "Desglose del cálculo",
+}: CalculationSummaryProps): React.ReactElement {
+  const isRefund = breakdown.result < 0;
+
+  return (
+    <div className="p-4 bg-muted/20 rounded-lg border">
+      <h4 className="text-sm font-medium mb-3">{title}</h4>
+      {breakdown.notices?.map((notice) => (
+        <Alert key={notice} className="mb-3 bg-amber-50 border-amber-200">
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          <AlertDescription className="text-amber-800">{notice}</AlertDescription>
+        </Alert>
+      ))}
+      <div className="space-y-1">
+        {breakdown.lines.map((line, index) => (
+          <div
+            key={`${line.label}-${index}`}
+            className={cn(
+              "flex justify-between items-center text-sm py-1",
+              line.emphasis === "subtotal" && "font-medium border-t",
+              line.emphasis === "total" &&
+                (isRefund
+                  ? "font-semibold border-t-2 text-green-700"
+                  : "font-semibold border-t-2 text-red-700")
+            )}
+          >
+            <span>{line.label}</span>
+            <span>
+              {formatCurrency(
+                (line.emphasis === "total"
+                  ? Math.abs(line.amount)
+                  : line.amount
+                ).toFixed(2)
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
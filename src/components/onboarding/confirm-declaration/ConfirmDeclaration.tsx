@@ -0,0 +1,97 @@
+import { ArrowLeft, ArrowRight, CheckCircle2 } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getFormTitle } from "@/lib/declaration/forms";
+import { formatPeriod } from "@/lib/declaration/period";
+import { getDeclarationOutcome } from "@/lib/declaration/pdf";
+import type { Declaration } from "@/lib/declaration/types";
+import { formatCurrency } from "@/lib/utils";
+
+interface ConfirmDeclarationProps {
+  declaration: Declaration;
+  // It was confirmed already, as it is now
+  isConfirmed: boolean;
+  onBack: () => void;
+  onConfirm: () => void;
+}
+
+// The reviewed declaration one last time before it is kept in the history
+// and turned into a PDF
+export function ConfirmDeclaration({
+  declaration,
+  isConfirmed,
+  onBack,
+  onConfirm,
+}: ConfirmDeclarationProps): React.ReactElement {
+  const { modelo, period, taxpayer } = declaration;
+  const outcome = getDeclarationOutcome(declaration);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Confirmar {getFormTitle(modelo)}</CardTitle>
+        <CardDescription>
+          Ejercicio {formatPeriod(period)}. Al confirmar, la declaración se
+          guarda en el historial de este dispositivo
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Declarante</p>
+            <p className="font-medium">
+              {taxpayer.firstName} {taxpayer.lastName}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">NIF</p>
+            <p className="font-medium">{taxpayer.nif.toUpperCase()}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">{outcome.label}</p>
+            <p className="font-medium">{formatCurrency(outcome.amount)}</p>
+          </div>
+        </div>
+
+        {isConfirmed ? (
+          <Alert className="bg-green-50 border-green-200">
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+            <AlertTitle className="text-green-800">
+              Declaración confirmada
+            </AlertTitle>
+            <AlertDescription className="text-green-700">
+              Si cambias algún dato tendrás que confirmarla de nuevo.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Comprueba que los datos son correctos y corresponden a tu situación
+            fiscal. Podrás volver a revisarlos, pero cualquier cambio tendrá
+            que confirmarse de nuevo.
+          </p>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex justify-between">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver
+        </Button>
+        <Button onClick={onConfirm}>
+          {isConfirmed ? "Continuar" : "Confirmar declaración"}
+          <ArrowRight className="ml-2 h-4 w-4" />
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,236 @@
+import { Plus, Trash2, Upload } from "lucide-react";
+import { useRef } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { parseCounterparties } from "@/lib/declaration/adapters";
+import { getFormDefinition } from "@/lib/declaration/forms";
+import type {
+  Counterparty,
+  DeclarationPeriod,
+  ModeloId,
+} from "@/lib/declaration/types";
+import {
+  getCounterpartyQuarters,
+  getCounterpartyTotal,
+} from "@/lib/tax/counterparties";
+import { formatCurrency } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface CounterpartyListProps {
+  modelo: ModeloId;
+  period: DeclarationPeriod;
+  counterparties: Counterparty[];
+  onChange: (counterparties: Counterparty[]) => void;
+  // Validation messages keyed as "counterparties.<index>.<field>"
+  errors?: Record<string, string>;
+}
+
+const createCounterparty = (key: string): Counterparty => ({
+  id: crypto.randomUUID(),
+  nif: "",
+  name: "",
+  key,
+  amounts: {},
+});
+
+// Declarados of the Modelo 347 or operadores of the 349, entered by hand or
+// imported from a CSV, with the amount of each quarter of the period
+export function CounterpartyList({
+  modelo,
+  period,
+  counterparties,
+  onChange,
+  errors = {},
+}: CounterpartyListProps): React.ReactElement | null {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const definition = getFormDefinition(modelo).counterparties;
+  if (!definition) return null;
+
+  const { keys, identifier } = definition;
+  const quarters = getCounterpartyQuarters(period);
+  const defaultKey = Object.keys(keys)[0];
+
+  const updateCounterparty = (index: number, changes: Partial<Counterparty>) =>
+    onChange(
+      counterparties.map((counterparty, i) =>
+        i === index ? { ...counterparty, ...changes } : counterparty
+      )
+    );
+
+  const removeCounterparty = (index: number) =>
+    onChange(counterparties.filter((_, i) => i !== index));
+
+  const handleImport = async (file: File) => {
+    const imported = parseCounterparties(await file.text(), quarters);
+    onChange([...counterparties, ...imported.counterparties]);
+    if (imported.errors.length > 0) {
+      toast.warning(
+        `${imported.counterparties.length} fila(s) importadas, ${imported.errors.length} con errores`,
+        { description: imported.errors.slice(0, 3).join(". ") }
+      );
+      return;
+    }
+    toast.success(`${imported.counterparties.length} fila(s) importadas`);
+  };
+
+  return (
+    <div className="space-y-4">
+      {counterparties.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Añade una fila por {identifier} y clave de operación, o importa un
+          CSV con las columnas {identifier}; nombre; clave;{" "}
+          {quarters.map((quarter) => `${quarter}T`).join("; ")}.
+        </p>
+      )}
+
+      {counterparties.map((counterparty, index) => {
+        const error = (field: string) =>
+          errors[`counterparties.${index}.${field}`];
+
+        return (
+          <div
+            key={counterparty.id}
+            className="p-4 border rounded-lg space-y-3"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>{identifier}</Label>
+                <Input
+                  value={counterparty.nif}
+                  aria-invalid={!!error("nif")}
+                  onChange={(e) =>
+                    updateCounterparty(index, { nif: e.target.value })
+                  }
+                />
+                {error("nif") && (
+                  <p className="text-xs text-destructive">{error("nif")}</p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label>Nombre o razón social</Label>
+                <Input
+                  value={counterparty.name}
+                  aria-invalid={!!error("name")}
+                  onChange={(e) =>
+                    updateCounterparty(index, { name: e.target.value })
+                  }
+                />
+                {error("name") && (
+                  <p className="text-xs text-destructive">{error("name")}</p>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label>Clave de operación</Label>
+                <Select
+                  value={counterparty.key in keys ? counterparty.key : ""}
+                  onValueChange={(key) => updateCounterparty(index, { key })}
+                >
+                  <SelectTrigger aria-invalid={!!error("key")}>
+                    <SelectValue placeholder="Elige una clave" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(keys).map(([key, label]) => (
+                      <SelectItem key={key} value={key}>
+                        {key} - {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {error("key") && (
+                  <p className="text-xs text-destructive">{error("key")}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {quarters.map((quarter) => (
+                <div key={quarter} className="space-y-1">
+                  <Label>Importe {quarter}T (€)</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={counterparty.amounts[quarter] ?? ""}
+                    onChange={(e) =>
+                      updateCounterparty(index, {
+                        amounts: {
+                          ...counterparty.amounts,
+                          [quarter]: e.target.value,
+                        },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-destructive">{error("amounts")}</span>
+              <div className="flex items-center gap-2">
+                <span className="font-medium whitespace-nowrap">
+                  {formatCurrency(
+                    getCounterpartyTotal(counterparty, quarters).toFixed(2)
+                  )}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label="Eliminar"
+                  onClick={() => removeCounterparty(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange([...counterparties, createCounterparty(defaultKey)])
+          }
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Añadir fila
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInput.current?.click()}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Importar CSV
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.txt"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleImport(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { AlertTriangle, Check } from "lucide-react";
+
+import { SourcePreview } from "@/components/onboarding/extracted-field-review/ExtractedFieldReview";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { ExtractedData } from "@/lib/declaration/adapters";
+import { getDeclarationFieldLabel } from "@/lib/declaration/fields";
+import { taxYearKey } from "@/lib/extraction/mapper";
+import {
+  isSameValue,
+  pickConflictOption,
+  type FieldConflict,
+} from "@/lib/extraction/merge";
+import { cn } from "@/lib/utils";
+
+interface DocumentConflictsProps {
+  formType: string;
+  conflicts: FieldConflict[];
+  data: ExtractedData;
+  onChange: (data: ExtractedData) => void;
+}
+
+// Fields the uploaded documents disagree on, with the value of each document
+// side by side for the user to pick the right one
+export function DocumentConflicts({
+  formType,
+  conflicts,
+  data,
+  onChange,
+}: DocumentConflictsProps): React.ReactElement | null {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border border-amber-200 bg-amber-50/50">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 text-amber-500" />
+        <h4 className="text-sm font-medium text-amber-800">
+          Los documentos no coinciden
+        </h4>
+      </div>
+      <p className="text-sm text-amber-700">
+        Elige en cada campo el valor del documento correcto.
+      </p>
+
+      {conflicts.map(({ key, options }) => {
+        const current =
+          key === taxYearKey ? data.taxYear : data.fields[key];
+        return (
+          <div key={key} className="space-y-2">
+            <p className="text-sm font-medium">
+              {key === taxYearKey
+                ? "Periodo"
+                : getDeclarationFieldLabel(formType, key)}
+            </p>
+            <div
+              className="grid gap-2"
+              style={{
+                gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))`,
+              }}
+            >
+              {options.map((option, index) => {
+                const isChosen =
+                  !!current?.confirmed &&
+                  isSameValue(current.value, option.value);
+                return (
+                  <div
+                    key={index}
+                    className={cn(
+                      "p-3 rounded-md border bg-white space-y-2",
+                      isChosen && "border-green-300"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-muted-foreground truncate">
+                        {option.parts
+                          ? `${option.parts.length} importes`
+                          : `${option.source.file} · pág. ${option.source.page}`}
+                      </span>
+                      <Badge variant="outline">
+                        {Math.round(option.confidence * 100)}%
+                      </Badge>
+                    </div>
+                    <SourcePreview source={option.source} />
+                    <p className="font-medium">{option.value}</p>
+                    <Button
+                      size="sm"
+                      variant={isChosen ? "default" : "outline"}
+                      className="w-full"
+                      onClick={() =>
+                        onChange(pickConflictOption(data, key, option))
+                      }
+                    >
+                      {isChosen && <Check className="mr-1 h-4 w-4" />}
+                      Usar este valor
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
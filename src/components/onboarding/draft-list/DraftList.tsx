@@ -0,0 +1,69 @@
+import { FileClock, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import type { Draft } from "@/lib/declaration/drafts";
+import { getFormTitle } from "@/lib/declaration/forms";
+import { formatPeriod } from "@/lib/declaration/period";
+
+interface DraftListProps {
+  drafts: Draft[];
+  onResume: (draft: Draft) => void;
+  onDiscard: (draft: Draft) => void;
+}
+
+// Wizard steps a draft can be left at
+const stepLabels: Record<string, string> = {
+  "select-method": "Elección del método",
+  "fill-form": "Datos",
+  review: "Revisión",
+};
+
+// Declarations left half way on this device, to carry on with them
+export function DraftList({
+  drafts,
+  onResume,
+  onDiscard,
+}: DraftListProps): React.ReactElement | null {
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {drafts.map((draft) => (
+        <div
+          key={draft.id}
+          className="flex items-center justify-between gap-4 p-3 border rounded-lg bg-muted/30"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <FileClock className="h-5 w-5 shrink-0 text-primary" />
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {getFormTitle(draft.modelo)} · {formatPeriod(draft.period)}
+                {draft.nif && ` · ${draft.nif}`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {stepLabels[draft.step] ?? draft.step} · guardado el{" "}
+                {new Date(draft.updatedAt).toLocaleString("es-ES", {
+                  dateStyle: "short",
+                  timeStyle: "short",
+                })}
+              </p>
+            </div>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Descartar borrador"
+              onClick={() => onDiscard(draft)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <Button size="sm" onClick={() => onResume(draft)}>
+              Continuar borrador
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { Lock, ShieldCheck, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { changeDraftPassphrase, wipeDrafts } from "@/lib/declaration/drafts";
+import { clearDeclarationHistory } from "@/lib/declaration/history";
+import { hasPassphrase, isLocked, lock } from "@/lib/declaration/vault";
+import { toast } from "sonner";
+
+interface DraftSecurityProps {
+  // The drafts were sealed again, locked or removed
+  onChange: () => void;
+  // Before locking, so that the declaration being filled in is kept in its
+  // draft and taken off the screen
+  onLock: () => Promise<void>;
+  // After removing everything, so that nothing is left in memory either
+  onWipe: () => void;
+}
+
+const minimumLength = 8;
+
+// Passphrase the drafts on this device are encrypted with, and the way to
+// leave nothing behind on a shared computer
+export function DraftSecurity({
+  onChange,
+  onLock,
+  onWipe,
+}: DraftSecurityProps): React.ReactElement {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isConfirmingWipe, setIsConfirmingWipe] = useState(false);
+  const isEncrypted = hasPassphrase();
+
+  const error =
+    next && next.length < minimumLength
+      ? `Use at least ${minimumLength} characters`
+      : confirmation && confirmation !== next
+      ? "The passphrases don't match"
+      : null;
+  const canChange =
+    !isSaving &&
+    !error &&
+    !!next &&
+    next === confirmation &&
+    (!isEncrypted || !!current);
+
+  const handleChangePassphrase = async () => {
+    setIsSaving(true);
+    try {
+      const isChanged = await changeDraftPassphrase(current, next);
+      if (!isChanged) {
+        toast.error("The current passphrase is not correct");
+        return;
+      }
+      setCurrent("");
+      setNext("");
+      setConfirmation("");
+      onChange();
+      toast.success(
+        isEncrypted ? "Passphrase changed" : "Drafts are now encrypted",
+        { description: "You'll need the passphrase to open them next time." }
+      );
+    } catch {
+      toast.error("Could not encrypt the drafts");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLock = async () => {
+    await onLock();
+    lock();
+    onChange();
+    toast.success("Drafts locked");
+  };
+
+  const handleWipe = async () => {
+    try {
+      await wipeDrafts();
+      clearDeclarationHistory();
+      setIsConfirmingWipe(false);
+      onWipe();
+      onChange();
+      toast.success("All data on this device has been deleted");
+    } catch {
+      toast.error("Could not delete the data on this device");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Separator />
+
+      <div className="space-y-1">
+        <h3 className="font-medium flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Draft encryption
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          {isEncrypted
+            ? "Drafts on this device are encrypted with your passphrase. It is never stored, so it can't be recovered if you forget it."
+            : "Drafts are stored on this device without encryption. Set a passphrase to encrypt them."}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Only drafts are encrypted. Confirmed declarations in History stay
+          readable by anyone using this browser, so delete them below when
+          leaving a shared computer.
+        </p>
+      </div>
+
+      {/* A form of its own, so that Enter changes the passphrase */}
+      <form
+        className="space-y-6"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (canChange) void handleChangePassphrase();
+        }}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {isEncrypted && (
+            <div className="space-y-2">
+              <Label htmlFor="current-passphrase">Current Passphrase</Label>
+              <Input
+                id="current-passphrase"
+                type="password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="new-passphrase">New Passphrase</Label>
+            <Input
+              id="new-passphrase"
+              type="password"
+              value={next}
+              onChange={(e) => setNext(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-passphrase">Confirm Passphrase</Label>
+            <Input
+              id="confirm-passphrase"
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          </div>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="submit" disabled={!canChange}>
+            {isEncrypted ? "Change Passphrase" : "Encrypt Drafts"}
+          </Button>
+          {isEncrypted && !isLocked() && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => void handleLock()}
+            >
+              <Lock className="mr-2 h-4 w-4" />
+              Lock Now
+            </Button>
+          )}
+        </div>
+      </form>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <h3 className="font-medium">Data on this device</h3>
+          <p className="text-sm text-muted-foreground">
+            Delete every draft, the filing history and the passphrase from this
+            browser, for instance before leaving a shared computer.
+          </p>
+        </div>
+        {isConfirmingWipe ? (
+          <Alert variant="destructive">
+            <Trash2 className="h-4 w-4" />
+            <AlertTitle>Delete everything?</AlertTitle>
+            <AlertDescription>
+              <p>Drafts and filings stored here can't be recovered.</p>
+              <div className="mt-3 flex gap-2">
+                <Button
+                  type="button"
+                  variant="destructive"
+                  onClick={() => void handleWipe()}
+                >
+                  Delete All
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsConfirmingWipe(false)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            className="text-destructive"
+            onClick={() => setIsConfirmingWipe(true)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete All Local Data
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { Lock } from "lucide-react";
+import { useState } from "react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { unlock } from "@/lib/declaration/vault";
+
+interface DraftUnlockProps {
+  onUnlock: () => void;
+}
+
+// Drafts sealed with a passphrase stay locked at the start of every session
+// until it is entered
+export function DraftUnlock({ onUnlock }: DraftUnlockProps): React.ReactElement {
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    const isUnlocked = await unlock(passphrase);
+    setIsUnlocking(false);
+    if (!isUnlocked) {
+      setError("La frase de contraseña no es correcta.");
+      return;
+    }
+    setPassphrase("");
+    setError(null);
+    onUnlock();
+  };
+
+  return (
+    <Alert className="mb-6">
+      <Lock className="h-4 w-4" />
+      <AlertTitle>Tus borradores están cifrados</AlertTitle>
+      <AlertDescription>
+        <p>
+          Introduce tu frase de contraseña para continuarlos. Mientras estén
+          bloqueados no se guardará el progreso.
+        </p>
+        <form
+          onSubmit={(e) => void handleUnlock(e)}
+          className="mt-3 flex flex-col sm:flex-row gap-2"
+        >
+          <Input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Frase de contraseña"
+            aria-label="Frase de contraseña"
+            className="sm:max-w-xs"
+          />
+          <Button type="submit" disabled={!passphrase || isUnlocking}>
+            {isUnlocking ? "Desbloqueando..." : "Desbloquear"}
+          </Button>
+        </form>
+        {error && <p className="mt-2 text-sm text-destructive">{error}</p>}
+      </AlertDescription>
+    </Alert>
+  );
+}
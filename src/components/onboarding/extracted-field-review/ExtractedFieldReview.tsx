@@ -0,0 +1,163 @@
+import { Check } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type {
+  ExtractedData,
+  ExtractedField,
+  FieldSource,
+} from "@/lib/declaration/adapters";
+import { getDeclarationFieldLabel } from "@/lib/declaration/fields";
+import { getSectionTitle } from "@/lib/declaration/forms";
+import {
+  confidenceThreshold,
+  needsReview,
+  setExtractedField,
+  taxYearKey,
+} from "@/lib/extraction/mapper";
+import { cn } from "@/lib/utils";
+
+interface ExtractedFieldReviewProps {
+  formType: string;
+  data: ExtractedData;
+  onChange: (data: ExtractedData) => void;
+}
+
+// Sections of the extracted values, in the order they are shown
+const sections = ["personal", "income", "deductions", "result"] as const;
+
+// Region of the document a value was read from, or its text when the page
+// couldn't be rendered
+export function SourcePreview({
+  source,
+}: {
+  source: FieldSource;
+}): React.ReactElement {
+  return source.crop ? (
+    <img
+      src={source.crop}
+      alt={source.snippet}
+      className="max-h-12 max-w-full rounded border bg-white"
+    />
+  ) : (
+    <p className="text-xs font-mono text-muted-foreground truncate">
+      {source.snippet}
+    </p>
+  );
+}
+
+// Every extracted value next to where it was read from, to accept it or
+// correct it. Values the extraction is unsure of wait for the user
+export function ExtractedFieldReview({
+  formType,
+  data,
+  onChange,
+}: ExtractedFieldReviewProps): React.ReactElement {
+  const update = (
+    key: string,
+    field: ExtractedField,
+    changes: Partial<ExtractedField>
+  ) => onChange(setExtractedField(data, key, { ...field, ...changes }));
+
+  const renderField = (key: string, label: string, field: ExtractedField) => {
+    // Amounts added up from several places show each of them
+    const sources = field.parts?.map(({ source }) => source) ?? [
+      field.source,
+    ];
+    const isPending = needsReview(field);
+    return (
+      <div
+        key={key}
+        className={cn(
+          "p-3 rounded-md border space-y-2",
+          isPending
+            ? "border-amber-300 bg-amber-50"
+            : field.confirmed
+            ? "border-green-200 bg-green-50/50"
+            : "border-transparent bg-muted/30"
+        )}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor={`extracted-${key}`} className="text-xs">
+            {label}
+          </Label>
+          <Badge
+            variant="outline"
+            className={cn(
+              field.confidence < confidenceThreshold &&
+                "border-amber-300 text-amber-700"
+            )}
+          >
+            {Math.round(field.confidence * 100)}%
+          </Badge>
+        </div>
+
+        {sources.map((source, index) => (
+          <div key={index} className="space-y-1">
+            <SourcePreview source={source} />
+            <p className="text-xs text-muted-foreground truncate">
+              {source.file} · pág. {source.page}
+            </p>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2">
+          <Input
+            id={`extracted-${key}`}
+            value={field.value}
+            onChange={(e) =>
+              update(key, field, { value: e.target.value, confirmed: true })
+            }
+            className="h-8"
+          />
+          {isPending ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => update(key, field, { confirmed: true })}
+            >
+              <Check className="mr-1 h-4 w-4" />
+              Aceptar
+            </Button>
+          ) : (
+            field.confirmed && (
+              <Check className="h-4 w-4 shrink-0 text-green-600" />
+            )
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {data.taxYear && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {renderField(taxYearKey, "Periodo", data.taxYear)}
+        </div>
+      )}
+
+      {sections.map((section) => {
+        const fields = Object.entries(data.fields).filter(([key]) =>
+          key.startsWith(`${section}.`)
+        );
+        if (fields.length === 0) return null;
+
+        return (
+          <div key={section}>
+            <h4 className="text-sm font-medium text-muted-foreground mb-2">
+              {getSectionTitle(formType, section)}
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {fields.map(([key, field]) =>
+                renderField(key, getDeclarationFieldLabel(formType, key), field)
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { Plus, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type {
+  ForeignAsset,
+  ForeignAssetBlock,
+  Modelo720Deductions,
+} from "@/lib/declaration/types";
+import { toAmount } from "@/lib/tax/amounts";
+import {
+  foreignAssetBlocks,
+  getForeignAssetTotals,
+  mustDeclareBlock,
+} from "@/lib/tax/modelo720";
+import { formatCurrency } from "@/lib/utils";
+
+interface ForeignAssetInventoryProps {
+  assets: ForeignAsset[];
+  onChange: (assets: ForeignAsset[]) => void;
+  // Block totals of the last 720 filed, to flag the ones that grew enough
+  previous?: Partial<Modelo720Deductions>;
+  // Validation messages keyed as "foreignAssets.<index>.<field>"
+  errors?: Record<string, string>;
+}
+
+const createAsset = (block: ForeignAssetBlock): ForeignAsset => ({
+  id: crypto.randomUUID(),
+  block,
+  country: "",
+  entity: "",
+  identifier: "",
+  value: "",
+});
+
+// Accounts, securities and properties abroad of the Modelo 720, grouped in
+// the blocks whose totals decide what has to be declared
+export function ForeignAssetInventory({
+  assets,
+  onChange,
+  previous = {},
+  errors = {},
+}: ForeignAssetInventoryProps): React.ReactElement {
+  const totals = getForeignAssetTotals(assets);
+
+  const updateAsset = (index: number, changes: Partial<ForeignAsset>) =>
+    onChange(
+      assets.map((asset, i) => (i === index ? { ...asset, ...changes } : asset))
+    );
+
+  const removeAsset = (index: number) =>
+    onChange(assets.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-6">
+      {Object.entries(foreignAssetBlocks).map(([id, definition]) => {
+        const block = id as ForeignAssetBlock;
+        const declared = mustDeclareBlock(
+          totals[block],
+          toAmount(previous[definition.previous])
+        );
+
+        return (
+          <div key={block} className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="font-medium">{definition.label}</h4>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">
+                  {formatCurrency(totals[block].toFixed(2))}
+                </span>
+                <Badge variant={declared ? "default" : "outline"}>
+                  {declared ? "Hay que declararlo" : "No obligatorio"}
+                </Badge>
+              </div>
+            </div>
+
+            {assets.map((asset, index) => {
+              if (asset.block !== block) return null;
+              const error = (field: string) =>
+                errors[`foreignAssets.${index}.${field}`];
+
+              return (
+                <div
+                  key={asset.id}
+                  className="p-4 border rounded-lg grid grid-cols-1 md:grid-cols-[6rem_1fr_1fr_10rem_auto] gap-3 items-start"
+                >
+                  <div className="space-y-1">
+                    <Label>País</Label>
+                    <Input
+                      value={asset.country}
+                      maxLength={2}
+                      placeholder="FR"
+                      aria-invalid={!!error("country")}
+                      onChange={(e) =>
+                        updateAsset(index, {
+                          country: e.target.value.toUpperCase(),
+                        })
+                      }
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label>{definition.entityLabel}</Label>
+                    <Input
+                      value={asset.entity}
+                      aria-invalid={!!error("entity")}
+                      onChange={(e) =>
+                        updateAsset(index, { entity: e.target.value })
+                      }
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label>{definition.identifierLabel}</Label>
+                    <Input
+                      value={asset.identifier}
+                      onChange={(e) =>
+                        updateAsset(index, { identifier: e.target.value })
+                      }
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label>{definition.valueLabel} (€)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0.00"
+                      value={asset.value}
+                      aria-invalid={!!error("value")}
+                      onChange={(e) =>
+                        updateAsset(index, { value: e.target.value })
+                      }
+                    />
+                  </div>
+
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 md:mt-6"
+                    aria-label="Eliminar"
+                    onClick={() => removeAsset(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+
+                  {["country", "entity", "value"].map(
+                    (field) =>
+                      error(field) && (
+                        <p
+                          key={field}
+                          className="text-xs text-destructive md:col-span-5"
+                        >
+                          {error(field)}
+                        </p>
+                      )
+                  )}
+                </div>
+              );
+            })}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange([...assets, createAsset(block)])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Añadir a {definition.label.toLowerCase()}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
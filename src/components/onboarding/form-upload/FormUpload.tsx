@@ -7,10 +7,13 @@ import {
   Upload,
   X,
 } from "lucide-react";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useDropzone } from "react-dropzone";
 
+import { DocumentConflicts } from "@/components/onboarding/document-conflicts/DocumentConflicts";
+import { ExtractedFieldReview } from "@/components/onboarding/extracted-field-review/ExtractedFieldReview";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -27,184 +30,146 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { cn } from "@/lib/utils";
+import {
+  fromExtractedData,
+  type ExtractedData,
+} from "@/lib/declaration/adapters";
+import { getFieldLabel, isCountField } from "@/lib/declaration/fields";
+import {
+  getFormFields,
+  getFormTitle,
+  getSectionTitle,
+} from "@/lib/declaration/forms";
+import { saveDeclaration } from "@/lib/declaration/history";
+import { formatPeriod } from "@/lib/declaration/period";
+import {
+  parsePresentationFile,
+  type PresentationImport,
+} from "@/lib/declaration/presentation";
+import { toModeloId, type Declaration } from "@/lib/declaration/types";
+import { addSourceCrops } from "@/lib/extraction/crops";
+import {
+  classifyDocument,
+  documentTypes,
+  extractDocument,
+  type DocumentExtraction,
+} from "@/lib/extraction/documents";
+import { countPendingReview } from "@/lib/extraction/mapper";
+import { mergeExtractions, type FieldConflict } from "@/lib/extraction/merge";
+import { readImageText } from "@/lib/extraction/ocr";
+import { readPdfText } from "@/lib/extraction/pdf";
+import { cn, formatCurrency } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface FormUploadProps {
-  onComplete: () => void;
+  onComplete: (declaration: Declaration) => void;
   onCancel: () => void;
   formType: string;
 }
 
-type FileWithPreview = File & {
-  preview?: string;
-};
-
-type UploadStatus = "idle" | "uploading" | "processing" | "success" | "error";
-
-interface ExtractedData {
-  personalInfo: {
-    name: string;
-    nif: string;
-    address: string;
-    postalCode?: string;
-    city?: string;
-    province?: string;
-    phone?: string;
-    email?: string;
-  };
-  income: {
-    totalSalary: string;
-    financialIncome: string;
-    capitalGains: string;
-    rentalIncome?: string;
-    businessIncome?: string;
-  };
-  deductions: {
-    socialSecurity: string;
-    pensionContributions: string;
-    totalDeductions: string;
-    mortgageInterest?: string;
-    donations?: string;
-  };
-  result: {
-    taxDue: string;
-    refund?: string;
-  };
-  metadata?: {
-    taxYear: string;
-    filingDate?: string;
-    referenceNumber?: string;
-  };
+type UploadStatus = "idle" | "processing" | "success" | "error";
+
+type DocumentStatus = "idle" | "processing" | "done" | "error";
+
+// One file of the batch and what was read from it
+interface UploadedDocument {
+  id: string;
+  file: File;
+  status: DocumentStatus;
+  error?: string;
+  extraction?: DocumentExtraction;
 }
 
-// Form-specific extracted data examples
-const modeloSpecificData: Record<string, Partial<ExtractedData>> = {
-  modelo100: {
-    metadata: {
-      taxYear: "2023",
-      filingDate: "15/04/2024",
-      referenceNumber: "100-2023-78954621",
-    },
-  },
-  modelo303: {
-    income: {
-      totalSalary: "0.00",
-      financialIncome: "0.00",
-      capitalGains: "0.00",
-      businessIncome: "35689.45",
-    },
-    result: {
-      taxDue: "7494.78",
-      refund: "0.00",
-    },
-    metadata: {
-      taxYear: "2023 - 4T",
-      filingDate: "20/01/2024",
-      referenceNumber: "303-4T-2023-65412398",
-    },
-  },
-  modelo130: {
-    income: {
-      totalSalary: "0.00",
-      financialIncome: "0.00",
-      capitalGains: "0.00",
-      businessIncome: "12500.00",
-    },
-    result: {
-      taxDue: "2500.00",
-      refund: "0.00",
-    },
-    metadata: {
-      taxYear: "2023 - 1T",
-      filingDate: "12/04/2024",
-      referenceNumber: "130-1T-2023-32145698",
-    },
-  },
-  modelo714: {
-    personalInfo: {
-      name: "Juan García López",
-      nif: "12345678A",
-      address: "Calle Mayor 1, 28001 Madrid",
-    },
-    result: {
-      taxDue: "18452.36",
-      refund: "0.00",
-    },
-    metadata: {
-      taxYear: "2023",
-      filingDate: "28/05/2024",
-      referenceNumber: "714-2023-45612378",
-    },
-  },
-};
+// Ficheros de presentación, as the AEAT programs and gestorías export them
+const presentationExtensions = [".txt", ".303", ".130", ".111", ".115"];
+
+const isPresentationFile = (file: File) =>
+  presentationExtensions.some((extension) =>
+    file.name.toLowerCase().endsWith(extension)
+  );
 
 export function FormUpload({
   onComplete,
   onCancel,
   formType,
 }: FormUploadProps): React.ReactElement {
-  const [file, setFile] = useState<FileWithPreview | null>(null);
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
   const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [uploadStatus, setUploadStatus] = useState<UploadStatus>("idle");
   const [extractedData, setExtractedData] = useState<ExtractedData | null>(
     null
   );
-  const [retryCount, setRetryCount] = useState<number>(0);
+  // Fields the documents of the batch disagree on
+  const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
   const [processingError, setProcessingError] = useState<string | null>(null);
+  // Declaration read from a fichero de presentación, with its field errors
+  const [imported, setImported] = useState<PresentationImport | null>(null);
+
+  // A fichero de presentación is imported on its own, never in a batch
+  const presentationFile =
+    documents.length === 1 && isPresentationFile(documents[0].file)
+      ? documents[0].file
+      : null;
+
+  // Only a single document is previewed
+  const previewFile = documents.length === 1 ? documents[0].file : null;
+  const preview = useMemo(
+    () => previewFile && URL.createObjectURL(previewFile),
+    [previewFile]
+  );
 
-  // Generate appropriate form title based on form type
-  const getFormTitle = () => {
-    switch (formType) {
-      case "modelo100":
-        return "Modelo 100 (IRPF)";
-      case "modelo303":
-        return "Modelo 303 (IVA)";
-      case "modelo130":
-        return "Modelo 130 (Pago Fraccionado)";
-      case "modelo714":
-        return "Modelo 714 (Patrimonio)";
-      default:
-        return formType;
-    }
-  };
-
-  // Clear file preview when component unmounts
+  // Clear file preview when it changes or the component unmounts
   useEffect(() => {
     return () => {
-      if (file?.preview) {
-        URL.revokeObjectURL(file.preview);
+      if (preview) {
+        URL.revokeObjectURL(preview);
       }
     };
-  }, [file]);
+  }, [preview]);
+
+  const resetResults = () => {
+    setUploadStatus("idle");
+    setUploadProgress(0);
+    setExtractedData(null);
+    setConflicts([]);
+    setImported(null);
+    setProcessingError(null);
+  };
 
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
-      if (acceptedFiles?.length) {
-        const selectedFile = acceptedFiles[0];
-
-        // Revoke previous preview URL if it exists
-        if (file?.preview) {
-          URL.revokeObjectURL(file.preview);
-        }
-
-        // Create preview for PDFs and images
-        const fileWithPreview = Object.assign(selectedFile, {
-          preview: URL.createObjectURL(selectedFile),
-        });
+      if (!acceptedFiles?.length) return;
 
-        setFile(fileWithPreview);
-        setUploadStatus("idle");
-        setUploadProgress(0);
-        setExtractedData(null);
-        setProcessingError(null);
-
-        toast.success("Archivo añadido", {
-          description: `${selectedFile.name} seleccionado para subir.`,
+      const files = [...documents.map(({ file }) => file), ...acceptedFiles];
+      if (files.length > 1 && files.some(isPresentationFile)) {
+        toast.error("Importa el fichero de presentación por separado", {
+          description:
+            "Un fichero de presentación ya contiene la declaración completa y no se combina con otros documentos.",
         });
+        return;
       }
+
+      setDocuments([
+        ...documents,
+        ...acceptedFiles.map((file) => ({
+          id: `${file.name}-${file.size}-${file.lastModified}-${Math.random()}`,
+          file,
+          status: "idle" as const,
+        })),
+      ]);
+      resetResults();
+
+      toast.success(
+        acceptedFiles.length === 1 ? "Archivo añadido" : "Archivos añadidos",
+        {
+          description:
+            acceptedFiles.length === 1
+              ? `${acceptedFiles[0].name} seleccionado para subir.`
+              : `${acceptedFiles.length} archivos seleccionados para subir.`,
+        }
+      );
     },
-    [file]
+    [documents]
   );
 
   const {
@@ -215,123 +180,215 @@ export function FormUpload({
     isDragReject,
   } = useDropzone({
     onDrop,
-    maxFiles: 1,
     accept: {
       "application/pdf": [".pdf"],
       "image/jpeg": [".jpg", ".jpeg"],
       "image/png": [".png"],
+      "text/plain": presentationExtensions,
     },
   });
 
-  const handleUpload = () => {
-    if (!file) return;
-
-    setUploadStatus("uploading");
-    setUploadProgress(0);
+  // Presentation files are read as they are, without any extraction: every
+  // casilla comes back exactly as it was filed
+  const handlePresentationFile = async (selected: File) => {
+    setUploadStatus("processing");
     setProcessingError(null);
 
-    // Simulate file upload progress
-    const uploadInterval = setInterval(() => {
-      setUploadProgress((prev) => {
-        if (prev >= 100) {
-          clearInterval(uploadInterval);
-          return 100;
-        }
-        return prev + 5;
+    // The AEAT designs are in ISO-8859-1
+    const text = new TextDecoder("iso-8859-1").decode(
+      await selected.arrayBuffer()
+    );
+    const result = parsePresentationFile(text);
+    const modelo = toModeloId(formType);
+    const fileError =
+      result.errors.file ??
+      (result.declaration && result.declaration.modelo !== modelo
+        ? `El fichero es de un ${getFormTitle(
+            result.declaration.modelo
+          )} y estás rellenando el ${getFormTitle(modelo)}`
+        : null);
+
+    if (fileError || !result.declaration) {
+      setUploadStatus("error");
+      setProcessingError(fileError);
+      toast.error("No se ha podido leer el fichero", {
+        description: fileError ?? undefined,
       });
-    }, 80);
-
-    // Simulate upload completion after 2 seconds
-    setTimeout(() => {
-      clearInterval(uploadInterval);
-      setUploadProgress(100);
-      setUploadStatus("processing");
-
-      // Simulate processing (OCR/data extraction) for 3 more seconds
-      setTimeout(() => {
-        // Simulated success/error (with 90% success rate, but higher fail rate after retries)
-        const successRate = retryCount === 0 ? 0.9 : 0.7;
-
-        if (Math.random() < successRate) {
-          // Get base mock data
-          const baseMockData: ExtractedData = {
-            personalInfo: {
-              name: "Juan García López",
-              nif: "12345678A",
-              address: "Calle Mayor 1, 28001 Madrid",
-              postalCode: "28001",
-              city: "Madrid",
-              province: "Madrid",
-              phone: "600123456",
-              email: "juan.garcia@example.com",
-            },
-            income: {
-              totalSalary: "42000.00",
-              financialIncome: "1500.00",
-              capitalGains: "0.00",
-              rentalIncome: "0.00",
-              businessIncome: "0.00",
-            },
-            deductions: {
-              socialSecurity: "2688.00",
-              pensionContributions: "3000.00",
-              totalDeductions: "5688.00",
-              mortgageInterest: "1200.00",
-              donations: "500.00",
-            },
-            result: {
-              taxDue: "8750.00",
-              refund: "0.00",
-            },
-            metadata: {
-              taxYear: "2023",
-              filingDate: "15/04/2024",
-              referenceNumber: "100-2023-78954621",
-            },
-          };
-
-          // Merge with form-specific data if available
-          const formTypeKey = formType.toLowerCase();
-          const specificData = modeloSpecificData[formTypeKey];
-
-          const mergedData = specificData
-            ? mergeDeep(
-                baseMockData as unknown as Record<string, unknown>,
-                specificData as unknown as Record<string, unknown>
-              )
-            : baseMockData;
-
-          setExtractedData(mergedData as ExtractedData);
-          setUploadStatus("success");
-
-          toast.success("Formulario procesado correctamente", {
-            description: "Hemos extraído los datos de tu documento.",
-          });
-        } else {
-          setUploadStatus("error");
-          setProcessingError(
-            "No se ha podido extraer la información del documento. Puede que el formato no sea compatible o que la calidad de la imagen no sea suficiente."
-          );
-
-          toast.error("Error al procesar el documento", {
-            description:
-              "No se ha podido extraer la información. Intenta de nuevo o usa otro método.",
-          });
-        }
-      }, 3000);
-    }, 2000);
+      return;
+    }
+
+    setImported(result);
+    setUploadStatus("success");
+    const errorCount = Object.keys(result.errors).length;
+    if (errorCount > 0) {
+      toast.warning(`Fichero importado con ${errorCount} error(es)`, {
+        description: "Revisa los campos marcados antes de continuar.",
+      });
+    } else {
+      toast.success("Fichero importado", {
+        description: `${getFormTitle(modelo)} ${formatPeriod(
+          result.declaration.period
+        )}`,
+      });
+    }
   };
 
-  const handleRemoveFile = () => {
-    if (file?.preview) {
-      URL.revokeObjectURL(file.preview);
+  // PDFs generated by the AEAT programs are read from their text layer and
+  // scans or photos through the OCR, both in the browser. Scanned PDFs have
+  // no text layer to read
+  const readDocument = async (
+    selected: File,
+    onProgress: (fraction: number) => void
+  ): Promise<Pick<UploadedDocument, "error" | "extraction">> => {
+    const isPdf = selected.type === "application/pdf";
+    try {
+      const pages = isPdf
+        ? await readPdfText(selected, (page, pageCount) =>
+            onProgress(page / pageCount)
+          )
+        : await readImageText(selected, onProgress);
+      if (pages.every((page) => page.fragments.length === 0)) {
+        return {
+          error: isPdf
+            ? "El PDF no contiene texto, probablemente porque es un documento escaneado. Sube el PDF original descargado de la Sede Electrónica, una foto del formulario o usa otro método."
+            : "No hemos reconocido texto en la imagen. Prueba con una foto más nítida, de frente y con buena luz, o usa otro método.",
+        };
+      }
+
+      const type = classifyDocument(pages);
+      if (!type) {
+        return {
+          error:
+            "No reconocemos el documento. Sube el formulario del modelo, certificados de retenciones, bancarios o de donativos o recibos del IBI.",
+        };
+      }
+      const extraction = extractDocument(
+        toModeloId(formType),
+        type,
+        pages,
+        selected.name
+      );
+      if (
+        Object.keys(extraction.data.fields).length === 0 &&
+        extraction.notes.length === 0
+      ) {
+        return {
+          error:
+            type === "form"
+              ? `No hemos encontrado las casillas del ${getFormTitle(
+                  formType
+                )} en el documento. Comprueba que es el modelo correcto o usa otro método.`
+              : `No hemos encontrado importes en el ${documentTypes[
+                  type
+                ].label.toLowerCase()}.`,
+        };
+      }
+      return {
+        extraction: {
+          ...extraction,
+          data: addSourceCrops(extraction.data, pages),
+        },
+      };
+    } catch {
+      return {
+        error: isPdf
+          ? "No se ha podido abrir el PDF. Puede que esté dañado o protegido con contraseña."
+          : "No se ha podido leer la imagen. Prueba con otro archivo JPG o PNG.",
+      };
     }
-    setFile(null);
-    setUploadStatus("idle");
+  };
+
+  // Documents are read one after the other, keeping what was already read
+  // from earlier runs, and their values merged into one declaration
+  const handleDocuments = async () => {
+    setUploadStatus("processing");
     setUploadProgress(0);
-    setExtractedData(null);
     setProcessingError(null);
 
+    const results = [...documents];
+    for (const [index, entry] of results.entries()) {
+      if (entry.status === "done") continue;
+
+      const update = (changes: Partial<UploadedDocument>) => {
+        results[index] = { ...results[index], ...changes };
+        setDocuments([...results]);
+      };
+      update({ status: "processing", error: undefined });
+      const outcome = await readDocument(entry.file, (fraction) =>
+        setUploadProgress(
+          Math.round(((index + fraction) / results.length) * 100)
+        )
+      );
+      update({ ...outcome, status: outcome.error ? "error" : "done" });
+    }
+    setUploadProgress(100);
+
+    const read = results.filter(
+      (entry): entry is UploadedDocument & {
+        extraction: DocumentExtraction;
+      } => !!entry.extraction
+    );
+    if (read.length === 0) {
+      const message =
+        results.length === 1
+          ? results[0].error ?? null
+          : "No se ha podido extraer datos de ninguno de los documentos.";
+      setUploadStatus("error");
+      setProcessingError(message);
+      toast.error("Error al procesar el documento", {
+        description: message ?? undefined,
+      });
+      return;
+    }
+
+    const merged = mergeExtractions(
+      read.map(({ extraction }) => ({
+        data: extraction.data,
+        isAdditive: documentTypes[extraction.type].isAdditive,
+      }))
+    );
+    setExtractedData(merged.data);
+    setConflicts(merged.conflicts);
+    setUploadStatus("success");
+
+    const failed = results.length - read.length;
+    const doubtful = countPendingReview(merged.data);
+    toast.success(
+      read.length === 1 ? "Documento procesado" : "Documentos procesados",
+      {
+        description:
+          failed > 0
+            ? `${failed} documento(s) no se han podido leer.`
+            : doubtful > 0
+            ? `Revisa los ${doubtful} campo(s) marcados antes de continuar.`
+            : "Hemos extraído los datos de tus documentos.",
+      }
+    );
+  };
+
+  const handleUpload = () => {
+    if (documents.length === 0) return;
+    if (presentationFile) {
+      void handlePresentationFile(presentationFile);
+      return;
+    }
+    void handleDocuments();
+  };
+
+  const handleRemoveDocument = (id: string) => {
+    const remaining = documents.filter((entry) => entry.id !== id);
+    if (remaining.length === 0) {
+      handleRemoveAll();
+      return;
+    }
+    setDocuments(remaining);
+    resetResults();
+  };
+
+  const handleRemoveAll = () => {
+    setDocuments([]);
+    resetResults();
+
     // Reset any progress that might have been tracked by parent component
     if (onCancel) {
       // We call onCancel and then immediately call it again to ensure the parent
@@ -340,46 +397,30 @@ export function FormUpload({
     }
   };
 
-  const handleRetry = () => {
-    setRetryCount((prev) => prev + 1);
-    handleUpload();
-  };
+  // Values the extraction is unsure of have to be accepted or corrected first
+  const pendingReview = extractedData ? countPendingReview(extractedData) : 0;
 
-  // Helper function to deep merge objects
-  function mergeDeep(
-    target: Record<string, unknown>,
-    source: Record<string, unknown>
-  ) {
-    const output = { ...target };
-
-    if (isObject(target) && isObject(source)) {
-      Object.keys(source).forEach((key) => {
-        if (isObject(source[key])) {
-          if (!(key in target)) {
-            Object.assign(output, { [key]: source[key] });
-          } else {
-            output[key] = mergeDeep(
-              target[key] as Record<string, unknown>,
-              source[key] as Record<string, unknown>
-            );
-          }
-        } else {
-          Object.assign(output, { [key]: source[key] });
-        }
-      });
+  const handleContinue = () => {
+    if (imported?.declaration) {
+      onComplete(imported.declaration);
+      return;
     }
-    return output;
-  }
+    if (!extractedData || pendingReview > 0) return;
+    onComplete(fromExtractedData(formType, extractedData));
+  };
 
-  // Helper to check if value is an object
-  function isObject(item: unknown): item is Record<string, unknown> {
-    return item !== null && typeof item === "object" && !Array.isArray(item);
-  }
+  // An earlier period kept in the history fills the following ones
+  const handleSaveImported = () => {
+    if (!imported?.declaration) return;
+    saveDeclaration(imported.declaration);
+    toast.success("Declaración guardada en el historial", {
+      description:
+        "Se usará para completar los periodos siguientes de este modelo.",
+    });
+  };
 
   // Determine the appropriate file icon based on file type
-  const getFileIcon = () => {
-    if (!file) return <File className="h-8 w-8 text-primary" />;
-
+  const getFileIcon = (file: File) => {
     if (file.type === "application/pdf") {
       return <File className="h-8 w-8 text-primary" />;
     }
@@ -394,11 +435,11 @@ export function FormUpload({
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle>Subir Formulario {getFormTitle()}</CardTitle>
+        <CardTitle>Subir Formulario {getFormTitle(formType)}</CardTitle>
       </CardHeader>
 
       <CardContent className="space-y-6">
-        {!file ? (
+        {documents.length === 0 ? (
           <div
             {...getRootProps()}
             className={cn(
@@ -416,60 +457,111 @@ export function FormUpload({
               {isDragActive
                 ? isDragReject
                   ? "Tipo de archivo no soportado"
-                  : "Suelta el archivo aquí"
-                : "Arrastra y suelta tu archivo aquí"}
+                  : "Suelta los archivos aquí"
+                : "Arrastra y suelta tus archivos aquí"}
             </p>
             <p className="text-sm text-muted-foreground mt-2">
               o haz clic para buscar archivos
             </p>
             <p className="text-xs text-muted-foreground mt-4">
-              Formatos soportados: PDF, JPG, PNG
+              Formatos soportados: PDF, JPG, PNG y ficheros de presentación de
+              la AEAT (.txt, .303, .130, .111, .115)
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Puedes subir junto al formulario certificados de retenciones,
+              bancarios o de donativos y recibos del IBI
             </p>
           </div>
         ) : (
           <div className="space-y-8">
-            <div className="flex items-center justify-between p-4 border rounded-lg bg-muted/30">
-              <div className="flex items-center">
-                <div className="bg-primary/10 p-2 rounded-lg mr-4">
-                  {getFileIcon()}
+            <div className="space-y-2">
+              {documents.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center justify-between p-4 border rounded-lg bg-muted/30"
+                >
+                  <div className="flex items-center min-w-0">
+                    <div className="bg-primary/10 p-2 rounded-lg mr-4">
+                      {getFileIcon(entry.file)}
+                    </div>
+                    <div className="min-w-0 space-y-1">
+                      <p className="font-medium truncate">
+                        {entry.file.name}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                        <span>
+                          {(entry.file.size / 1024 / 1024).toFixed(2)} MB
+                        </span>
+                        {entry.extraction && (
+                          <Badge variant="secondary">
+                            {documentTypes[entry.extraction.type].label}
+                          </Badge>
+                        )}
+                        {entry.status === "processing" && (
+                          <span>Procesando...</span>
+                        )}
+                      </div>
+                      {entry.error && documents.length > 1 && (
+                        <p className="text-sm text-destructive">
+                          {entry.error}
+                        </p>
+                      )}
+                      {entry.extraction?.notes.map((note) => (
+                        <p key={note} className="text-xs text-muted-foreground">
+                          {note}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemoveDocument(entry.id)}
+                          disabled={uploadStatus === "processing"}
+                        >
+                          <X className="h-5 w-5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>Eliminar archivo</TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
                 </div>
-                <div>
-                  <p className="font-medium">{file.name}</p>
-                  <p className="text-sm text-muted-foreground">
-                    {(file.size / 1024 / 1024).toFixed(2)} MB
-                  </p>
+              ))}
+
+              {!presentationFile && uploadStatus !== "processing" && (
+                <div
+                  {...getRootProps()}
+                  className={cn(
+                    "border-2 border-dashed rounded-lg p-4 text-center text-sm text-muted-foreground cursor-pointer transition-colors",
+                    isDragActive
+                      ? "border-primary bg-primary/5"
+                      : "border-gray-300 hover:border-gray-400"
+                  )}
+                >
+                  <input {...getInputProps()} />
+                  Añade certificados de retenciones, bancarios o de donativos,
+                  recibos del IBI u otras páginas del formulario
                 </div>
-              </div>
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={handleRemoveFile}
-                    >
-                      <X className="h-5 w-5" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>Eliminar archivo</TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+              )}
             </div>
 
-            {file.type === "application/pdf" && (
+            {previewFile?.type === "application/pdf" && preview && (
               <div className="border rounded-lg overflow-hidden h-96 bg-muted/10">
                 <iframe
-                  src={file.preview}
+                  src={preview}
                   className="w-full h-full"
                   title="PDF Preview"
                 />
               </div>
             )}
 
-            {file.type.startsWith("image/") && (
+            {previewFile?.type.startsWith("image/") && preview && (
               <div className="border rounded-lg overflow-hidden bg-muted/10 flex justify-center">
                 <img
-                  src={file.preview}
+                  src={preview}
                   alt="Formulario subido"
                   className="max-h-96 object-contain"
                 />
@@ -478,17 +570,16 @@ export function FormUpload({
 
             {uploadStatus === "idle" && (
               <Button onClick={handleUpload} className="w-full">
-                Subir y Extraer Datos
+                {presentationFile ? "Importar Fichero" : "Extraer Datos"}
               </Button>
             )}
 
-            {(uploadStatus === "uploading" ||
-              uploadStatus === "processing") && (
+            {uploadStatus === "processing" && (
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
                   <p className="text-sm font-medium">
-                    {uploadStatus === "uploading"
-                      ? "Subiendo..."
+                    {documents.length > 1
+                      ? "Procesando documentos..."
                       : "Procesando documento..."}
                   </p>
                   <p className="text-sm text-muted-foreground">
@@ -497,9 +588,8 @@ export function FormUpload({
                 </div>
                 <Progress value={uploadProgress} className="h-2" />
                 <p className="text-xs text-muted-foreground text-center">
-                  {uploadStatus === "uploading"
-                    ? "Subiendo tu documento..."
-                    : "Extrayendo información de tu documento..."}
+                  Extrayendo información en tu navegador: los documentos no
+                  salen de este dispositivo.
                 </p>
               </div>
             )}
@@ -513,183 +603,202 @@ export function FormUpload({
                     "No se ha podido extraer datos del documento. Por favor, intenta de nuevo o usa otro método."}
                 </AlertDescription>
                 <div className="mt-4 flex gap-2 justify-end">
-                  <Button variant="outline" onClick={handleRemoveFile}>
-                    Eliminar Archivo
+                  <Button variant="outline" onClick={handleRemoveAll}>
+                    {documents.length > 1
+                      ? "Eliminar Archivos"
+                      : "Eliminar Archivo"}
                   </Button>
-                  <Button onClick={handleRetry}>Intentar de Nuevo</Button>
+                  {!presentationFile && (
+                    <Button onClick={handleUpload}>Intentar de Nuevo</Button>
+                  )}
                 </div>
               </Alert>
             )}
 
-            {uploadStatus === "success" && extractedData && (
+            {uploadStatus === "success" && imported?.declaration && (
               <div className="space-y-6">
-                <Alert
-                  variant="default"
-                  className="bg-green-50 border-green-200"
-                >
-                  <CheckCircle2 className="h-5 w-5 text-green-500" />
-                  <AlertTitle className="text-green-800">
-                    Extracción de datos exitosa
-                  </AlertTitle>
-                  <AlertDescription className="text-green-700">
-                    Hemos extraído correctamente los datos de tu documento.
-                  </AlertDescription>
-                </Alert>
-
-                <div className="space-y-4">
-                  {/* Metadata section if available */}
-                  {extractedData.metadata && (
-                    <div className="bg-muted/20 p-3 rounded-lg">
-                      <div className="flex justify-between items-center">
-                        <h3 className="text-sm font-medium">
-                          Información del documento
-                        </h3>
-                        {extractedData.metadata.referenceNumber && (
-                          <span className="text-xs bg-primary/10 text-primary p-1 rounded">
-                            Ref: {extractedData.metadata.referenceNumber}
-                          </span>
-                        )}
-                      </div>
-                      <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
-                        <div>
-                          <span className="text-muted-foreground">
-                            Ejercicio:
-                          </span>{" "}
-                          <span className="font-medium">
-                            {extractedData.metadata.taxYear}
-                          </span>
-                        </div>
-                        {extractedData.metadata.filingDate && (
-                          <div>
-                            <span className="text-muted-foreground">
-                              Fecha presentación:
-                            </span>{" "}
-                            <span className="font-medium">
-                              {extractedData.metadata.filingDate}
-                            </span>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  )}
-
-                  <h3 className="text-lg font-medium">Información Extraída</h3>
-                  <Separator />
-
-                  <div className="space-y-4">
-                    <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">
-                        Información Personal
-                      </h4>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {Object.entries(extractedData.personalInfo).map(
-                          ([key, value]) => (
-                            <div
-                              key={key}
-                              className="p-3 bg-muted/30 rounded-md"
-                            >
-                              <span className="text-xs text-muted-foreground block capitalize">
-                                {key === "nif"
-                                  ? "NIF/NIE"
-                                  : key.replace(/([A-Z])/g, " $1").trim()}
-                              </span>
-                              <span className="font-medium">
-                                {value as string}
-                              </span>
-                            </div>
+                {Object.keys(imported.errors).length > 0 ? (
+                  <Alert variant="destructive">
+                    <FileWarning className="h-5 w-5" />
+                    <AlertTitle>El fichero tiene errores</AlertTitle>
+                    <AlertDescription>
+                      <ul className="mt-2 list-disc pl-4 space-y-1">
+                        {Object.entries(imported.errors).map(
+                          ([key, message]) => (
+                            <li key={key}>{message}</li>
                           )
                         )}
-                      </div>
-                    </div>
+                      </ul>
+                      <p className="mt-2">
+                        Puedes continuar y corregirlos en la revisión.
+                      </p>
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Alert
+                    variant="default"
+                    className="bg-green-50 border-green-200"
+                  >
+                    <CheckCircle2 className="h-5 w-5 text-green-500" />
+                    <AlertTitle className="text-green-800">
+                      Fichero importado sin errores
+                    </AlertTitle>
+                    <AlertDescription className="text-green-700">
+                      Todas las casillas coinciden con el cálculo.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <div
+                    className={cn(
+                      "p-3 bg-muted/30 rounded-md",
+                      imported.errors["personal.nif"] &&
+                        "border border-destructive"
+                    )}
+                  >
+                    <span className="text-xs text-muted-foreground block">
+                      NIF/NIE
+                    </span>
+                    <span className="font-medium">
+                      {imported.declaration.taxpayer.nif}
+                    </span>
+                  </div>
+                  <div className="p-3 bg-muted/30 rounded-md">
+                    <span className="text-xs text-muted-foreground block">
+                      Apellidos y nombre
+                    </span>
+                    <span className="font-medium">
+                      {imported.declaration.taxpayer.lastName}{" "}
+                      {imported.declaration.taxpayer.firstName}
+                    </span>
+                  </div>
+                  <div
+                    className={cn(
+                      "p-3 bg-muted/30 rounded-md",
+                      imported.errors.period && "border border-destructive"
+                    )}
+                  >
+                    <span className="text-xs text-muted-foreground block">
+                      Periodo
+                    </span>
+                    <span className="font-medium">
+                      {formatPeriod(imported.declaration.period)}
+                    </span>
+                  </div>
+                </div>
 
-                    <div>
+                {(["income", "deductions"] as const).map((section) => {
+                  const values: Record<string, string> = {
+                    ...imported.declaration?.[section],
+                  };
+                  const fields = Object.keys(
+                    getFormFields(formType, section)
+                  ).filter(
+                    (field) =>
+                      parseFloat(values[field]) !== 0 ||
+                      imported.errors[`${section}.${field}`]
+                  );
+                  if (fields.length === 0) return null;
+
+                  return (
+                    <div key={section}>
                       <h4 className="text-sm font-medium text-muted-foreground mb-2">
-                        Ingresos
+                        {getSectionTitle(formType, section)}
                       </h4>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
-                        {Object.entries(extractedData.income)
-                          .filter(([, value]) => parseFloat(value) > 0)
-                          .map(([key, value]) => (
-                            <div
-                              key={key}
-                              className="p-3 bg-muted/30 rounded-md"
-                            >
-                              <span className="text-xs text-muted-foreground block capitalize">
-                                {key.replace(/([A-Z])/g, " $1").trim()}
-                              </span>
-                              <span className="font-medium">{value}€</span>
-                            </div>
-                          ))}
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        {fields.map((field) => (
+                          <div
+                            key={field}
+                            className={cn(
+                              "p-3 bg-muted/30 rounded-md",
+                              imported.errors[`${section}.${field}`] &&
+                                "border border-destructive"
+                            )}
+                          >
+                            <span className="text-xs text-muted-foreground block">
+                              {getFieldLabel(formType, field)}
+                            </span>
+                            <span className="font-medium">
+                              {isCountField(formType, field)
+                                ? values[field]
+                                : formatCurrency(values[field])}
+                            </span>
+                          </div>
+                        ))}
                       </div>
                     </div>
+                  );
+                })}
+
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={handleSaveImported}
+                    disabled={Object.keys(imported.errors).length > 0}
+                  >
+                    Guardar en el Historial
+                  </Button>
+                  <Button onClick={handleContinue} className="flex-1">
+                    Continuar con los Datos Importados
+                  </Button>
+                </div>
+              </div>
+            )}
 
-                    <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">
-                        Deducciones
-                      </h4>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
-                        {Object.entries(extractedData.deductions)
-                          .filter(([, value]) => parseFloat(value) > 0)
-                          .map(([key, value]) => (
-                            <div
-                              key={key}
-                              className="p-3 bg-muted/30 rounded-md"
-                            >
-                              <span className="text-xs text-muted-foreground block capitalize">
-                                {key.replace(/([A-Z])/g, " $1").trim()}
-                              </span>
-                              <span className="font-medium">{value}€</span>
-                            </div>
-                          ))}
-                      </div>
-                    </div>
+            {uploadStatus === "success" && extractedData && (
+              <div className="space-y-6">
+                {pendingReview > 0 ? (
+                  <Alert className="bg-amber-50 border-amber-200">
+                    <FileWarning className="h-5 w-5 text-amber-600" />
+                    <AlertTitle className="text-amber-800">
+                      Confirma los campos marcados
+                    </AlertTitle>
+                    <AlertDescription className="text-amber-700">
+                      {pendingReview} valor(es) no se han podido leer con
+                      seguridad. Compáralos con el recorte del documento y
+                      acéptalos o corrígelos para continuar.
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Alert
+                    variant="default"
+                    className="bg-green-50 border-green-200"
+                  >
+                    <CheckCircle2 className="h-5 w-5 text-green-500" />
+                    <AlertTitle className="text-green-800">
+                      Extracción de datos exitosa
+                    </AlertTitle>
+                    <AlertDescription className="text-green-700">
+                      Hemos leído {Object.keys(extractedData.fields).length}{" "}
+                      campos de {extractedData.pageCount} página(s).
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <DocumentConflicts
+                  formType={formType}
+                  conflicts={conflicts}
+                  data={extractedData}
+                  onChange={setExtractedData}
+                />
 
-                    <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">
-                        Resultado
-                      </h4>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {Object.entries(extractedData.result).map(
-                          ([key, value]) => (
-                            <div
-                              key={key}
-                              className={cn(
-                                "p-3 rounded-md",
-                                key === "taxDue" && parseFloat(value) > 0
-                                  ? "bg-red-50 border border-red-100"
-                                  : key === "refund" && parseFloat(value) > 0
-                                  ? "bg-green-50 border border-green-100"
-                                  : "bg-muted/30"
-                              )}
-                            >
-                              <span className="text-xs text-muted-foreground block capitalize">
-                                {key === "taxDue"
-                                  ? "A ingresar"
-                                  : key === "refund"
-                                  ? "A devolver"
-                                  : key.replace(/([A-Z])/g, " $1").trim()}
-                              </span>
-                              <span
-                                className={cn(
-                                  "font-medium",
-                                  key === "taxDue" && parseFloat(value) > 0
-                                    ? "text-red-700"
-                                    : key === "refund" && parseFloat(value) > 0
-                                    ? "text-green-700"
-                                    : ""
-                                )}
-                              >
-                                {value}€
-                              </span>
-                            </div>
-                          )
-                        )}
-                      </div>
-                    </div>
-                  </div>
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium">Información Extraída</h3>
+                  <Separator />
+                  <ExtractedFieldReview
+                    formType={formType}
+                    data={extractedData}
+                    onChange={setExtractedData}
+                  />
                 </div>
 
-                <Button onClick={onComplete} className="w-full">
+                <Button
+                  onClick={handleContinue}
+                  className="w-full"
+                  disabled={pendingReview > 0}
+                >
                   Continuar con los Datos Extraídos
                 </Button>
               </div>
@@ -702,7 +811,7 @@ export function FormUpload({
             <AlertTitle>Archivo inválido</AlertTitle>
             <AlertDescription>
               {fileRejections[0].errors[0].message}. Por favor, sube un archivo
-              PDF o una imagen.
+              PDF, una imagen o un fichero de presentación de la AEAT.
             </AlertDescription>
           </Alert>
         )}
@@ -715,7 +824,7 @@ export function FormUpload({
         </Button>
 
         {uploadStatus === "success" && (
-          <Button onClick={onComplete}>
+          <Button onClick={handleContinue} disabled={pendingReview > 0}>
             Continuar
             <ArrowRight className="ml-2 h-4 w-4" />
           </Button>
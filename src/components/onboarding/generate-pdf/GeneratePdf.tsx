@@ -0,0 +1,167 @@
+import {
+  ArrowLeft,
+  Download,
+  Eye,
+  FileCheck2,
+  FileCode2,
+} from "lucide-react";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getFormTitle } from "@/lib/declaration/forms";
+import { formatPeriod } from "@/lib/declaration/period";
+import {
+  downloadDeclarationPdf,
+  getDeclarationFileName,
+  getDeclarationOutcome,
+  openDeclarationPdf,
+} from "@/lib/declaration/pdf";
+import {
+  downloadPresentationFile,
+  getPresentationFileName,
+  hasPresentationFile,
+  validatePresentationFile,
+} from "@/lib/declaration/presentation";
+import type { Declaration } from "@/lib/declaration/types";
+import { formatCurrency } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface GeneratePdfProps {
+  declaration: Declaration;
+  onBack: () => void;
+  // The PDF was downloaded, which completes the wizard
+  onGenerated: () => void;
+}
+
+// Last step: the confirmed declaration as a PDF built in the browser
+export function GeneratePdf({
+  declaration,
+  onBack,
+  onGenerated,
+}: GeneratePdfProps): React.ReactElement {
+  const [hash, setHash] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { modelo, period, taxpayer } = declaration;
+  const outcome = getDeclarationOutcome(declaration);
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      setHash(await downloadDeclarationPdf(declaration));
+      onGenerated();
+      toast.success("PDF generado", {
+        description: getDeclarationFileName(declaration),
+      });
+    } catch {
+      toast.error("No se ha podido generar el PDF");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // The file is only offered once it reads back into the same declaration
+  const handlePresentationFile = () => {
+    const problems = validatePresentationFile(declaration);
+    if (problems.length > 0) {
+      toast.error("El fichero de presentación no es válido", {
+        description: problems.slice(0, 3).join(". "),
+      });
+      return;
+    }
+    downloadPresentationFile(declaration);
+    toast.success("Fichero de presentación generado", {
+      description: getPresentationFileName(declaration),
+    });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Generar PDF</CardTitle>
+        <CardDescription>
+          {getFormTitle(modelo)} · {formatPeriod(period)}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Declarante</p>
+            <p className="font-medium">
+              {taxpayer.firstName} {taxpayer.lastName}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">NIF</p>
+            <p className="font-medium">{taxpayer.nif.toUpperCase()}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">{outcome.label}</p>
+            <p className="font-medium">{formatCurrency(outcome.amount)}</p>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          El documento incluye la portada con el resultado, tus datos, todas
+          las casillas y el desglose del cálculo. Se genera en tu navegador: tus
+          datos no salen de este dispositivo.
+        </p>
+
+        {hasPresentationFile(modelo) && (
+          <p className="text-sm text-muted-foreground">
+            También puedes descargar el fichero de presentación en el formato
+            de la AEAT para importarlo en la Sede Electrónica sin volver a
+            teclear las casillas. El IBAN de la domiciliación o de la
+            devolución se indica al presentarlo.
+          </p>
+        )}
+
+        {hash && (
+          <div className="flex items-start gap-3 p-4 border rounded-lg bg-muted/20">
+            <FileCheck2 className="h-5 w-5 text-green-600 shrink-0" />
+            <div className="text-sm min-w-0">
+              <p className="font-medium">Huella SHA-256 de los datos</p>
+              <p className="font-mono text-xs break-all text-muted-foreground">
+                {hash}
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex justify-between">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver
+        </Button>
+        <div className="flex gap-2">
+          {hasPresentationFile(modelo) && (
+            <Button variant="outline" onClick={handlePresentationFile}>
+              <FileCode2 className="mr-2 h-4 w-4" />
+              Fichero AEAT
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => void openDeclarationPdf(declaration)}
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            Ver
+          </Button>
+          <Button onClick={handleDownload} disabled={isGenerating}>
+            <Download className="mr-2 h-4 w-4" />
+            Descargar PDF
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
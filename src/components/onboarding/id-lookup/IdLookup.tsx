@@ -47,10 +47,13 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { fromTaxData, type TaxData } from "@/lib/declaration/adapters";
+import { getFormTitle } from "@/lib/declaration/forms";
+import type { Declaration } from "@/lib/declaration/types";
 import { toast } from "sonner";
 
 interface IdLookupProps {
-  onComplete: () => void;
+  onComplete: (declaration: Declaration) => void;
   onCancel: () => void;
   formType: string;
 }
@@ -78,39 +81,6 @@ const verificationSchema = z.object({
   }),
 });
 
-// Define the type for the tax data returned from the API
-interface TaxData {
-  personalInfo: {
-    fullName: string;
-    documentNumber: string;
-    dateOfBirth: string;
-    address: string;
-    postalCode: string;
-    city: string;
-    province: string;
-    phone: string;
-    email: string;
-  };
-  taxInfo: {
-    employmentIncome: string;
-    capitalIncome: string;
-    propertyIncome: string;
-    businessIncome: string;
-    withholdings: string;
-    deductions: {
-      socialSecurity: string;
-      personalAllowance: string;
-      pensionContributions: string;
-      mortgageDeduction: string;
-    };
-  };
-  metadata?: {
-    lastUpdated: string;
-    referenceNumber: string;
-    validUntil?: string;
-  };
-}
-
 // Form-specific mock data
 const formSpecificData: Record<string, Partial<TaxData>> = {
   modelo100: {
@@ -327,6 +297,11 @@ export function IdLookup({
     });
   };
 
+  const handleContinue = () => {
+    if (!taxData) return;
+    onComplete(fromTaxData(formType, taxData));
+  };
+
   const handleTryAgain = () => {
     setLookupState("initial");
     setTaxData(null);
@@ -350,22 +325,6 @@ export function IdLookup({
     onCancel();
   };
 
-  // Get the appropriate form title
-  const getFormTitle = () => {
-    switch (formTypeKey) {
-      case "modelo100":
-        return "Modelo 100 (IRPF)";
-      case "modelo303":
-        return "Modelo 303 (IVA)";
-      case "modelo130":
-        return "Modelo 130 (Pago Fraccionado)";
-      case "modelo714":
-        return "Modelo 714 (Patrimonio)";
-      default:
-        return formType;
-    }
-  };
-
   // Helper function to deep merge objects
   function mergeDeep(
     target: Record<string, unknown>,
@@ -400,7 +359,7 @@ export function IdLookup({
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle>Consultar {getFormTitle()} mediante DNI/NIE</CardTitle>
+        <CardTitle>Consultar {getFormTitle(formType)} mediante DNI/NIE</CardTitle>
         <CardDescription>
           Buscaremos tus datos fiscales existentes en la base de datos oficial
           de la Agencia Tributaria
@@ -846,7 +805,7 @@ export function IdLookup({
                 </div>
               </div>
 
-              <Button onClick={onComplete} className="w-full mt-6">
+              <Button onClick={handleContinue} className="w-full mt-6">
                 Continuar con los Datos Recuperados
                 <ArrowRight className="ml-2 h-4 w-4" />
               </Button>
@@ -0,0 +1,153 @@
+import { ArrowRight, History, Redo2, RotateCcw, Undo2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  familyFieldLabels,
+  getDeclarationFieldLabel,
+} from "@/lib/declaration/fields";
+import type { ChangeJournal } from "@/lib/declaration/journal";
+import type { CaptureMethod, Modelo100Family } from "@/lib/declaration/types";
+
+interface JournalPanelProps {
+  formType: string;
+  journal: ChangeJournal;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (id: string) => void;
+}
+
+const sourceLabels: Record<CaptureMethod, string> = {
+  manual: "Manual",
+  upload: "Documento",
+  lookup: "Consulta DNI/NIE",
+  ai: "Asistente IA",
+};
+
+const getEntryLabel = (formType: string, field: string) => {
+  if (field === "period") return "Periodo";
+  if (field === "settlement") return "Opción de liquidación";
+  const [section, name] = field.split(".");
+  return section === "family"
+    ? familyFieldLabels[name as keyof Modelo100Family] ?? name
+    : getDeclarationFieldLabel(formType, field);
+};
+
+// Text fields keep the browser's own undo
+const isTextTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Changes made to the declaration, newest first, each of which can be
+// reverted on its own. Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y) undo and redo
+export function JournalPanel({
+  formType,
+  journal,
+  onUndo,
+  onRedo,
+  onRevert,
+}: JournalPanelProps): React.ReactElement {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const { entries, undone } = journal;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <button
+          type="button"
+          className="flex items-center gap-2 text-sm font-medium"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+        >
+          <History className="h-4 w-4" />
+          Cambios
+          <Badge variant="secondary">{entries.length}</Badge>
+        </button>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onUndo}
+            disabled={entries.length === 0}
+            title="Deshacer (Ctrl+Z)"
+          >
+            <Undo2 className="mr-1 h-4 w-4" />
+            Deshacer
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onRedo}
+            disabled={undone.length === 0}
+            title="Rehacer (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="mr-1 h-4 w-4" />
+            Rehacer
+          </Button>
+        </div>
+      </div>
+
+      {isOpen &&
+        (entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Todavía no hay cambios.
+          </p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto divide-y">
+            {[...entries].reverse().map((entry) => (
+              <li
+                key={entry.id}
+                className="flex items-center justify-between gap-3 py-2"
+              >
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm font-medium truncate">
+                    {getEntryLabel(formType, entry.field)}
+                  </p>
+                  <p className="text-sm flex items-center gap-1 flex-wrap">
+                    <span className="text-muted-foreground line-through">
+                      {entry.oldValue || "(vacío)"}
+                    </span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    <span>{entry.newValue || "(vacío)"}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {sourceLabels[entry.source]} ·{" "}
+                    {new Date(entry.at).toLocaleTimeString("es-ES")}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRevert(entry.id)}
+                >
+                  <RotateCcw className="mr-1 h-4 w-4" />
+                  Revertir
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ))}
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import {
   HelpCircle,
   Save,
 } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 
@@ -46,248 +46,83 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { AssetInventory } from "@/components/onboarding/asset-inventory/AssetInventory";
+import { CalculationSummary } from "@/components/onboarding/calculation-summary/CalculationSummary";
+import { CounterpartyList } from "@/components/onboarding/counterparty-list/CounterpartyList";
+import { ForeignAssetInventory } from "@/components/onboarding/foreign-asset-inventory/ForeignAssetInventory";
+import { JournalPanel } from "@/components/onboarding/journal-panel/JournalPanel";
+import { SettlementOption } from "@/components/onboarding/settlement-option/SettlementOption";
+import {
+  fromManualForm,
+  type ManualFormValues,
+} from "@/lib/declaration/adapters";
+import {
+  familyFieldLabels,
+  getFamilyHelpText,
+  getFieldHelpText,
+  getFieldLabel,
+  isCountField,
+  isSignedField,
+} from "@/lib/declaration/fields";
+import {
+  getFormDefinition,
+  getFormFields,
+  getFormTitle,
+  getSectionTitle,
+  hasSection,
+} from "@/lib/declaration/forms";
+import { getDeclarationHistory } from "@/lib/declaration/history";
+import {
+  getManualFormValues,
+  recordChanges,
+  redoChange,
+  revertChange,
+  undoChange,
+  type ChangeJournal,
+  type JournalStep,
+} from "@/lib/declaration/journal";
+import { getDefaultPeriod } from "@/lib/declaration/period";
+import {
+  createAmountsSchema,
+  familySchema,
+  familySituationSchema,
+  personalInfoSchema,
+} from "@/lib/declaration/schemas";
+import {
+  getQuarterlyTotals,
+  withQuarterlyTotals,
+} from "@/lib/declaration/summary";
+import type {
+  Counterparty,
+  Declaration,
+  DeclarationSection,
+  ForeignAsset,
+  Modelo303Settlement,
+  PatrimonioAsset,
+} from "@/lib/declaration/types";
+import { isLocked } from "@/lib/declaration/vault";
+import { getCalculation } from "@/lib/tax/calculate";
+import { isForal, provinces, resolveCcaa } from "@/lib/tax/ccaa";
+import type { CalculationBreakdown } from "@/lib/tax/types";
+import { cn, formatCurrency } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface ManualFormFillingProps {
-  onComplete: () => void;
+  onComplete: (declaration: Declaration) => void;
   onCancel: () => void;
   formType: string;
+  // Values of a draft to carry on from, and every change for it to be saved
+  initialValues?: ManualFormValues;
+  onValuesChange?: (values: ManualFormValues) => void;
+  // Keep the draft right away, telling whether it could be saved
+  onSaveDraft?: (values: ManualFormValues) => Promise<boolean>;
+  // Changes of the declaration, which the edits made here are added to
+  journal?: ChangeJournal;
+  onJournalChange?: (
+    update: (journal: ChangeJournal) => ChangeJournal
+  ) => void;
 }
 
-// Schema for personal information
-const personalInfoSchema = z.object({
-  firstName: z.string().min(2, "El nombre debe tener al menos 2 caracteres"),
-  lastName: z
-    .string()
-    .min(2, "Los apellidos deben tener al menos 2 caracteres"),
-  nif: z.string().refine((val) => {
-    // Validate Spanish DNI/NIE
-    const dniRegex = /^[0-9]{8}[a-zA-Z]$/;
-    const nieRegex = /^[XYZxyz][0-9]{7}[a-zA-Z]$/;
-    return dniRegex.test(val) || nieRegex.test(val);
-  }, "Introduce un DNI (8 números + letra) o NIE (X/Y/Z + 7 números + letra) válido"),
-  birthDate: z.string().refine((val) => {
-    const date = new Date(val);
-    return !isNaN(date.getTime());
-  }, "Por favor, introduce una fecha válida"),
-  email: z.string().email("Por favor, introduce un email válido"),
-  phone: z.string().min(9, "Introduce un número de teléfono válido"),
-  address: z.string().min(5, "La dirección debe tener al menos 5 caracteres"),
-  postalCode: z
-    .string()
-    .regex(/^[0-9]{5}$/, "El código postal debe tener 5 dígitos"),
-  city: z.string().min(2, "La ciudad debe tener al menos 2 caracteres"),
-  province: z.string().min(2, "La provincia debe tener al menos 2 caracteres"),
-});
-
-// Income schema - customized based on form type
-const createIncomeSchema = (formType: string) => {
-  const baseSchema = {
-    salaryIncome: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-    selfEmploymentIncome: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-    capitalGainsIncome: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-    rentalIncome: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-    otherIncome: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-  };
-
-  // Add form-specific fields
-  switch (formType.toLowerCase()) {
-    case "modelo303":
-      return z.object({
-        ...baseSchema,
-        ivaRepercutido: z
-          .string()
-          .refine(
-            (val) => !isNaN(parseFloat(val || "0")),
-            "Debe ser un número válido"
-          ),
-        ivaSoportado: z
-          .string()
-          .refine(
-            (val) => !isNaN(parseFloat(val || "0")),
-            "Debe ser un número válido"
-          ),
-      });
-    case "modelo714":
-      return z.object({
-        ...baseSchema,
-        realEstate: z
-          .string()
-          .refine(
-            (val) => !isNaN(parseFloat(val || "0")),
-            "Debe ser un número válido"
-          ),
-        financialAssets: z
-          .string()
-          .refine(
-            (val) => !isNaN(parseFloat(val || "0")),
-            "Debe ser un número válido"
-          ),
-        liabilities: z
-          .string()
-          .refine(
-            (val) => !isNaN(parseFloat(val || "0")),
-            "Debe ser un número válido"
-          ),
-      });
-    default:
-      return z.object(baseSchema);
-  }
-};
-
-// Deductions schema - customized based on form type
-const createDeductionsSchema = (formType: string) => {
-  const baseSchema = {
-    socialSecurity: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-    pensionContributions: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-    mortgageInterest: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-    donations: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-    otherDeductions: z
-      .string()
-      .refine(
-        (val) => !isNaN(parseFloat(val || "0")),
-        "Debe ser un número válido"
-      ),
-  };
-
-  // Add form-specific fields
-  switch (formType.toLowerCase()) {
-    case "modelo100":
-      return z.object({
-        ...baseSchema,
-        familyDeductions: z
-          .string()
-          .refine(
-            (val) => !isNaN(parseFloat(val || "0")),
-            "Debe ser un número válido"
-          ),
-        disabilityDeductions: z
-          .string()
-          .refine(
-            (val) => !isNaN(parseFloat(val || "0")),
-            "Debe ser un número válido"
-          ),
-      });
-    case "modelo303":
-      return z.object({
-        ...baseSchema,
-        previousPeriodCompensation: z
-          .string()
-          .refine(
-            (val) => !isNaN(parseFloat(val || "0")),
-            "Debe ser un número válido"
-          ),
-      });
-    default:
-      return z.object(baseSchema);
-  }
-};
-
-// Form-specific field definitions
-const fieldDefinitions = {
-  modelo100: {
-    title: "Modelo 100 - IRPF",
-    income: {
-      salaryIncome: "Rendimientos del trabajo",
-      selfEmploymentIncome: "Rendimientos de actividades económicas",
-      capitalGainsIncome: "Ganancias patrimoniales",
-      rentalIncome: "Rendimientos del capital inmobiliario",
-      otherIncome: "Otros rendimientos",
-    },
-    deductions: {
-      socialSecurity: "Seguridad Social",
-      pensionContributions: "Aportaciones a planes de pensiones",
-      mortgageInterest: "Intereses de hipoteca (régimen transitorio)",
-      donations: "Donativos",
-      otherDeductions: "Otras deducciones",
-      familyDeductions: "Deducciones familiares",
-      disabilityDeductions: "Deducciones por discapacidad",
-    },
-  },
-  modelo303: {
-    title: "Modelo 303 - IVA",
-    income: {
-      selfEmploymentIncome: "Ingresos por actividades",
-      ivaRepercutido: "IVA repercutido",
-      ivaSoportado: "IVA soportado deducible",
-    },
-    deductions: {
-      socialSecurity: "Seguridad Social autónomos",
-      previousPeriodCompensation: "Compensación de periodos anteriores",
-      otherDeductions: "Otras deducciones",
-    },
-  },
-  modelo130: {
-    title: "Modelo 130 - Pago Fraccionado",
-    income: {
-      selfEmploymentIncome: "Ingresos de actividades económicas",
-      otherIncome: "Otros ingresos computables",
-    },
-    deductions: {
-      socialSecurity: "Cuotas Seguridad Social",
-      otherDeductions: "Gastos fiscalmente deducibles",
-    },
-  },
-  modelo714: {
-    title: "Modelo 714 - Impuesto sobre el Patrimonio",
-    income: {
-      realEstate: "Bienes inmuebles",
-      financialAssets: "Depósitos y activos financieros",
-      capitalGainsIncome: "Valores y participaciones",
-      otherIncome: "Otros bienes y derechos",
-    },
-    deductions: {
-      liabilities: "Deudas deducibles",
-      otherDeductions: "Otras deducciones",
-    },
-  },
-};
-
 type SectionData = {
   personal: z.infer<typeof personalInfoSchema>;
   income: any; // Will be typed based on form type
@@ -298,27 +133,72 @@ export function ManualFormFilling({
   onComplete,
   onCancel,
   formType,
+  initialValues,
+  onValuesChange,
+  onSaveDraft,
+  journal,
+  onJournalChange,
 }: ManualFormFillingProps): React.ReactElement {
   const [activeTab, setActiveTab] = useState<string>("personal");
-  const [sessionSaved, setSessionSaved] = useState<boolean>(false);
   const [formProgress, setFormProgress] = useState<number>(0);
-  const [autoCalculatedFields, setAutoCalculatedFields] = useState<
-    Record<string, string>
-  >({});
+  const [settlement, setSettlement] = useState<Modelo303Settlement>(
+    initialValues?.settlement ?? "compensar"
+  );
+  const [assets, setAssets] = useState<PatrimonioAsset[]>(
+    initialValues?.assets ?? []
+  );
+  const [counterparties, setCounterparties] = useState<Counterparty[]>(
+    initialValues?.counterparties ?? []
+  );
+  const [foreignAssets, setForeignAssets] = useState<ForeignAsset[]>(
+    initialValues?.foreignAssets ?? []
+  );
+  const [calculation, setCalculation] = useState<CalculationBreakdown | null>(
+    null
+  );
 
   // Normalize form type for lookups
   const normalizedFormType = formType.toLowerCase().replace(/\s+/g, "");
-  const formDefinition =
-    fieldDefinitions[normalizedFormType as keyof typeof fieldDefinitions] ||
-    fieldDefinitions.modelo100;
+  const formDefinition = getFormDefinition(normalizedFormType);
+
+  // Extra tabs of the modelos that capture more than amounts
+  const hasFamilyTab = hasSection(normalizedFormType, "family");
+  const hasAssetsTab = hasSection(normalizedFormType, "assets");
+  const hasCounterpartiesTab = hasSection(normalizedFormType, "counterparties");
+  const hasForeignAssetsTab = hasSection(normalizedFormType, "foreignAssets");
+  const tabs = formDefinition.sections.filter(
+    (section) => section !== "result"
+  );
+
+  // Tabs around the amounts: the one after the personal information and the
+  // one before the income
+  const afterPersonalTab = hasFamilyTab
+    ? "family"
+    : hasAssetsTab
+    ? "assets"
+    : hasCounterpartiesTab
+    ? "counterparties"
+    : hasForeignAssetsTab
+    ? "foreignAssets"
+    : "income";
+  const beforeIncomeTab =
+    afterPersonalTab === "income" ? "personal" : afterPersonalTab;
+  const beforeDeductionsTab = hasSection(normalizedFormType, "income")
+    ? "income"
+    : afterPersonalTab;
+  const title = (section: DeclarationSection) =>
+    getSectionTitle(formType, section);
 
   // Create income and deductions schemas based on form type
-  const incomeSchema = createIncomeSchema(normalizedFormType);
-  const deductionsSchema = createDeductionsSchema(normalizedFormType);
+  const incomeSchema = createAmountsSchema(normalizedFormType, "income");
+  const deductionsSchema = createAmountsSchema(
+    normalizedFormType,
+    "deductions"
+  );
 
   // Initial form data with defaults
   const [formData, setFormData] = useState<Partial<SectionData>>({
-    personal: {
+    personal: initialValues?.personal ?? {
       firstName: "",
       lastName: "",
       nif: "",
@@ -331,11 +211,11 @@ export function ManualFormFilling({
       province: "",
     },
     income: Object.keys(incomeSchema.shape).reduce((acc, key) => {
-      acc[key] = "0";
+      acc[key] = initialValues?.income[key] ?? "0";
       return acc;
     }, {} as Record<string, string>),
     deductions: Object.keys(deductionsSchema.shape).reduce((acc, key) => {
-      acc[key] = "0";
+      acc[key] = initialValues?.deductions[key] ?? "0";
       return acc;
     }, {} as Record<string, string>),
   });
@@ -346,6 +226,24 @@ export function ManualFormFilling({
     defaultValues: formData.personal,
   });
 
+  // Comunidad autónoma of residence, which sets the regional tax rules
+  const ccaa = resolveCcaa(
+    personalForm.watch("province"),
+    personalForm.watch("postalCode")
+  );
+
+  // Form for the family situation
+  const familyForm = useForm<z.infer<typeof familySchema>>({
+    resolver: zodResolver(familySituationSchema),
+    defaultValues: initialValues?.family ?? {
+      descendants: "0",
+      descendantsUnder3: "0",
+      ascendantsOver65: "0",
+      ascendantsOver75: "0",
+      disabilityDegree: "0",
+    },
+  });
+
   // Form for income information
   const incomeForm = useForm({
     resolver: zodResolver(incomeSchema),
@@ -384,22 +282,46 @@ export function ManualFormFilling({
     setFormProgress(progress);
   }, [personalForm, incomeForm, deductionsForm]);
 
-  // Auto-calculate fields when relevant inputs change
+  // Result-driven modelos are recalculated as their casillas change
   useEffect(() => {
-    // Don't auto-calculate for all form types
-    if (normalizedFormType === "modelo303") {
-      const values = incomeForm.getValues();
-      const ivaRepercutido = parseFloat(values.ivaRepercutido || "0");
-      const ivaSoportado = parseFloat(values.ivaSoportado || "0");
-
-      const resultado = Math.max(0, ivaRepercutido - ivaSoportado).toFixed(2);
-      setAutoCalculatedFields({
-        ...autoCalculatedFields,
-        resultado: resultado,
-      });
+    if (formDefinition.liveCalculation) {
+      setCalculation(
+        getCalculation(buildDeclaration(deductionsForm.getValues()))
+      );
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [incomeForm.watch()]);
+  }, [incomeForm.watch(), deductionsForm.watch(), settlement]);
+
+  // Values the journal last saw, to tell what each edit changed
+  const journaledValues = useRef<Record<string, string> | null>(null);
+
+  // Every change is reported for the draft to be saved and added to the
+  // journal
+  useEffect(() => {
+    if (!onValuesChange && !onJournalChange) return;
+    const report = () => {
+      const values = collectValues();
+      onValuesChange?.(values);
+      const before = journaledValues.current;
+      const after = getManualFormValues(values);
+      journaledValues.current = after;
+      if (before) {
+        onJournalChange?.((current) =>
+          recordChanges(current, before, after, "manual")
+        );
+      }
+    };
+    report();
+    const subscriptions = [
+      personalForm.watch(report),
+      familyForm.watch(report),
+      incomeForm.watch(report),
+      deductionsForm.watch(report),
+    ];
+    return () =>
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settlement, assets, counterparties, foreignAssets]);
 
   // Handle tab changes with proper progress tracking
   const handleTabChange = (value: string) => {
@@ -413,6 +335,13 @@ export function ManualFormFilling({
     // If moving backwards, we should reduce progress accordingly
     if (
       (previousTab === "deductions" && value === "income") ||
+      (previousTab === "income" && value === "family") ||
+      (previousTab === "income" && value === "assets") ||
+      (previousTab === "assets" && value === "personal") ||
+      (previousTab === "counterparties" && value === "personal") ||
+      (previousTab === "foreignAssets" && value === "personal") ||
+      (previousTab === "deductions" && value === "foreignAssets") ||
+      (previousTab === "family" && value === "personal") ||
       (previousTab === "income" && value === "personal")
     ) {
       // Moving backwards, reduce progress somewhat
@@ -420,12 +349,54 @@ export function ManualFormFilling({
     }
   };
 
-  const saveProgress = () => {
-    // In a real application, you would save this to localStorage, a database, or an API
-    setSessionSaved(true);
-    toast.success("Progreso guardado", {
-      description: "Tus datos han sido guardados correctamente.",
-    });
+  // The draft is saved as the values change; saving reports them right away
+  // Nothing is saved while the drafts are locked, which has to be said
+  const saveProgress = async () => {
+    const values = collectValues();
+    onValuesChange?.(values);
+    if (await onSaveDraft?.(values)) {
+      toast.success("Progreso guardado", {
+        description: "Puedes continuar más tarde desde «Continuar borrador».",
+      });
+    } else if (isLocked()) {
+      toast.error("No se ha guardado el progreso", {
+        description:
+          "Tus borradores están cifrados: introduce tu frase de contraseña para poder guardarlos.",
+      });
+    }
+  };
+
+  // Put a value from the journal back in its tab. The journal already knows
+  // about it, so the edit isn't recorded again
+  const applyJournalStep = (step: JournalStep | null) => {
+    if (!step || !onJournalChange) return;
+    journaledValues.current = {
+      ...journaledValues.current,
+      [step.field]: step.value,
+    };
+    onJournalChange(() => step.journal);
+
+    const [section, name] = step.field.split(".");
+    const options = { shouldDirty: true };
+    if (step.field === "settlement") {
+      setSettlement(step.value as Modelo303Settlement);
+    } else if (section === "personal") {
+      personalForm.setValue(
+        name as keyof z.infer<typeof personalInfoSchema>,
+        step.value,
+        options
+      );
+    } else if (section === "family") {
+      familyForm.setValue(
+        name as keyof z.infer<typeof familySchema>,
+        step.value,
+        options
+      );
+    } else if (section === "income") {
+      incomeForm.setValue(name, step.value, options);
+    } else if (section === "deductions") {
+      deductionsForm.setValue(name, step.value, options);
+    }
   };
 
   const handlePersonalSubmit = (data: z.infer<typeof personalInfoSchema>) => {
@@ -433,8 +404,71 @@ export function ManualFormFilling({
       ...formData,
       personal: data,
     });
-    setActiveTab("income");
+    setActiveTab(afterPersonalTab);
     toast.success("Información personal guardada");
+    if (formDefinition.summary) {
+      prefillQuarterlyTotals(formDefinition.summary.of);
+    }
+  };
+
+  // Annual summaries start from what the stored quarters of the same NIF
+  // add up to; amounts already entered are kept
+  const prefillQuarterlyTotals = (quarterlyModelo: string) => {
+    const history = getDeclarationHistory();
+    const declaration = buildDeclaration(deductionsForm.getValues());
+    const quarterly = getQuarterlyTotals(declaration, history);
+    if (!quarterly) return;
+
+    const filled = withQuarterlyTotals(declaration, history);
+    incomeForm.reset(filled.income);
+    deductionsForm.reset(filled.deductions);
+    toast.info("Totales trimestrales cargados", {
+      description: `Se han sumado ${
+        quarterly.quarters.length
+      } trimestre(s) de ${getFormTitle(quarterlyModelo)}.`,
+    });
+  };
+
+  const handleFamilySubmit = () => {
+    setActiveTab("income");
+    toast.success("Situación familiar guardada");
+  };
+
+  // The current values of every tab
+  const collectValues = (): ManualFormValues => ({
+    personal: personalForm.getValues(),
+    family: hasFamilyTab ? familyForm.getValues() : undefined,
+    income: incomeForm.getValues(),
+    deductions: deductionsForm.getValues(),
+    settlement,
+    assets,
+    counterparties,
+    foreignAssets,
+  });
+
+  // Collect the current values of every tab into a declaration
+  const buildDeclaration = (deductions: Record<string, string>) =>
+    fromManualForm(formType, { ...collectValues(), deductions });
+
+  const handleCalculate = () => {
+    const result = getCalculation(
+      buildDeclaration(deductionsForm.getValues())
+    );
+    if (!result) {
+      toast.info("Calculadora", {
+        description: "Esta funcionalidad estará disponible próximamente.",
+      });
+      return;
+    }
+
+    // The total line already says whether it is paid, refunded or carried
+    const total = result.lines[result.lines.length - 1];
+    setCalculation(result);
+    toast.success("Cálculo actualizado", {
+      description: `${total.label}: ${formatCurrency(
+        Math.abs(result.result).toFixed(2)
+      )}`,
+    });
   };
 
   const handleIncomeSubmit = (data: any) => {
@@ -443,7 +477,7 @@ export function ManualFormFilling({
       income: data,
     });
     setActiveTab("deductions");
-    toast.success("Información de ingresos guardada");
+    toast.success(`Información de ${title("income").toLowerCase()} guardada`);
   };
 
   const handleDeductionsSubmit = (data: any) => {
@@ -457,66 +491,70 @@ export function ManualFormFilling({
       description: "Tu información ha sido guardada.",
     });
 
-    // Call the onComplete callback to proceed
-    onComplete();
-  };
-
-  // Helper to get form title from form type
-  const getFormTitle = () => {
-    return formDefinition.title;
+    // Call the onComplete callback to proceed with everything captured
+    onComplete(buildDeclaration(data));
   };
 
-  // Get income fields based on form type
-  const getIncomeFields = () => {
-    return formDefinition.income;
-  };
-
-  // Get deduction fields based on form type
-  const getDeductionFields = () => {
-    return formDefinition.deductions;
-  };
-
-  // Format currency value
-  const formatCurrency = (value: string) => {
-    if (!value || value === "0") return "0,00 €";
-    return (
-      parseFloat(value).toLocaleString("es-ES", {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-      }) + " €"
-    );
-  };
 
   return (
     <Card className="w-full">
       <CardHeader className="flex flex-row items-center justify-between">
         <div>
-          <CardTitle>Completar {getFormTitle()} Manualmente</CardTitle>
+          <CardTitle>Completar {getFormTitle(formType)} Manualmente</CardTitle>
           <Progress
             value={formProgress}
             className="h-2 w-40 mt-2"
             aria-label="Progreso del formulario"
           />
         </div>
-        {!sessionSaved && (
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={saveProgress}
-            className="flex items-center gap-2"
-          >
-            <Save className="h-4 w-4" />
-            Guardar
-          </Button>
-        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => void saveProgress()}
+          className="flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          Guardar
+        </Button>
       </CardHeader>
 
       <CardContent>
+        {journal && onJournalChange && (
+          <div className="mb-6">
+            <JournalPanel
+              formType={formType}
+              journal={journal}
+              onUndo={() => applyJournalStep(undoChange(journal))}
+              onRedo={() => applyJournalStep(redoChange(journal))}
+              onRevert={(id) =>
+                applyJournalStep(
+                  revertChange(
+                    journal,
+                    id,
+                    getManualFormValues(collectValues())
+                  )
+                )
+              }
+            />
+          </div>
+        )}
+
         <Tabs value={activeTab} onValueChange={handleTabChange}>
-          <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="personal">Información Personal</TabsTrigger>
-            <TabsTrigger value="income">Ingresos</TabsTrigger>
-            <TabsTrigger value="deductions">Deducciones</TabsTrigger>
+          <TabsList
+            className={cn(
+              "grid w-full",
+              tabs.length === 2
+                ? "grid-cols-2"
+                : tabs.length === 4
+                ? "grid-cols-4"
+                : "grid-cols-3"
+            )}
+          >
+            {tabs.map((section) => (
+              <TabsTrigger key={section} value={section}>
+                {title(section)}
+              </TabsTrigger>
+            ))}
           </TabsList>
 
           <TabsContent value="personal" className="mt-6">
@@ -684,31 +722,25 @@ export function ManualFormFilling({
                                 <SelectValue placeholder="Seleccionar provincia" />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="madrid">Madrid</SelectItem>
-                                <SelectItem value="barcelona">
-                                  Barcelona
-                                </SelectItem>
-                                <SelectItem value="valencia">
-                                  Valencia
-                                </SelectItem>
-                                <SelectItem value="sevilla">Sevilla</SelectItem>
-                                <SelectItem value="zaragoza">
-                                  Zaragoza
-                                </SelectItem>
-                                <SelectItem value="malaga">Málaga</SelectItem>
-                                <SelectItem value="murcia">Murcia</SelectItem>
-                                <SelectItem value="palma">
-                                  Palma de Mallorca
-                                </SelectItem>
-                                <SelectItem value="bilbao">Bilbao</SelectItem>
-                                <SelectItem value="alicante">
-                                  Alicante
-                                </SelectItem>
-                                <SelectItem value="other">Otra</SelectItem>
+                                {provinces.map((province) => (
+                                  <SelectItem
+                                    key={province.slug}
+                                    value={province.slug}
+                                  >
+                                    {province.name}
+                                  </SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </div>
                         </FormControl>
+                        {ccaa && (
+                          <FormDescription>
+                            Comunidad autónoma: {ccaa.name}
+                            {isForal(ccaa) &&
+                              " (régimen foral, cálculo no soportado)"}
+                          </FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -717,7 +749,7 @@ export function ManualFormFilling({
 
                 <div className="flex justify-end pt-4">
                   <Button type="submit">
-                    Continuar a Ingresos
+                    Continuar a {title(afterPersonalTab)}
                     <ArrowRight className="ml-2 h-4 w-4" />
                   </Button>
                 </div>
@@ -725,6 +757,169 @@ export function ManualFormFilling({
             </Form>
           </TabsContent>
 
+          {hasFamilyTab && (
+            <TabsContent value="family" className="mt-6">
+              <Form {...familyForm}>
+                <form
+                  onSubmit={familyForm.handleSubmit(handleFamilySubmit)}
+                  className="space-y-6"
+                >
+                  <h3 className="text-lg font-medium">Situación Familiar</h3>
+                  <Separator />
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {Object.entries(familyFieldLabels).map(
+                      ([fieldName, fieldLabel]) => (
+                        <FormField
+                          key={fieldName}
+                          control={familyForm.control}
+                          name={fieldName as keyof z.infer<typeof familySchema>}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{fieldLabel}</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  step="1"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                {getFamilyHelpText(fieldName)}
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )
+                    )}
+                  </div>
+
+                  <div className="flex justify-between pt-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setActiveTab("personal")}
+                    >
+                      <ArrowLeft className="mr-2 h-4 w-4" />
+                      Volver a Información Personal
+                    </Button>
+
+                    <Button type="submit">
+                      Continuar a {title("income")}
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </TabsContent>
+          )}
+
+          {hasAssetsTab && (
+            <TabsContent value="assets" className="mt-6">
+              <div className="space-y-6">
+                <h3 className="text-lg font-medium">Bienes y Deudas</h3>
+                <Separator />
+
+                <AssetInventory assets={assets} onChange={setAssets} />
+
+                <div className="flex justify-between pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setActiveTab("personal")}
+                  >
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Volver a Información Personal
+                  </Button>
+
+                  <Button type="button" onClick={() => setActiveTab("income")}>
+                    Continuar a {title("income")}
+                    <ArrowRight className="ml-2 h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </TabsContent>
+          )}
+
+          {hasCounterpartiesTab && (
+            <TabsContent value="counterparties" className="mt-6">
+              <div className="space-y-6">
+                <h3 className="text-lg font-medium">
+                  {title("counterparties")}
+                </h3>
+                <Separator />
+
+                <CounterpartyList
+                  modelo={formDefinition.id}
+                  period={getDefaultPeriod(formDefinition.id)}
+                  counterparties={counterparties}
+                  onChange={setCounterparties}
+                />
+
+                <div className="flex justify-between pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setActiveTab("personal")}
+                  >
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Volver a Información Personal
+                  </Button>
+
+                  {/* The list is the whole declaration: there are no
+                      amounts of its own to capture */}
+                  <Button
+                    type="button"
+                    onClick={() =>
+                      onComplete(buildDeclaration(deductionsForm.getValues()))
+                    }
+                  >
+                    Completar Formulario
+                    <ArrowRight className="ml-2 h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </TabsContent>
+          )}
+
+          {hasForeignAssetsTab && (
+            <TabsContent value="foreignAssets" className="mt-6">
+              <div className="space-y-6">
+                <h3 className="text-lg font-medium">
+                  {title("foreignAssets")}
+                </h3>
+                <Separator />
+
+                <ForeignAssetInventory
+                  assets={foreignAssets}
+                  onChange={setForeignAssets}
+                  previous={deductionsForm.getValues()}
+                />
+
+                <div className="flex justify-between pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setActiveTab("personal")}
+                  >
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Volver a Información Personal
+                  </Button>
+
+                  <Button
+                    type="button"
+                    onClick={() => setActiveTab("deductions")}
+                  >
+                    Continuar a {title("deductions")}
+                    <ArrowRight className="ml-2 h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </TabsContent>
+          )}
+
           <TabsContent value="income" className="mt-6">
             <Form {...incomeForm}>
               <form
@@ -733,21 +928,17 @@ export function ManualFormFilling({
               >
                 <div className="flex items-center justify-between">
                   <h3 className="text-lg font-medium">
-                    Información de Ingresos
+                    Información de {title("income")}
                   </h3>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <Button
+                          type="button"
                           variant="outline"
                           size="sm"
                           className="flex items-center gap-1"
-                          onClick={() => {
-                            toast.info("Calculadora", {
-                              description:
-                                "Esta funcionalidad estará disponible próximamente.",
-                            });
-                          }}
+                          onClick={handleCalculate}
                         >
                           <Calculator className="h-4 w-4" />
                           <span className="hidden sm:inline">Calculadora</span>
@@ -760,8 +951,8 @@ export function ManualFormFilling({
                 <Separator />
 
                 <div className="space-y-4">
-                  {Object.entries(getIncomeFields()).map(
-                    ([fieldName, fieldLabel]) => (
+                  {Object.keys(getFormFields(formType, "income")).map(
+                    (fieldName) => (
                       <FormField
                         key={fieldName}
                         control={incomeForm.control}
@@ -769,7 +960,10 @@ export function ManualFormFilling({
                         render={({ field }) => (
                           <FormItem>
                             <div className="flex flex-row items-center justify-between">
-                              <FormLabel>{fieldLabel as string} (€)</FormLabel>
+                              <FormLabel>
+                                {getFieldLabel(formType, fieldName)}
+                                {!isCountField(formType, fieldName) && " (€)"}
+                              </FormLabel>
                               <TooltipProvider>
                                 <Tooltip>
                                   <TooltipTrigger asChild>
@@ -782,7 +976,7 @@ export function ManualFormFilling({
                                     </Button>
                                   </TooltipTrigger>
                                   <TooltipContent>
-                                    {getIncomeHelpText(fieldName)}
+                                    {getFieldHelpText(formType, fieldName)}
                                   </TooltipContent>
                                 </Tooltip>
                               </TooltipProvider>
@@ -790,8 +984,16 @@ export function ManualFormFilling({
                             <FormControl>
                               <Input
                                 type="number"
-                                min="0"
-                                step="0.01"
+                                min={
+                                  isSignedField(formType, fieldName)
+                                    ? undefined
+                                    : "0"
+                                }
+                                step={
+                                  isCountField(formType, fieldName)
+                                    ? "1"
+                                    : "0.01"
+                                }
                                 {...field}
                                 value={field.value === "0" ? "" : field.value}
                                 onChange={(e) => {
@@ -808,43 +1010,21 @@ export function ManualFormFilling({
                     )
                   )}
 
-                  {/* Display auto-calculated fields if any */}
-                  {Object.keys(autoCalculatedFields).length > 0 && (
-                    <div className="mt-6 p-4 bg-muted/20 rounded-lg border">
-                      <h4 className="text-sm font-medium mb-2">
-                        Resultados calculados
-                      </h4>
-                      <div className="space-y-2">
-                        {Object.entries(autoCalculatedFields).map(
-                          ([key, value]) => (
-                            <div
-                              key={key}
-                              className="flex justify-between items-center text-sm"
-                            >
-                              <span>{getCalculatedFieldLabel(key)}</span>
-                              <span className="font-medium">
-                                {formatCurrency(value)}
-                              </span>
-                            </div>
-                          )
-                        )}
-                      </div>
-                    </div>
-                  )}
+                  {calculation && <CalculationSummary breakdown={calculation} />}
                 </div>
 
                 <div className="flex justify-between pt-4">
                   <Button
                     type="button"
                     variant="outline"
-                    onClick={() => setActiveTab("personal")}
+                    onClick={() => setActiveTab(beforeIncomeTab)}
                   >
                     <ArrowLeft className="mr-2 h-4 w-4" />
-                    Volver a Información Personal
+                    Volver a {title(beforeIncomeTab)}
                   </Button>
 
                   <Button type="submit">
-                    Continuar a Deducciones
+                    Continuar a {title("deductions")}
                     <ArrowRight className="ml-2 h-4 w-4" />
                   </Button>
                 </div>
@@ -859,13 +1039,13 @@ export function ManualFormFilling({
                 className="space-y-6"
               >
                 <h3 className="text-lg font-medium">
-                  Información de Deducciones
+                  Información de {title("deductions")}
                 </h3>
                 <Separator />
 
                 <div className="space-y-4">
-                  {Object.entries(getDeductionFields()).map(
-                    ([fieldName, fieldLabel]) => (
+                  {Object.keys(getFormFields(formType, "deductions")).map(
+                    (fieldName) => (
                       <FormField
                         key={fieldName}
                         control={deductionsForm.control}
@@ -873,7 +1053,10 @@ export function ManualFormFilling({
                         render={({ field }) => (
                           <FormItem>
                             <div className="flex flex-row items-center justify-between">
-                              <FormLabel>{fieldLabel as string} (€)</FormLabel>
+                              <FormLabel>
+                                {getFieldLabel(formType, fieldName)}
+                                {!isCountField(formType, fieldName) && " (€)"}
+                              </FormLabel>
                               <TooltipProvider>
                                 <Tooltip>
                                   <TooltipTrigger asChild>
@@ -886,7 +1069,7 @@ export function ManualFormFilling({
                                     </Button>
                                   </TooltipTrigger>
                                   <TooltipContent>
-                                    {getDeductionHelpText(fieldName)}
+                                    {getFieldHelpText(formType, fieldName)}
                                   </TooltipContent>
                                 </Tooltip>
                               </TooltipProvider>
@@ -894,8 +1077,16 @@ export function ManualFormFilling({
                             <FormControl>
                               <Input
                                 type="number"
-                                min="0"
-                                step="0.01"
+                                min={
+                                  isSignedField(formType, fieldName)
+                                    ? undefined
+                                    : "0"
+                                }
+                                step={
+                                  isCountField(formType, fieldName)
+                                    ? "1"
+                                    : "0.01"
+                                }
                                 {...field}
                                 value={field.value === "0" ? "" : field.value}
                                 onChange={(e) => {
@@ -911,6 +1102,13 @@ export function ManualFormFilling({
                       />
                     )
                   )}
+
+                  {formDefinition.settlement && (
+                    <SettlementOption
+                      value={settlement}
+                      onChange={setSettlement}
+                    />
+                  )}
                 </div>
 
                 <Alert className="bg-blue-50 border-blue-200">
@@ -928,10 +1126,10 @@ export function ManualFormFilling({
                   <Button
                     type="button"
                     variant="outline"
-                    onClick={() => setActiveTab("income")}
+                    onClick={() => setActiveTab(beforeDeductionsTab)}
                   >
                     <ArrowLeft className="mr-2 h-4 w-4" />
-                    Volver a Ingresos
+                    Volver a {title(beforeDeductionsTab)}
                   </Button>
 
                   <Button type="submit">
@@ -958,64 +1156,11 @@ export function ManualFormFilling({
           Cancelar
         </Button>
 
-        {!sessionSaved && (
-          <Button variant="outline" onClick={saveProgress}>
-            <Save className="mr-2 h-4 w-4" />
-            Guardar Progreso
-          </Button>
-        )}
+        <Button variant="outline" onClick={() => void saveProgress()}>
+          <Save className="mr-2 h-4 w-4" />
+          Guardar Progreso
+        </Button>
       </CardFooter>
     </Card>
   );
 }
-
-// Helper functions for field help text
-function getIncomeHelpText(fieldName: string): string {
-  const helpTexts: Record<string, string> = {
-    salaryIncome:
-      "Ingresos brutos por trabajo por cuenta ajena, incluyendo salarios, prestaciones, pensiones, etc.",
-    selfEmploymentIncome:
-      "Ingresos por actividades profesionales o empresariales (autónomos)",
-    capitalGainsIncome:
-      "Ganancias por venta de bienes, acciones u otros activos",
-    rentalIncome: "Ingresos por alquiler de inmuebles",
-    otherIncome: "Otros ingresos sujetos a declaración",
-    ivaRepercutido: "IVA cobrado a clientes en tus facturas emitidas",
-    ivaSoportado: "IVA pagado en tus compras y gastos deducibles",
-    realEstate: "Valor total de bienes inmuebles",
-    financialAssets:
-      "Valor de cuentas bancarias, depósitos y otros activos financieros",
-  };
-
-  return helpTexts[fieldName] || "Introduce el valor correspondiente";
-}
-
-function getDeductionHelpText(fieldName: string): string {
-  const helpTexts: Record<string, string> = {
-    socialSecurity: "Cotizaciones a la Seguridad Social o mutualidades",
-    pensionContributions:
-      "Aportaciones a planes de pensiones, hasta el límite legal",
-    mortgageInterest:
-      "Intereses de préstamos para vivienda habitual (solo para hipotecas anteriores a 2013)",
-    donations: "Donativos a entidades sin ánimo de lucro",
-    otherDeductions: "Otras deducciones aplicables según normativa",
-    familyDeductions: "Deducciones por maternidad, familia numerosa, etc.",
-    disabilityDeductions: "Deducciones por discapacidad propia o de familiares",
-    previousPeriodCompensation:
-      "Compensación de cuotas negativas de periodos anteriores",
-    liabilities: "Deudas que reducen el valor del patrimonio neto",
-  };
-
-  return helpTexts[fieldName] || "Introduce el valor correspondiente";
-}
-
-function getCalculatedFieldLabel(fieldName: string): string {
-  const labels: Record<string, string> = {
-    resultado: "Resultado (a ingresar)",
-    cuotaLiquida: "Cuota líquida",
-    baseImponible: "Base imponible",
-    netWorth: "Patrimonio neto",
-  };
-
-  return labels[fieldName] || fieldName;
-}
@@ -0,0 +1,72 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { isQuarterly } from "@/lib/declaration/period";
+import type {
+  DeclarationPeriod,
+  ModeloId,
+  Quarter,
+} from "@/lib/declaration/types";
+
+interface PeriodSelectProps {
+  modelo: ModeloId;
+  period: DeclarationPeriod;
+  onChange: (period: DeclarationPeriod) => void;
+}
+
+const quarters: Quarter[] = [1, 2, 3, 4];
+
+// Ejercicio and, for quarterly modelos, trimestre of the declaration
+export function PeriodSelect({
+  modelo,
+  period,
+  onChange,
+}: PeriodSelectProps): React.ReactElement {
+  const currentYear = new Date().getFullYear();
+  const years = [0, 1, 2, 3].map((offset) => currentYear - offset);
+  if (!years.includes(period.year)) years.push(period.year);
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={String(period.year)}
+        onValueChange={(year) => onChange({ ...period, year: Number(year) })}
+      >
+        <SelectTrigger className="w-28" aria-label="Ejercicio">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {years.map((year) => (
+            <SelectItem key={year} value={String(year)}>
+              {year}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isQuarterly(modelo) && (
+        <Select
+          value={String(period.quarter ?? 1)}
+          onValueChange={(quarter) =>
+            onChange({ ...period, quarter: Number(quarter) as Quarter })
+          }
+        >
+          <SelectTrigger className="w-20" aria-label="Trimestre">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {quarters.map((quarter) => (
+              <SelectItem key={quarter} value={String(quarter)}>
+                {quarter}T
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
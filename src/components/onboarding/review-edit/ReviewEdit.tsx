@@ -0,0 +1,469 @@
+import {
+  AlertCircle,
+  ArrowLeft,
+  ArrowRight,
+  Check,
+  CheckCircle2,
+  Pencil,
+  X,
+} from "lucide-react";
+import { useState } from "react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { AssetInventory } from "@/components/onboarding/asset-inventory/AssetInventory";
+import { CalculationSummary } from "@/components/onboarding/calculation-summary/CalculationSummary";
+import { CounterpartyList } from "@/components/onboarding/counterparty-list/CounterpartyList";
+import { ForeignAssetInventory } from "@/components/onboarding/foreign-asset-inventory/ForeignAssetInventory";
+import { JournalPanel } from "@/components/onboarding/journal-panel/JournalPanel";
+import { PeriodSelect } from "@/components/onboarding/period-select/PeriodSelect";
+import { SettlementOption } from "@/components/onboarding/settlement-option/SettlementOption";
+import { SummaryReconciliation } from "@/components/onboarding/summary-reconciliation/SummaryReconciliation";
+import {
+  familyFieldLabels,
+  getCalculatedFieldLabel,
+  getFieldLabel,
+  isCountField,
+  personalFieldLabels,
+} from "@/lib/declaration/fields";
+import {
+  declaresSection,
+  getFormDefinition,
+  getFormTitle,
+  getSectionTitle,
+  hasSettlement,
+} from "@/lib/declaration/forms";
+import { getDeclarationHistory } from "@/lib/declaration/history";
+import type { ChangeJournal } from "@/lib/declaration/journal";
+import { formatPeriod } from "@/lib/declaration/period";
+import {
+  getFieldSchema,
+  validateDeclaration,
+} from "@/lib/declaration/schemas";
+import type {
+  Declaration,
+  DeclarationSection,
+} from "@/lib/declaration/types";
+import { getCalculation } from "@/lib/tax/calculate";
+import { cn, formatCurrency } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface ReviewEditProps {
+  declaration: Declaration;
+  onChange: (declaration: Declaration) => void;
+  onBack: () => void;
+  onContinue: () => void;
+  // Changes made so far, to go back and forth through them
+  journal: ChangeJournal;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (id: string) => void;
+}
+
+interface ReviewField {
+  name: string;
+  label: string;
+  value: string;
+}
+
+// Turn a camelCase key into a readable label for fields without a definition
+const humanize = (key: string) =>
+  key.replace(/([A-Z])/g, " $1").trim().toLowerCase();
+
+// Values of a section as a flat record of strings
+const getSectionValues = (
+  declaration: Declaration,
+  section: DeclarationSection
+): Record<string, string> => {
+  switch (section) {
+    case "personal":
+      return { ...declaration.taxpayer };
+    case "family":
+      return declaresSection(declaration, "family")
+        ? { ...declaration.family }
+        : {};
+    // The inventories and the counterparty lists are edited as a whole, not
+    // field by field
+    case "assets":
+    case "counterparties":
+    case "foreignAssets":
+      return {};
+    case "income":
+      return { ...declaration.income };
+    case "deductions":
+      return { ...declaration.deductions };
+    case "result":
+      return { ...declaration.result };
+  }
+};
+
+export function ReviewEdit({
+  declaration,
+  onChange,
+  onBack,
+  onContinue,
+  journal,
+  onUndo,
+  onRedo,
+  onRevert,
+}: ReviewEditProps): React.ReactElement {
+  const { sections, summary } = getFormDefinition(declaration.modelo);
+  const [history] = useState(getDeclarationHistory);
+  const errors = validateDeclaration(declaration);
+  const errorCount = Object.keys(errors).length;
+  const calculation = getCalculation(declaration);
+
+  // Label every value of a section, in the order the modelo defines them
+  const getSectionFields = (section: DeclarationSection): ReviewField[] => {
+    const labels: Record<string, string> =
+      section === "personal"
+        ? personalFieldLabels
+        : section === "family"
+        ? familyFieldLabels
+        : {};
+
+    return Object.entries(getSectionValues(declaration, section)).map(
+      ([name, value]) => ({
+        name,
+        label:
+          section === "income" || section === "deductions"
+            ? getFieldLabel(declaration.modelo, name)
+            : labels[name] ??
+              (section === "result"
+                ? getCalculatedFieldLabel(name)
+                : humanize(name)),
+        value,
+      })
+    );
+  };
+
+  const handleFieldSave = (
+    section: DeclarationSection,
+    fieldName: string,
+    value: string
+  ): string | null => {
+    const parsed = getFieldSchema(
+      declaration.modelo,
+      section,
+      fieldName
+    ).safeParse(value);
+    if (!parsed.success) {
+      return parsed.error.issues[0]?.message ?? "Valor no válido";
+    }
+
+    const sectionKey = section === "personal" ? "taxpayer" : section;
+    onChange({
+      ...declaration,
+      [sectionKey]: {
+        ...getSectionValues(declaration, section),
+        [fieldName]: value,
+      },
+    } as Declaration);
+    toast.success("Campo actualizado");
+    return null;
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Revisar {getFormTitle(declaration.modelo)}</CardTitle>
+          <CardDescription>
+            Ejercicio {formatPeriod(declaration.period)}. Comprueba los datos
+            recogidos y corrige cualquier valor antes de confirmar
+          </CardDescription>
+        </div>
+        <PeriodSelect
+          modelo={declaration.modelo}
+          period={declaration.period}
+          onChange={(period) => onChange({ ...declaration, period })}
+        />
+      </CardHeader>
+
+      <CardContent className="space-y-8">
+        <JournalPanel
+          formType={declaration.modelo}
+          journal={journal}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          onRevert={onRevert}
+        />
+
+        {errorCount > 0 ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Hay datos que revisar</AlertTitle>
+            <AlertDescription>
+              {errorCount === 1
+                ? "Un campo no es válido."
+                : `${errorCount} campos no son válidos.`}{" "}
+              Corrígelos para poder continuar.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert className="bg-green-50 border-green-200">
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+            <AlertTitle className="text-green-800">Datos completos</AlertTitle>
+            <AlertDescription className="text-green-700">
+              Todos los campos han superado la validación.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {summary && (
+          <div className="space-y-3">
+            <h3 className="text-lg font-medium">
+              Conciliación con los trimestres
+            </h3>
+            <Separator />
+            <SummaryReconciliation
+              declaration={declaration}
+              history={history}
+              onChange={onChange}
+            />
+          </div>
+        )}
+
+        {sections.map((id) => {
+          const section = {
+            id,
+            title: getSectionTitle(declaration.modelo, id),
+          };
+          if (
+            section.id === "assets" &&
+            declaresSection(declaration, "assets")
+          ) {
+            return (
+              <div key={section.id} className="space-y-3">
+                <h3 className="text-lg font-medium">{section.title}</h3>
+                <Separator />
+                <AssetInventory
+                  assets={declaration.assets}
+                  onChange={(assets) => onChange({ ...declaration, assets })}
+                  errors={errors}
+                />
+              </div>
+            );
+          }
+
+          if (
+            section.id === "counterparties" &&
+            declaresSection(declaration, "counterparties")
+          ) {
+            return (
+              <div key={section.id} className="space-y-3">
+                <h3 className="text-lg font-medium">{section.title}</h3>
+                <Separator />
+                <CounterpartyList
+                  modelo={declaration.modelo}
+                  period={declaration.period}
+                  counterparties={declaration.counterparties}
+                  onChange={(counterparties) =>
+                    onChange({ ...declaration, counterparties })
+                  }
+                  errors={errors}
+                />
+              </div>
+            );
+          }
+
+          if (
+            section.id === "foreignAssets" &&
+            declaresSection(declaration, "foreignAssets")
+          ) {
+            return (
+              <div key={section.id} className="space-y-3">
+                <h3 className="text-lg font-medium">{section.title}</h3>
+                <Separator />
+                <ForeignAssetInventory
+                  assets={declaration.foreignAssets}
+                  onChange={(foreignAssets) =>
+                    onChange({ ...declaration, foreignAssets })
+                  }
+                  previous={declaration.deductions}
+                  errors={errors}
+                />
+              </div>
+            );
+          }
+
+          const fields = getSectionFields(section.id);
+          if (fields.length === 0) return null;
+
+          // Modelos with a calculation engine derive the result from the
+          // other sections, so it is shown as a breakdown instead
+          if (section.id === "result" && calculation) {
+            return (
+              <div key={section.id} className="space-y-3">
+                <h3 className="text-lg font-medium">{section.title}</h3>
+                <Separator />
+                {hasSettlement(declaration) && (
+                  <SettlementOption
+                    value={declaration.settlement}
+                    onChange={(settlement) =>
+                      onChange({ ...declaration, settlement })
+                    }
+                    error={errors["result.settlement"]}
+                  />
+                )}
+                <CalculationSummary breakdown={calculation} />
+              </div>
+            );
+          }
+
+          return (
+            <div key={section.id} className="space-y-3">
+              <h3 className="text-lg font-medium">{section.title}</h3>
+              <Separator />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {fields.map((field) => (
+                  <EditableField
+                    key={field.name}
+                    label={field.label}
+                    value={field.value}
+                    isAmount={
+                      section.id !== "personal" &&
+                      section.id !== "family" &&
+                      !isCountField(declaration.modelo, field.name)
+                    }
+                    inputType={
+                      section.id !== "personal"
+                        ? "number"
+                        : field.name === "birthDate"
+                        ? "date"
+                        : "text"
+                    }
+                    error={errors[`${section.id}.${field.name}`]}
+                    onSave={(value) =>
+                      handleFieldSave(section.id, field.name, value)
+                    }
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <CardFooter className="flex justify-between">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver
+        </Button>
+        <Button onClick={onContinue} disabled={errorCount > 0}>
+          Continuar
+          <ArrowRight className="ml-2 h-4 w-4" />
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+interface EditableFieldProps {
+  label: string;
+  value: string;
+  isAmount: boolean;
+  inputType: "text" | "number" | "date";
+  error?: string;
+  onSave: (value: string) => string | null;
+}
+
+// A single value that switches to an input when edited and only commits once
+// the new value passes validation
+function EditableField({
+  label,
+  value,
+  isAmount,
+  inputType,
+  error,
+  onSave,
+}: EditableFieldProps): React.ReactElement {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>(value);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft(value);
+    setEditError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    const saveError = onSave(isAmount ? draft || "0" : draft);
+    if (saveError) {
+      setEditError(saveError);
+      return;
+    }
+    setIsEditing(false);
+  };
+
+  const message = isEditing ? editError : error;
+
+  return (
+    <div
+      className={cn(
+        "p-3 rounded-md",
+        message ? "bg-red-50 border border-red-100" : "bg-muted/30"
+      )}
+    >
+      <span className="text-xs text-muted-foreground block">{label}</span>
+      {isEditing ? (
+        <div className="flex items-center gap-2 mt-1">
+          <Input
+            type={inputType}
+            step={inputType === "number" ? "0.01" : undefined}
+            value={draft}
+            autoFocus
+            className="h-8"
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave();
+              if (e.key === "Escape") setIsEditing(false);
+            }}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={handleSave}
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setIsEditing(false)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-2">
+          <span className={cn("font-medium", !value && "text-muted-foreground")}>
+            {isAmount ? formatCurrency(value) : value || "—"}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={startEditing}
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+      {message && <p className="text-xs text-destructive mt-1">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Modelo303Settlement } from "@/lib/declaration/types";
+import { modelo303SettlementLabels } from "@/lib/tax/modelo303";
+
+interface SettlementOptionProps {
+  value: Modelo303Settlement;
+  onChange: (value: Modelo303Settlement) => void;
+  error?: string;
+}
+
+// Choice of what to do with a negative or zero Modelo 303 result
+export function SettlementOption({
+  value,
+  onChange,
+  error,
+}: SettlementOptionProps): React.ReactElement {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="settlement">Si el resultado es negativo o cero</Label>
+      <Select
+        value={value}
+        onValueChange={(option) => onChange(option as Modelo303Settlement)}
+      >
+        <SelectTrigger id="settlement" aria-invalid={!!error}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(modelo303SettlementLabels).map(([option, label]) => (
+            <SelectItem key={option} value={option}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          La devolución solo puede solicitarse en el último trimestre (4T)
+        </p>
+      )}
+    </div>
+  );
+}
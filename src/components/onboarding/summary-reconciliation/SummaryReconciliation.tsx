@@ -0,0 +1,148 @@
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getFieldLabel, isCountField } from "@/lib/declaration/fields";
+import { getFormDefinition, getFormTitle } from "@/lib/declaration/forms";
+import {
+  getQuarterlyTotals,
+  getSummaryDifferences,
+  withSummaryTotals,
+  type SummaryDifference,
+} from "@/lib/declaration/summary";
+import type { Declaration } from "@/lib/declaration/types";
+import { cn, formatCurrency } from "@/lib/utils";
+
+interface SummaryReconciliationProps {
+  declaration: Declaration;
+  // Declarations stored on this device, where the quarters are looked up
+  history: Declaration[];
+  onChange: (declaration: Declaration) => void;
+}
+
+// Comparison of an annual summary with the stored quarters it adds up, so
+// the user only has to settle the fields that differ
+export function SummaryReconciliation({
+  declaration,
+  history,
+  onChange,
+}: SummaryReconciliationProps): React.ReactElement | null {
+  const { summary } = getFormDefinition(declaration.modelo);
+  if (!summary) return null;
+
+  const quarterly = getQuarterlyTotals(declaration, history);
+  if (!quarterly) {
+    return (
+      <Alert className="bg-amber-50 border-amber-200">
+        <AlertTriangle className="h-4 w-4 text-amber-500" />
+        <AlertTitle className="text-amber-800">
+          Sin trimestres guardados
+        </AlertTitle>
+        <AlertDescription className="text-amber-700">
+          No hay ningún {getFormTitle(summary.of)} de{" "}
+          {declaration.period.year} confirmado para este NIF: introduce los
+          totales del año a mano.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const differences = getSummaryDifferences(declaration, quarterly);
+  const format = (field: string, value: string) =>
+    isCountField(declaration.modelo, field) ? value : formatCurrency(value);
+
+  const applyTotals = (selected: SummaryDifference[]) =>
+    onChange(withSummaryTotals(declaration, selected));
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">
+          Trimestres de {getFormTitle(summary.of)}:
+        </span>
+        {([1, 2, 3, 4] as const).map((quarter) => (
+          <Badge
+            key={quarter}
+            variant={
+              quarterly.quarters.includes(quarter) ? "secondary" : "outline"
+            }
+            className={cn(
+              quarterly.missing.includes(quarter) && "text-muted-foreground"
+            )}
+          >
+            {quarter}T {quarterly.missing.includes(quarter) && "(falta)"}
+          </Badge>
+        ))}
+      </div>
+
+      {quarterly.missing.length > 0 && (
+        <p className="text-sm text-amber-700">
+          Los totales solo incluyen los trimestres guardados: añade a mano lo
+          que corresponda a los que faltan.
+        </p>
+      )}
+
+      {differences.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 className="h-4 w-4" />
+          Todos los importes coinciden con la suma de los trimestres.
+        </p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Campo</TableHead>
+                <TableHead className="text-right">Declarado</TableHead>
+                <TableHead className="text-right">Suma trimestral</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {differences.map((difference) => (
+                <TableRow key={`${difference.section}.${difference.field}`}>
+                  <TableCell>
+                    {getFieldLabel(declaration.modelo, difference.field)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {format(difference.field, difference.declared)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {format(difference.field, difference.total)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => applyTotals([difference])}
+                    >
+                      Usar total trimestral
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => applyTotals(differences)}
+            >
+              Usar todos los totales trimestrales
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { familyFieldLabels } from "./fields";
+import {
+  declaresSection,
+  formDefinitions,
+  hasSection,
+  hasSettlement,
+} from "./forms";
+import { getDefaultPeriod, parsePeriod } from "./period";
+import { emptyPersonalInfo, type PersonalInfo } from "./schemas";
+import {
+  toModeloId,
+  type CaptureMethod,
+  type Counterparty,
+  type ForeignAsset,
+  type Modelo100Family,
+  type Modelo303Settlement,
+  type PatrimonioAsset,
+  type Declaration,
+  type DeclarationOf,
+  type DeclarationPeriod,
+  type DeclarationResult,
+  type ModeloId,
+  type Quarter,
+} from "./types";
+
+// Values collected by the manual form, one record per tab
+export interface ManualFormValues {
+  personal: PersonalInfo;
+  family?: Modelo100Family;
+  income: Record<string, string>;
+  deductions: Record<string, string>;
+  settlement?: Modelo303Settlement;
+  assets?: PatrimonioAsset[];
+  counterparties?: Counterparty[];
+  foreignAssets?: ForeignAsset[];
+}
+
+// Region of a page, in page units from the top left corner
+export interface SourceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where an extracted value was read: the file, the page, the region and its
+// text, and an image of the region when the page could be rendered
+export interface FieldSource {
+  file: string;
+  page: number;
+  box: SourceBox;
+  snippet: string;
+  crop?: string;
+}
+
+// One value read from an uploaded document, with how sure the extraction is
+// of it, from 0 to 1, and whether the user has checked or corrected it
+export interface ExtractedField {
+  value: string;
+  confidence: number;
+  source: FieldSource;
+  confirmed?: boolean;
+  // Values from several documents that add up to this one
+  parts?: ExtractedField[];
+}
+
+// Data extracted from an uploaded form, keyed by where each value goes in the
+// declaration: "personal.nif", "income.base21", "result.taxDue"...
+export interface ExtractedData {
+  fields: Record<string, ExtractedField>;
+  // "2023" or "2023 - 4T", as printed on the form
+  taxYear?: ExtractedField;
+  pageCount: number;
+}
+
+// Tax data returned by the DNI/NIE lookup
+export interface TaxData {
+  personalInfo: {
+    fullName: string;
+    documentNumber: string;
+    dateOfBirth: string;
+    address: string;
+    postalCode: string;
+    city: string;
+    province: string;
+    phone: string;
+    email: string;
+  };
+  taxInfo: {
+    employmentIncome: string;
+    capitalIncome: string;
+    propertyIncome: string;
+    businessIncome: string;
+    withholdings: string;
+    deductions: {
+      socialSecurity: string;
+      personalAllowance: string;
+      pensionContributions: string;
+      mortgageDeduction: string;
+    };
+  };
+  metadata?: {
+    lastUpdated: string;
+    referenceNumber: string;
+    validUntil?: string;
+  };
+}
+
+// Figures and identification data picked up during the AI conversation
+export interface ChatCapturedValues {
+  personal: Partial<PersonalInfo>;
+  income: Record<string, string>;
+  deductions: Record<string, string>;
+}
+
+type PartialValues = Record<string, string | undefined>;
+
+interface DeclarationInput {
+  period?: DeclarationPeriod;
+  settlement?: Modelo303Settlement;
+  assets?: PatrimonioAsset[];
+  counterparties?: Counterparty[];
+  foreignAssets?: ForeignAsset[];
+  taxpayer?: Partial<PersonalInfo>;
+  family?: PartialValues;
+  income?: PartialValues;
+  deductions?: PartialValues;
+  result?: Partial<DeclarationResult>;
+}
+
+const zeroFields = (fields: object) =>
+  Object.fromEntries(Object.keys(fields).map((key) => [key, "0"]));
+
+// Keep only the fields the modelo declares, defaulting missing ones to zero
+const pickFields = (template: object, values: PartialValues) =>
+  Object.fromEntries(
+    Object.entries(template).map(([key, value]) => [key, values[key] || value])
+  );
+
+// Drop undefined entries so they don't override defaults when spread
+const definedOnly = <T extends object>(values: T = {} as T): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+
+// "Juan García López" -> first name plus the remaining surnames
+const splitFullName = (fullName: string) => {
+  const [firstName = "", ...lastNames] = fullName.trim().split(/\s+/);
+  return { firstName, lastName: lastNames.join(" ") };
+};
+
+export function createEmptyDeclaration<M extends ModeloId>(
+  modelo: M,
+  source: CaptureMethod,
+  period: DeclarationPeriod = getDefaultPeriod(modelo)
+): DeclarationOf<M> {
+  const definition = formDefinitions[modelo];
+
+  return {
+    modelo,
+    source,
+    period,
+    taxpayer: { ...emptyPersonalInfo },
+    ...(hasSection(modelo, "family") && {
+      family: zeroFields(familyFieldLabels),
+    }),
+    ...(hasSection(modelo, "assets") && { assets: [] }),
+    ...(hasSection(modelo, "counterparties") && { counterparties: [] }),
+    ...(hasSection(modelo, "foreignAssets") && { foreignAssets: [] }),
+    ...(definition.settlement && { settlement: "compensar" }),
+    income: zeroFields(definition.income),
+    deductions: zeroFields(definition.deductions),
+    result: { taxDue: "0", refund: "0" },
+  } as unknown as DeclarationOf<M>;
+}
+
+function buildDeclaration(
+  formType: string,
+  source: CaptureMethod,
+  input: DeclarationInput
+): Declaration {
+  const modelo = toModeloId(formType);
+  const empty = createEmptyDeclaration(modelo, source, input.period);
+
+  return {
+    ...empty,
+    ...(declaresSection(empty, "family") && {
+      family: pickFields(empty.family, input.family ?? {}),
+    }),
+    ...(hasSettlement(empty) &&
+      input.settlement && { settlement: input.settlement }),
+    ...(declaresSection(empty, "assets") &&
+      input.assets && { assets: input.assets }),
+    ...(declaresSection(empty, "counterparties") &&
+      input.counterparties && { counterparties: input.counterparties }),
+    ...(declaresSection(empty, "foreignAssets") &&
+      input.foreignAssets && { foreignAssets: input.foreignAssets }),
+    taxpayer: { ...empty.taxpayer, ...definedOnly(input.taxpayer) },
+    income: pickFields(empty.income, input.income ?? {}),
+    deductions: pickFields(empty.deductions, input.deductions ?? {}),
+    result: { ...empty.result, ...definedOnly(input.result) },
+  } as unknown as Declaration;
+}
+
+export function fromManualForm(
+  formType: string,
+  values: ManualFormValues
+): Declaration {
+  return buildDeclaration(formType, "manual", {
+    taxpayer: values.personal,
+    family: values.family && { ...values.family },
+    income: values.income,
+    deductions: values.deductions,
+    settlement: values.settlement,
+    assets: values.assets,
+    counterparties: values.counterparties,
+    foreignAssets: values.foreignAssets,
+  });
+}
+
+export function fromExtractedData(
+  formType: string,
+  data: ExtractedData
+): Declaration {
+  // Values of one section, without the section prefix of their keys
+  const values = (section: string) =>
+    Object.fromEntries(
+      Object.entries(data.fields)
+        .filter(([key]) => key.startsWith(`${section}.`))
+        .map(([key, field]) => [key.slice(section.length + 1), field.value])
+    );
+
+  return buildDeclaration(formType, "upload", {
+    period: parsePeriod(data.taxYear?.value, toModeloId(formType)),
+    taxpayer: values("personal"),
+    income: values("income"),
+    deductions: values("deductions"),
+    result: values("result"),
+  });
+}
+
+export function fromTaxData(formType: string, data: TaxData): Declaration {
+  const { personalInfo, taxInfo } = data;
+
+  return buildDeclaration(formType, "lookup", {
+    taxpayer: {
+      ...splitFullName(personalInfo.fullName),
+      nif: personalInfo.documentNumber,
+      birthDate: personalInfo.dateOfBirth,
+      email: personalInfo.email,
+      phone: personalInfo.phone,
+      address: personalInfo.address,
+      postalCode: personalInfo.postalCode,
+      city: personalInfo.city,
+      province: personalInfo.province.toLowerCase(),
+    },
+    income: {
+      salaryIncome: taxInfo.employmentIncome,
+      selfEmploymentIncome: taxInfo.businessIncome,
+      capitalIncome: taxInfo.capitalIncome,
+      rentalIncome: taxInfo.propertyIncome,
+    },
+    deductions: {
+      socialSecurity: taxInfo.deductions.socialSecurity,
+      pensionContributions: taxInfo.deductions.pensionContributions,
+      mortgageInterest: taxInfo.deductions.mortgageDeduction,
+      withholdings: taxInfo.withholdings,
+    },
+  });
+}
+
+export function fromChatValues(
+  formType: string,
+  values: ChatCapturedValues
+): Declaration {
+  return buildDeclaration(formType, "ai", {
+    taxpayer: values.personal,
+    income: values.income,
+    deductions: values.deductions,
+  });
+}
+
+// Rows read from an imported list of counterparties, plus a message for
+// every line that couldn't be read
+export interface CounterpartyImport {
+  counterparties: Counterparty[];
+  errors: string[];
+}
+
+// Spreadsheets export amounts the Spanish way ("1.234,56 €"); empty cells
+// are zero
+const parseImportedAmount = (value: string): string | null => {
+  let amount = value.replace(/[\s€]/g, "");
+  if (/,\d{1,2}$/.test(amount)) {
+    amount = amount.replace(/\./g, "").replace(",", ".");
+  }
+  if (!amount) return "0";
+  return isNaN(Number(amount)) ? null : amount;
+};
+
+// One counterparty per line, as NIF, name, clave and the amount of each
+// quarter. Columns may be separated by semicolons, tabs or commas, and a
+// header line is skipped
+export function parseCounterparties(
+  text: string,
+  quarters: Quarter[]
+): CounterpartyImport {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const sample = lines.find(Boolean) ?? "";
+  const separator = sample.includes(";")
+    ? ";"
+    : sample.includes("\t")
+    ? "\t"
+    : ",";
+  const result: CounterpartyImport = { counterparties: [], errors: [] };
+
+  lines.forEach((line, index) => {
+    if (!line) return;
+    const [nif = "", name = "", key = "", ...cells] = line
+      .split(separator)
+      .map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+    const amounts = quarters.map((_, column) =>
+      parseImportedAmount(cells[column] ?? "")
+    );
+
+    if (amounts.some((amount) => amount === null)) {
+      // Column titles instead of figures
+      if (line === sample) return;
+      result.errors.push(
+        `Línea ${index + 1}: hay importes que no son válidos`
+      );
+      return;
+    }
+    if (!nif || !name) {
+      result.errors.push(`Línea ${index + 1}: faltan el NIF o el nombre`);
+      return;
+    }
+    result.counterparties.push({
+      id: crypto.randomUUID(),
+      nif: nif.toUpperCase(),
+      name,
+      key: key.toUpperCase(),
+      amounts: Object.fromEntries(
+        quarters.map((quarter, column) => [quarter, amounts[column]])
+      ),
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,79 @@
+import { getModelo130Expenses } from "@/lib/tax/modelo130";
+
+import { getFormFields, type AmountSection } from "./forms";
+import type { ModeloId } from "./types";
+
+export type CasillaValues = Record<string, number>;
+
+export interface CasillaField {
+  section: AmountSection;
+  field: string;
+}
+
+// Model field of each casilla of a modelo. Where several fields add up into
+// one casilla the first of them is taken
+export function getCasillaFields(
+  modelo: ModeloId
+): Record<string, CasillaField> {
+  const fields: Record<string, CasillaField> = {};
+  for (const section of ["income", "deductions"] as const) {
+    const definitions = getFormFields(modelo, section);
+    for (const [field, definition] of Object.entries(definitions)) {
+      if (definition.casilla && !fields[definition.casilla]) {
+        fields[definition.casilla] = { section, field };
+      }
+    }
+  }
+  return fields;
+}
+
+type CasillaReader = (
+  casillas: CasillaValues,
+  year: number
+) => Record<AmountSection, CasillaValues>;
+
+// Modelos whose casillas are not one field each
+const casillaReaders: Partial<Record<ModeloId, CasillaReader>> = {
+  // Casilla 01 adds up both kinds of ingresos and 02 the gastos plus the
+  // difícil justificación, so they come back as a single figure
+  modelo130: (casillas, year) => ({
+    income: { selfEmploymentIncome: casillas["01"] ?? 0 },
+    deductions: {
+      otherDeductions: getModelo130Expenses(
+        casillas["01"] ?? 0,
+        casillas["02"] ?? 0,
+        year
+      ),
+      previousPayments: casillas["05"] ?? 0,
+      withholdings: casillas["06"] ?? 0,
+      negativeResults: casillas["15"] ?? 0,
+    },
+  }),
+};
+
+// Whether every casilla is read straight into one field
+export function hasDirectCasillas(modelo: ModeloId): boolean {
+  return !casillaReaders[modelo];
+}
+
+// Income and deductions behind the casillas of a filed form. Casillas that
+// are missing count as zero
+export function readCasillas(
+  modelo: ModeloId,
+  casillas: CasillaValues,
+  year: number
+): Record<AmountSection, CasillaValues> {
+  const reader = casillaReaders[modelo];
+  if (reader) return reader(casillas, year);
+
+  const sections: Record<AmountSection, CasillaValues> = {
+    income: {},
+    deductions: {},
+  };
+  for (const [casilla, { section, field }] of Object.entries(
+    getCasillaFields(modelo)
+  )) {
+    sections[section][field] = casillas[casilla] ?? 0;
+  }
+  return sections;
+}
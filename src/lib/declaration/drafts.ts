@@ -0,0 +1,251 @@
+import type { ManualFormValues } from "./adapters";
+import { getDeclarationKey } from "./history";
+import type { ChangeJournal } from "./journal";
+import type { Declaration, DeclarationPeriod, ModeloId } from "./types";
+import {
+  forgetPassphrase,
+  getRecordName,
+  getVaultSettings,
+  hasPassphrase,
+  open,
+  restoreVaultSettings,
+  seal,
+  setPassphrase,
+  unlock,
+  type Sealed,
+  type VaultSettings,
+} from "./vault";
+
+const databaseName = "impuai";
+const databaseVersion = 2;
+const storeName = "drafts";
+// Settings of the passphrase the drafts are sealed with, under settingsKey,
+// so that both change in the same transaction
+const settingsStoreName = "settings";
+const settingsKey = "vault";
+
+// A declaration still being filled in, kept on this device to pick it up
+// where it was left
+export interface Draft {
+  id: string;
+  modelo: ModeloId;
+  // Empty until the taxpayer has been entered
+  nif: string;
+  period: DeclarationPeriod;
+  // Wizard step and filling method it was left at
+  step: string;
+  method: string | null;
+  // Values of the manual form, tab by tab
+  values?: ManualFormValues;
+  // Declaration captured by any of the methods, once there is one
+  declaration?: Declaration;
+  // Changes made so far, which can still be undone after resuming
+  journal?: ChangeJournal;
+  updatedAt: string;
+}
+
+export type DraftInput = Omit<Draft, "id" | "nif" | "updatedAt">;
+
+// Drafts are sealed under a keyed hash of their id while a passphrase is set,
+// so that not even the key of the record gives the NIF away
+type StoredDraft = Draft | (Sealed & { id: string });
+
+const isSealed = (record: StoredDraft): record is Sealed & { id: string } =>
+  "data" in record;
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, databaseVersion);
+    request.onupgradeneeded = ({ oldVersion }) => {
+      if (oldVersion < 1) {
+        request.result.createObjectStore(storeName, { keyPath: "id" });
+      }
+      if (oldVersion < 2) {
+        // The settings used to live in localStorage only
+        const settings = request.result.createObjectStore(settingsStoreName);
+        const stored = getVaultSettings();
+        if (stored) settings.put(stored, settingsKey);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readRecords = async (): Promise<StoredDraft[]> => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<StoredDraft[]>((resolve, reject) => {
+      const request = database
+        .transaction(storeName, "readonly")
+        .objectStore(storeName)
+        .getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+// Apply every change in one transaction, which is kept whole or not at all
+const writeRecords = async (
+  change: (store: IDBObjectStore, settings: IDBObjectStore) => void
+): Promise<void> => {
+  const database = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(
+        [storeName, settingsStoreName],
+        "readwrite"
+      );
+      change(
+        transaction.objectStore(storeName),
+        transaction.objectStore(settingsStoreName)
+      );
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+const toDraft = (record: StoredDraft) =>
+  isSealed(record) ? open<Draft>(record) : Promise.resolve(record);
+
+// Drafts sealed before their records were named after them were kept under
+// random ids: the latest of each draft is moved to its name, the rest dropped
+const moveUnnamedRecords = async (records: StoredDraft[], drafts: Draft[]) => {
+  const names = await Promise.all(
+    drafts.map((draft) => getRecordName(draft.id))
+  );
+  const unnamed = records.filter(({ id }, index) => id !== names[index]);
+  if (unnamed.length === 0) return;
+
+  const latest = new Map<string, number>();
+  drafts.forEach((draft, index) => {
+    const current = latest.get(names[index]);
+    if (
+      current === undefined ||
+      drafts[current].updatedAt < draft.updatedAt
+    ) {
+      latest.set(names[index], index);
+    }
+  });
+  await writeRecords((store) => {
+    unnamed.forEach(({ id }) => store.delete(id));
+    latest.forEach((index, name) => {
+      if (records[index].id !== name) store.put({ ...records[index], id: name });
+    });
+  });
+};
+
+// Take the passphrase settings stored with the drafts as the ones in force,
+// as a change of passphrase may have stopped before copying them elsewhere
+export async function loadPassphraseSettings(): Promise<void> {
+  const database = await openDatabase();
+  try {
+    const settings = await new Promise<VaultSettings | undefined>(
+      (resolve, reject) => {
+        const request = database
+          .transaction(settingsStoreName, "readonly")
+          .objectStore(settingsStoreName)
+          .get(settingsKey);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }
+    );
+    restoreVaultSettings(settings ?? null);
+  } finally {
+    database.close();
+  }
+}
+
+// Most recently edited first
+export async function getDrafts(): Promise<Draft[]> {
+  const records = await readRecords();
+  const drafts = await Promise.all(records.map(toDraft));
+  await moveUnnamedRecords(records, drafts);
+  const latest = new Map(
+    [...drafts]
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+      .map((draft) => [draft.id, draft])
+  );
+  return [...latest.values()].sort((a, b) =>
+    b.updatedAt.localeCompare(a.updatedAt)
+  );
+}
+
+// Drafts are kept by taxpayer, modelo and period, which may only be known
+// part way through: the draft saved under an earlier key is moved. The old
+// record goes and the new one is written in the same transaction, so saves
+// close together can't leave two records of one draft
+export async function saveDraft(
+  input: DraftInput,
+  previousId?: string | null
+): Promise<Draft> {
+  const nif =
+    input.declaration?.taxpayer.nif ?? input.values?.personal.nif ?? "";
+  const period = input.declaration?.period ?? input.period;
+  const draft: Draft = {
+    ...input,
+    id: getDeclarationKey(input.modelo, nif, period),
+    nif,
+    period,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const sealed = await seal(draft);
+  const name = await getRecordName(draft.id);
+  const previousName =
+    previousId && previousId !== draft.id
+      ? await getRecordName(previousId)
+      : null;
+  await writeRecords((store) => {
+    if (previousName) store.delete(previousName);
+    store.put(sealed ? { ...sealed, id: name } : draft);
+  });
+  return draft;
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  const name = await getRecordName(id);
+  await writeRecords((store) => store.delete(name));
+}
+
+// Seal every draft with a new passphrase. The current one is needed to read
+// them when there is one already. The drafts and the settings of the new key
+// are written together, so an interruption leaves either the old or the new
+// passphrase working
+export async function changeDraftPassphrase(
+  current: string,
+  next: string
+): Promise<boolean> {
+  await loadPassphraseSettings();
+  if (hasPassphrase() && !(await unlock(current))) return false;
+
+  const drafts = await getDrafts();
+  await setPassphrase(next, async (sealNew, nameNew, settings) => {
+    const records = await Promise.all(
+      drafts.map(async (draft) => ({
+        ...(await sealNew(draft)),
+        id: await nameNew(draft.id),
+      }))
+    );
+    await writeRecords((store, settingsStore) => {
+      store.clear();
+      records.forEach((record) => store.put(record));
+      settingsStore.put(settings, settingsKey);
+    });
+  });
+  return true;
+}
+
+// Remove every draft and the passphrase, leaving nothing on the device
+export async function wipeDrafts(): Promise<void> {
+  await writeRecords((store, settings) => {
+    store.clear();
+    settings.clear();
+  });
+  forgetPassphrase();
+}
@@ -0,0 +1,92 @@
+import { getFormFields, type FormFieldDefinition } from "./forms";
+import type { PersonalInfo } from "./schemas";
+import type { Modelo100Family } from "./types";
+
+// Definition of an income or deductions field of the modelo
+const getField = (
+  formType: string,
+  fieldName: string
+): FormFieldDefinition | undefined =>
+  getFormFields(formType, "income")[fieldName] ??
+  getFormFields(formType, "deductions")[fieldName];
+
+// Field label prefixed with its casilla number ("[07] Base imponible al 21%")
+export function getFieldLabel(formType: string, fieldName: string): string {
+  const field = getField(formType, fieldName);
+  if (!field) return fieldName;
+  return field.casilla ? `[${field.casilla}] ${field.label}` : field.label;
+}
+
+export function getFieldHelpText(formType: string, fieldName: string): string {
+  return (
+    getField(formType, fieldName)?.help ?? "Introduce el valor correspondiente"
+  );
+}
+
+export function isSignedField(formType: string, fieldName: string): boolean {
+  return getField(formType, fieldName)?.type === "signedAmount";
+}
+
+export function isCountField(formType: string, fieldName: string): boolean {
+  return getField(formType, fieldName)?.type === "count";
+}
+
+export const personalFieldLabels: Record<keyof PersonalInfo, string> = {
+  firstName: "Nombre",
+  lastName: "Apellidos",
+  nif: "DNI/NIE",
+  birthDate: "Fecha de Nacimiento",
+  email: "Email",
+  phone: "Teléfono",
+  address: "Dirección",
+  postalCode: "Código Postal",
+  city: "Ciudad",
+  province: "Provincia",
+};
+
+export const familyFieldLabels: Record<keyof Modelo100Family, string> = {
+  descendants: "Descendientes menores de 25 años",
+  descendantsUnder3: "De ellos, menores de 3 años",
+  ascendantsOver65: "Ascendientes mayores de 65 años a cargo",
+  ascendantsOver75: "De ellos, mayores de 75 años",
+  disabilityDegree: "Grado de discapacidad del declarante (%)",
+};
+
+// Help texts of the family situation fields
+export function getFamilyHelpText(fieldName: string): string {
+  const helpTexts: Record<string, string> = {
+    descendants:
+      "Hijos menores de 25 años (o con discapacidad) que conviven contigo y no tienen rentas superiores a 8.000 €",
+    descendantsUnder3: "Incrementa el mínimo por descendientes en 2.800 € cada uno",
+    ascendantsOver65:
+      "Padres o abuelos que conviven contigo al menos la mitad del año",
+    ascendantsOver75: "Incrementa el mínimo por ascendientes en 1.400 € cada uno",
+    disabilityDegree:
+      "Grado reconocido: a partir del 33% se aplica el mínimo por discapacidad",
+  };
+
+  return helpTexts[fieldName] || "Introduce el valor correspondiente";
+}
+
+export function getCalculatedFieldLabel(fieldName: string): string {
+  const labels: Record<string, string> = {
+    resultado: "Resultado (a ingresar)",
+    cuotaLiquida: "Cuota líquida",
+    baseImponible: "Base imponible",
+    netWorth: "Patrimonio neto",
+    taxDue: "A ingresar",
+    refund: "A devolver",
+  };
+
+  return labels[fieldName] || fieldName;
+}
+
+// Label of a declaration value keyed by its section ("income.base21")
+export function getDeclarationFieldLabel(formType: string, key: string): string {
+  const [section, fieldName] = key.split(".");
+  if (section === "personal") {
+    return personalFieldLabels[fieldName as keyof PersonalInfo] ?? fieldName;
+  }
+  if (section === "result") return getCalculatedFieldLabel(fieldName);
+  return getFieldLabel(formType, fieldName);
+}
@@ -0,0 +1,1034 @@
+import { calculateIrpf } from "@/lib/tax/irpf";
+import { calculateModelo130, withPreviousQuarters } from "@/lib/tax/modelo130";
+import { calculateModelo111, getModelo111Errors } from "@/lib/tax/modelo111";
+import { calculateModelo115, getModelo115Errors } from "@/lib/tax/modelo115";
+import { calculateModelo180, aggregateModelo115 } from "@/lib/tax/modelo180";
+import { calculateModelo190, aggregateModelo111 } from "@/lib/tax/modelo190";
+import { calculateModelo303, getSettlementError } from "@/lib/tax/modelo303";
+import {
+  calculateModelo347,
+  getModelo347Errors,
+  modelo347Keys,
+} from "@/lib/tax/modelo347";
+import {
+  calculateModelo349,
+  getModelo349Errors,
+  modelo349Keys,
+} from "@/lib/tax/modelo349";
+import { aggregateModelo303, calculateModelo390 } from "@/lib/tax/modelo390";
+import {
+  calculateModelo720,
+  getModelo720Errors,
+  withPreviousModelo720,
+} from "@/lib/tax/modelo720";
+import { calculatePatrimonio, withIrpfData } from "@/lib/tax/patrimonio";
+import type { CalculationBreakdown } from "@/lib/tax/types";
+
+import {
+  modeloIds,
+  toModeloId,
+  type Declaration,
+  type DeclarationOf,
+  type DeclarationSection,
+  type Modelo111Deductions,
+  type Modelo111Income,
+  type Modelo115Deductions,
+  type Modelo115Income,
+  type Modelo303Deductions,
+  type Modelo303Income,
+  type Modelo303Settlement,
+  type ModeloId,
+} from "./types";
+
+// Adjustments of previous periods are the only amounts that can be negative;
+// counts (número de perceptores) are whole numbers
+export type FormFieldType = "amount" | "signedAmount" | "count";
+
+export interface FormFieldDefinition {
+  label: string;
+  help?: string;
+  // Official casilla number, for modelos that have them
+  casilla?: string;
+  type?: FormFieldType;
+}
+
+// Sections whose values are a flat record of amounts
+export type AmountSection = "income" | "deductions";
+
+type FieldsOf<T> = Record<keyof T, FormFieldDefinition>;
+
+export type Periodicity = "annual" | "quarterly";
+
+// Everything the wizard needs to know about a modelo. Adding a modelo means
+// adding its declaration types and an entry here
+export interface FormDefinition<M extends ModeloId = ModeloId> {
+  id: M;
+  name: string;
+  // Short name of the tax, shown next to the modelo number
+  tax: string;
+  description: string;
+  periodicity: Periodicity;
+  // Blurb shown once the form is chosen; `summary` follows the modelo name
+  info: { summary: string; deadline: string; requirements: string };
+  suggestedQuestions: string[];
+  // Canned replies of the chat assistant: the filing deadlines, and answers
+  // given when a question has one of their keywords, the first match winning
+  assistant: {
+    deadlines: string;
+    answers?: { keywords: string[]; text: string }[];
+  };
+  // Sections the declaration is captured and reviewed in, in display order
+  sections: DeclarationSection[];
+  // Titles replacing the default ones where they don't fit the modelo
+  sectionTitles?: Partial<Record<DeclarationSection, string>>;
+  income: FieldsOf<DeclarationOf<M>["income"]>;
+  deductions: FieldsOf<DeclarationOf<M>["deductions"]>;
+  // Recalculate while the figures are being typed
+  liveCalculation?: boolean;
+  calculate?(declaration: DeclarationOf<M>): CalculationBreakdown;
+  // Complete a captured declaration with earlier stored ones
+  prefill?(
+    declaration: DeclarationOf<M>,
+    history: Declaration[]
+  ): DeclarationOf<M>;
+  // Cross-field rules, as error messages keyed "section.field"
+  validate?(declaration: DeclarationOf<M>): Record<string, string>;
+  // A negative result is compensated or refunded as the user chooses
+  settlement?: boolean;
+  // Annual summaries: the quarterly modelo they summarize and the yearly
+  // totals of its stored declarations (same taxpayer and year)
+  summary?: {
+    of: ModeloId;
+    aggregate(
+      quarters: Declaration[]
+    ): Pick<DeclarationOf<M>, "income" | "deductions">;
+  };
+  // Modelos declaring a list of counterparties: the claves de operación they
+  // are grouped by and how they are identified
+  counterparties?: {
+    keys: Record<string, string>;
+    identifier: string;
+  };
+}
+
+// Deadlines of the quarterly modelos: the 20th of the month after each
+// quarter, with some more days in January for the 4T of some of them
+const quarterlyDeadlines = (name: string, lastDayOfJanuary: number) =>
+  `El ${name} es trimestral, con los siguientes plazos:\n• 1T: Del 1 al 20 de abril\n• 2T: Del 1 al 20 de julio\n• 3T: Del 1 al 20 de octubre\n• 4T: Del 1 al ${lastDayOfJanuary} de enero del año siguiente`;
+
+const sectionTitles: Record<DeclarationSection, string> = {
+  personal: "Información Personal",
+  family: "Situación Familiar",
+  assets: "Bienes y Deudas",
+  counterparties: "Terceros",
+  foreignAssets: "Bienes en el Extranjero",
+  income: "Ingresos",
+  deductions: "Deducciones",
+  result: "Resultado",
+};
+
+// Fields of the quarterly modelos, which their annual summaries share
+const modelo303Income: FieldsOf<Modelo303Income> = {
+  base4: {
+    label: "Base imponible al 4%",
+    casilla: "01",
+    help: "Ventas y servicios al tipo superreducido (pan, leche, libros...)",
+  },
+  base10: {
+    label: "Base imponible al 10%",
+    casilla: "04",
+    help: "Ventas y servicios al tipo reducido (hostelería, transporte...)",
+  },
+  base21: {
+    label: "Base imponible al 21%",
+    casilla: "07",
+    help: "Ventas y servicios al tipo general",
+  },
+  intraCommunityBase: {
+    label: "Adquisiciones intracomunitarias (base)",
+    casilla: "10",
+    help: "Compras a proveedores de otros países de la UE, por las que autorepercutes el IVA",
+  },
+  intraCommunityQuota: {
+    label: "Adquisiciones intracomunitarias (cuota)",
+    casilla: "11",
+  },
+  reverseChargeBase: {
+    label: "Inversión del sujeto pasivo (base)",
+    casilla: "12",
+    help: "Operaciones en las que eres sujeto pasivo (p. ej. servicios de proveedores extranjeros)",
+  },
+  reverseChargeQuota: {
+    label: "Inversión del sujeto pasivo (cuota)",
+    casilla: "13",
+  },
+  modificationsBase: {
+    label: "Modificación de bases",
+    casilla: "14",
+    type: "signedAmount",
+    help: "Rectificaciones de facturas emitidas (descuentos, devoluciones, impagados). Puede ser negativa",
+  },
+  modificationsQuota: {
+    label: "Modificación de cuotas",
+    casilla: "15",
+    type: "signedAmount",
+  },
+  surchargeBase05: {
+    label: "Recargo de equivalencia al 0,5% (base)",
+    casilla: "16",
+    help: "Ventas a comerciantes minoristas en recargo de equivalencia al 4%",
+  },
+  surchargeBase14: {
+    label: "Recargo de equivalencia al 1,4% (base)",
+    casilla: "19",
+    help: "Ventas a comerciantes minoristas en recargo de equivalencia al 10%",
+  },
+  surchargeBase52: {
+    label: "Recargo de equivalencia al 5,2% (base)",
+    casilla: "22",
+    help: "Ventas a comerciantes minoristas en recargo de equivalencia al 21%",
+  },
+  surchargeModificationsBase: {
+    label: "Modificación de bases del recargo",
+    casilla: "25",
+    type: "signedAmount",
+  },
+  surchargeModificationsQuota: {
+    label: "Modificación de cuotas del recargo",
+    casilla: "26",
+    type: "signedAmount",
+  },
+};
+
+const modelo303Deductions: FieldsOf<Modelo303Deductions> = {
+  currentDomesticBase: {
+    label: "Operaciones interiores corrientes (base)",
+    casilla: "28",
+  },
+  currentDomesticQuota: {
+    label: "Operaciones interiores corrientes (cuota)",
+    casilla: "29",
+    help: "IVA de facturas de compras y gastos corrientes de tu actividad",
+  },
+  investmentDomesticBase: {
+    label: "Bienes de inversión interiores (base)",
+    casilla: "30",
+  },
+  investmentDomesticQuota: {
+    label: "Bienes de inversión interiores (cuota)",
+    casilla: "31",
+    help: "IVA de bienes de inversión (equipos, vehículos, inmuebles afectos)",
+  },
+  currentIntraCommunityBase: {
+    label: "Adquisiciones intracomunitarias corrientes (base)",
+    casilla: "36",
+  },
+  currentIntraCommunityQuota: {
+    label: "Adquisiciones intracomunitarias corrientes (cuota)",
+    casilla: "37",
+  },
+  investmentIntraCommunityBase: {
+    label: "Adquisiciones intracomunitarias de bienes de inversión (base)",
+    casilla: "38",
+  },
+  investmentIntraCommunityQuota: {
+    label: "Adquisiciones intracomunitarias de bienes de inversión (cuota)",
+    casilla: "39",
+  },
+  rectificationBase: {
+    label: "Rectificación de deducciones (base)",
+    casilla: "40",
+    type: "signedAmount",
+  },
+  rectificationQuota: {
+    label: "Rectificación de deducciones (cuota)",
+    casilla: "41",
+    type: "signedAmount",
+    help: "Ajustes del IVA deducido en periodos anteriores. Puede ser negativa",
+  },
+  previousPeriodCompensation: {
+    label: "Cuotas a compensar de periodos anteriores",
+    casilla: "110",
+    help: "Saldo a compensar pendiente de declaraciones anteriores (casilla 87 de tu último 303)",
+  },
+};
+
+const modelo111Income: FieldsOf<Modelo111Income> = {
+  workRecipients: {
+    label: "Trabajo: número de perceptores",
+    casilla: "01",
+    type: "count",
+    help: "Trabajadores a los que has pagado nóminas en el trimestre",
+  },
+  workPayments: {
+    label: "Trabajo: importe de las percepciones",
+    casilla: "02",
+    help: "Salarios brutos pagados en el trimestre",
+  },
+  workWithholdings: {
+    label: "Trabajo: retenciones",
+    casilla: "03",
+    help: "Retenciones de IRPF practicadas en las nóminas",
+  },
+  workInKindRecipients: {
+    label: "Trabajo en especie: número de perceptores",
+    casilla: "04",
+    type: "count",
+  },
+  workInKindPayments: {
+    label: "Trabajo en especie: valor de las percepciones",
+    casilla: "05",
+    help: "Retribuciones en especie (vehículo, vivienda, seguros...)",
+  },
+  workInKindPrepayments: {
+    label: "Trabajo en especie: ingresos a cuenta",
+    casilla: "06",
+  },
+  professionalRecipients: {
+    label: "Actividades económicas: número de perceptores",
+    casilla: "07",
+    type: "count",
+    help: "Profesionales cuyas facturas incluían retención",
+  },
+  professionalPayments: {
+    label: "Actividades económicas: importe de las percepciones",
+    casilla: "08",
+    help: "Base imponible de las facturas de profesionales recibidas",
+  },
+  professionalWithholdings: {
+    label: "Actividades económicas: retenciones",
+    casilla: "09",
+    help: "Generalmente el 15% de la base (7% en inicio de actividad)",
+  },
+  professionalInKindRecipients: {
+    label: "Actividades económicas en especie: número de perceptores",
+    casilla: "10",
+    type: "count",
+  },
+  professionalInKindPayments: {
+    label: "Actividades económicas en especie: valor de las percepciones",
+    casilla: "11",
+  },
+  professionalInKindPrepayments: {
+    label: "Actividades económicas en especie: ingresos a cuenta",
+    casilla: "12",
+  },
+  prizeRecipients: {
+    label: "Premios: número de perceptores",
+    casilla: "13",
+    type: "count",
+  },
+  prizePayments: {
+    label: "Premios: importe de las percepciones",
+    casilla: "14",
+    help: "Premios en metálico de concursos y sorteos",
+  },
+  prizeWithholdings: {
+    label: "Premios: retenciones",
+    casilla: "15",
+  },
+  imageRightsRecipients: {
+    label: "Derechos de imagen: número de perceptores",
+    casilla: "25",
+    type: "count",
+  },
+  imageRightsPayments: {
+    label: "Derechos de imagen: importe de las contraprestaciones",
+    casilla: "26",
+  },
+  imageRightsPrepayments: {
+    label: "Derechos de imagen: ingresos a cuenta",
+    casilla: "27",
+  },
+};
+
+const modelo111Deductions: FieldsOf<Modelo111Deductions> = {
+  previousResult: {
+    label: "Resultado de declaraciones anteriores",
+    casilla: "29",
+    help: "Solo en declaraciones complementarias: lo ingresado en la declaración anterior del mismo trimestre",
+  },
+};
+
+const modelo115Income: FieldsOf<Modelo115Income> = {
+  rentRecipients: {
+    label: "Número de arrendadores",
+    casilla: "01",
+    type: "count",
+    help: "Propietarios de los inmuebles que alquilas para tu actividad",
+  },
+  rentBase: {
+    label: "Base de las retenciones",
+    casilla: "02",
+    help: "Importe del alquiler sin IVA de las facturas del trimestre",
+  },
+};
+
+const modelo115Deductions: FieldsOf<Modelo115Deductions> = {
+  previousResult: {
+    label: "Resultado de declaraciones anteriores",
+    casilla: "04",
+    help: "Solo en declaraciones complementarias: lo ingresado en la declaración anterior del mismo trimestre",
+  },
+};
+
+// The summaries declare yearly totals, without the quarterly casillas
+const annualFields = <T>(fields: FieldsOf<T>): FieldsOf<T> =>
+  Object.fromEntries(
+    Object.entries<FormFieldDefinition>(fields).map(([name, field]) => [
+      name,
+      { ...field, casilla: undefined },
+    ])
+  ) as FieldsOf<T>;
+
+export const formDefinitions: { [M in ModeloId]: FormDefinition<M> } = {
+  modelo100: {
+    id: "modelo100",
+    name: "Modelo 100",
+    tax: "IRPF",
+    description: "Declaración de la Renta (IRPF)",
+    periodicity: "annual",
+    info: {
+      summary:
+        "es la declaración anual del IRPF (Impuesto sobre la Renta de las Personas Físicas) que deben presentar los contribuyentes residentes en España.",
+      deadline:
+        "Generalmente entre abril y junio del año siguiente al ejercicio fiscal.",
+      requirements:
+        "Ingresos por trabajo, rendimientos de capital, ganancias patrimoniales, deducciones aplicables.",
+    },
+    suggestedQuestions: [
+      "¿Qué es el Modelo 100?",
+      "¿Cuáles son las deducciones que puedo aplicar?",
+      "¿Necesito incluir ingresos del extranjero?",
+      "¿Cómo funcionan las deducciones por vivienda?",
+      "¿Puedo deducir gastos de autónomo?",
+    ],
+    assistant: {
+      deadlines:
+        "• Inicio: 1 de abril\n• Finalización: 30 de junio\n\nSi optas por domiciliación bancaria, el plazo termina el 25 de junio.",
+      answers: [
+        {
+          keywords: ["modelo 100"],
+          text: "El Modelo 100 es la declaración anual del IRPF (Impuesto sobre la Renta de las Personas Físicas). Este formulario es obligatorio para la mayoría de los contribuyentes en España y se presenta generalmente entre abril y junio del año siguiente al ejercicio fiscal.",
+        },
+        {
+          keywords: ["deducci"],
+          text: "Las deducciones principales en el IRPF incluyen:\n\n• Deducciones por inversión en vivienda habitual (régimen transitorio)\n• Deducciones por donativos a entidades sin ánimo de lucro\n• Deducciones por maternidad\n• Deducciones por familia numerosa o personas con discapacidad a cargo\n• Deducciones autonómicas específicas según tu comunidad\n\n¿Quieres que profundice en alguna de estas deducciones?",
+        },
+        {
+          keywords: ["extranjero", "ingresos del extranjero"],
+          text: "Sí, debes declarar todos tus ingresos mundiales en la declaración de la renta española si eres residente fiscal en España. Esto incluye salarios, rentas, intereses, dividendos y ganancias de capital obtenidos en el extranjero. Existen mecanismos para evitar la doble imposición mediante convenios fiscales entre países. Si además tienes cuentas, valores o inmuebles en el extranjero por más de 50.000 € en alguno de esos bloques, debes presentar el Modelo 720.",
+        },
+        {
+          keywords: ["vivienda"],
+          text: "Las deducciones por vivienda habitual han cambiado significativamente. Desde 2013, solo pueden aplicarla quienes compraron su vivienda habitual antes del 1 de enero de 2013. La deducción es del 15% sobre un máximo de 9.040€ anuales. Si estás pagando una hipoteca anterior a esa fecha, puedes seguir beneficiándote de esta deducción.",
+        },
+        {
+          keywords: ["autónomo", "autonomo"],
+          text: "Los autónomos pueden deducir los gastos relacionados directamente con la actividad económica, como:\n\n• Suministros de la parte de la vivienda afecta a la actividad\n• Material de oficina\n• Cuotas de autónomos a la Seguridad Social\n• Gastos de vehículo (con restricciones)\n• Seguros profesionales\n\nRecuerda que estos gastos deben estar vinculados a la actividad económica y estar debidamente justificados con facturas.",
+        },
+      ],
+    },
+    sections: ["personal", "family", "income", "deductions", "result"],
+    income: {
+      salaryIncome: {
+        label: "Rendimientos del trabajo",
+        help: "Ingresos brutos por trabajo por cuenta ajena, incluyendo salarios, prestaciones, pensiones, etc.",
+      },
+      selfEmploymentIncome: {
+        label: "Rendimientos de actividades económicas",
+        help: "Ingresos por actividades profesionales o empresariales (autónomos)",
+      },
+      capitalIncome: {
+        label: "Rendimientos del capital mobiliario",
+        help: "Intereses de cuentas y depósitos, dividendos y otros rendimientos financieros",
+      },
+      capitalGainsIncome: {
+        label: "Ganancias patrimoniales",
+        help: "Ganancias por venta de bienes, acciones u otros activos",
+      },
+      rentalIncome: {
+        label: "Rendimientos del capital inmobiliario",
+        help: "Ingresos por alquiler de inmuebles",
+      },
+      otherIncome: {
+        label: "Otros rendimientos",
+        help: "Otros ingresos sujetos a declaración",
+      },
+    },
+    deductions: {
+      socialSecurity: {
+        label: "Seguridad Social",
+        help: "Cotizaciones a la Seguridad Social o mutualidades",
+      },
+      pensionContributions: {
+        label: "Aportaciones a planes de pensiones",
+        help: "Aportaciones a planes de pensiones, hasta el límite legal",
+      },
+      mortgageInterest: {
+        label: "Intereses de hipoteca (régimen transitorio)",
+        help: "Intereses de préstamos para vivienda habitual (solo para hipotecas anteriores a 2013)",
+      },
+      donations: {
+        label: "Donativos",
+        help: "Donativos a entidades sin ánimo de lucro",
+      },
+      otherDeductions: {
+        label: "Otras deducciones",
+        help: "Otras deducciones aplicables según normativa",
+      },
+      familyDeductions: {
+        label: "Deducciones familiares",
+        help: "Deducciones por maternidad, familia numerosa, etc.",
+      },
+      disabilityDeductions: {
+        label: "Deducciones por discapacidad",
+        help: "Deducciones por discapacidad propia o de familiares",
+      },
+      withholdings: {
+        label: "Retenciones y pagos a cuenta",
+        help: "Retenciones practicadas por tu empleador, banco u otros pagadores",
+      },
+    },
+    calculate: calculateIrpf,
+  },
+  modelo303: {
+    id: "modelo303",
+    name: "Modelo 303",
+    tax: "IVA",
+    description: "Impuesto sobre el Valor Añadido (IVA)",
+    periodicity: "quarterly",
+    info: {
+      summary:
+        "es la declaración trimestral del IVA (Impuesto sobre el Valor Añadido) que deben presentar autónomos y empresas.",
+      deadline: "Trimestral (abril, julio, octubre y enero)",
+      requirements:
+        "IVA repercutido, IVA soportado, operaciones intracomunitarias.",
+    },
+    suggestedQuestions: [
+      "¿Qué es el Modelo 303?",
+      "¿Cómo calcular el IVA repercutido?",
+      "¿Puedo deducir todo el IVA soportado?",
+      "¿Cuál es el plazo de presentación?",
+      "¿Qué ocurre si tengo más IVA soportado que repercutido?",
+    ],
+    assistant: {
+      deadlines: quarterlyDeadlines("Modelo 303", 30),
+      answers: [
+        {
+          keywords: ["modelo 303"],
+          text: "El Modelo 303 es la declaración trimestral del IVA (Impuesto sobre el Valor Añadido) que deben presentar empresarios, profesionales y autónomos. En él se declaran las operaciones realizadas en el trimestre, tanto el IVA repercutido (cobrado a clientes) como el IVA soportado (pagado a proveedores).",
+        },
+        {
+          keywords: ["iva", "repercutido"],
+          text: "El IVA repercutido es el que cobras a tus clientes en tus facturas. Dependiendo del tipo de bienes o servicios, puede ser del:\n\n• 21% (tipo general)\n• 10% (tipo reducido)\n• 4% (tipo superreducido)\n\nEste IVA repercutido debe declararse en el Modelo 303 y pagarse a Hacienda, salvo la parte que puedas compensar con el IVA soportado.",
+        },
+        {
+          keywords: ["soportado", "deducir"],
+          text: "El IVA soportado es el que has pagado a tus proveedores. Para poder deducirlo en tu Modelo 303 debe cumplir varios requisitos:\n\n• Debe corresponder a bienes o servicios afectos a tu actividad económica\n• Debe estar documentado en facturas completas y correctas\n• Debe estar contabilizado y registrado en los libros\n• No debe estar excluido del derecho a deducción (como gastos de representación o vehículos no afectos al 100%)\n\n¿Necesitas más información sobre algún aspecto específico?",
+        },
+      ],
+    },
+    sections: ["personal", "income", "deductions", "result"],
+    income: modelo303Income,
+    deductions: modelo303Deductions,
+    liveCalculation: true,
+    calculate: calculateModelo303,
+    settlement: true,
+    // The Modelo 303 can only be settled the way its result allows
+    validate: (declaration): Record<string, string> => {
+      const settlementError = getSettlementError(declaration);
+      return settlementError ? { "result.settlement": settlementError } : {};
+    },
+  },
+  modelo130: {
+    id: "modelo130",
+    name: "Modelo 130",
+    tax: "Pago Fraccionado",
+    description: "Pago fraccionado empresarios y profesionales",
+    periodicity: "quarterly",
+    info: {
+      summary:
+        "es el pago fraccionado del IRPF para autónomos y profesionales en estimación directa.",
+      deadline: "Trimestral (abril, julio, octubre y enero)",
+      requirements:
+        "Ingresos y gastos trimestrales, retenciones soportadas.",
+    },
+    suggestedQuestions: [
+      "¿Qué es el Modelo 130?",
+      "¿Quién debe presentar este modelo?",
+      "¿Cómo calculo el pago fraccionado?",
+      "¿Qué gastos puedo deducir?",
+      "¿Cuál es la relación con el IRPF anual?",
+    ],
+    assistant: {
+      deadlines: quarterlyDeadlines("Modelo 130", 30),
+      answers: [
+        {
+          keywords: ["modelo 130"],
+          text: "El Modelo 130 es la declaración trimestral de pagos fraccionados del IRPF para empresarios y profesionales en estimación directa. Estos pagos son anticipos a cuenta del IRPF anual (Modelo 100) que se presentará el año siguiente.",
+        },
+        {
+          keywords: ["calcul"],
+          text: "El cálculo del Modelo 130 se realiza aplicando el 20% sobre el rendimiento neto (ingresos - gastos) obtenido desde el inicio del año hasta el final del trimestre, menos los pagos fraccionados ya realizados en trimestres anteriores del mismo año, y menos las retenciones que te hayan practicado.\n\nSi estás en estimación directa simplificada, recuerda que tienes una reducción del 5% de los gastos de difícil justificación con un límite de 2.000€ anuales.",
+        },
+        {
+          keywords: ["obligatorio", "quién", "quien"],
+          text: "Están obligados a presentar el Modelo 130 los empresarios y profesionales individuales (no sociedades) que determinen el rendimiento de sus actividades por el método de estimación directa, tanto normal como simplificada.\n\nEstán exentos los profesionales con más del 70% de sus ingresos con retención, siempre que en el año anterior hubieran tenido al menos un pago con retención.",
+        },
+      ],
+    },
+    sections: ["personal", "income", "deductions", "result"],
+    income: {
+      selfEmploymentIncome: {
+        label: "Ingresos de actividades económicas (acumulado del año)",
+        casilla: "01",
+        help: "Ingresos por actividades profesionales o empresariales (autónomos)",
+      },
+      otherIncome: {
+        label: "Otros ingresos computables (acumulado del año)",
+        casilla: "01",
+        help: "Otros ingresos sujetos a declaración",
+      },
+    },
+    deductions: {
+      socialSecurity: {
+        label: "Cuotas Seguridad Social (acumulado del año)",
+        casilla: "02",
+        help: "Cotizaciones a la Seguridad Social o mutualidades",
+      },
+      otherDeductions: {
+        label: "Gastos fiscalmente deducibles (acumulado del año)",
+        casilla: "02",
+        help: "Otras deducciones aplicables según normativa",
+      },
+      withholdings: {
+        label: "Retenciones e ingresos a cuenta (acumulado del año)",
+        casilla: "06",
+        help: "Retenciones de tus facturas desde el 1 de enero",
+      },
+      previousPayments: {
+        label: "Pagos fraccionados de trimestres anteriores",
+        casilla: "05",
+        help: "Suma de los pagos de los trimestres anteriores del año. Se rellena con los Modelos 130 que hayas confirmado",
+      },
+      negativeResults: {
+        label: "Resultados negativos de trimestres anteriores",
+        casilla: "15",
+        help: "Resultados negativos de trimestres anteriores del año pendientes de deducir",
+      },
+    },
+    calculate: calculateModelo130,
+    prefill: withPreviousQuarters,
+  },
+  modelo111: {
+    id: "modelo111",
+    name: "Modelo 111",
+    tax: "Retenciones IRPF",
+    description: "Retenciones de trabajadores y profesionales",
+    periodicity: "quarterly",
+    info: {
+      summary:
+        "es la declaración trimestral de las retenciones de IRPF practicadas a trabajadores, profesionales y otros perceptores.",
+      deadline: "Trimestral (abril, julio, octubre y enero)",
+      requirements:
+        "Número de perceptores, importe de las nóminas y facturas de profesionales del trimestre y retenciones practicadas.",
+    },
+    suggestedQuestions: [
+      "¿Qué es el Modelo 111?",
+      "¿Quién debe presentar este modelo?",
+      "¿Qué retención aplico a un profesional?",
+      "¿Cómo se declaran las retribuciones en especie?",
+      "¿Qué pasa si un trimestre no he practicado retenciones?",
+    ],
+    assistant: {
+      deadlines: quarterlyDeadlines("Modelo 111", 20),
+    },
+    sections: ["personal", "income", "deductions", "result"],
+    sectionTitles: {
+      income: "Retenciones",
+      deductions: "Declaraciones anteriores",
+    },
+    income: modelo111Income,
+    deductions: modelo111Deductions,
+    calculate: calculateModelo111,
+    validate: getModelo111Errors,
+  },
+  modelo115: {
+    id: "modelo115",
+    name: "Modelo 115",
+    tax: "Retenciones de alquileres",
+    description: "Retenciones por el alquiler de locales",
+    periodicity: "quarterly",
+    info: {
+      summary:
+        "es la declaración trimestral de las retenciones practicadas sobre el alquiler de inmuebles urbanos afectos a tu actividad.",
+      deadline: "Trimestral (abril, julio, octubre y enero)",
+      requirements:
+        "Número de arrendadores y base de las facturas de alquiler del trimestre.",
+    },
+    suggestedQuestions: [
+      "¿Qué es el Modelo 115?",
+      "¿Cuándo tengo que practicar retención sobre el alquiler?",
+      "¿Qué porcentaje de retención se aplica?",
+      "¿Qué ocurre si alquilo mi oficina en casa?",
+      "¿Qué relación tiene con el Modelo 180?",
+    ],
+    assistant: {
+      deadlines: quarterlyDeadlines("Modelo 115", 20),
+    },
+    sections: ["personal", "income", "deductions", "result"],
+    sectionTitles: {
+      income: "Alquileres",
+      deductions: "Declaraciones anteriores",
+    },
+    income: modelo115Income,
+    deductions: modelo115Deductions,
+    calculate: calculateModelo115,
+    validate: getModelo115Errors,
+  },
+  modelo390: {
+    id: "modelo390",
+    name: "Modelo 390",
+    tax: "Resumen anual IVA",
+    description: "Resumen anual de los Modelos 303",
+    periodicity: "annual",
+    info: {
+      summary:
+        "es el resumen anual del IVA, que recoge las operaciones declaradas en los Modelos 303 del ejercicio.",
+      deadline: "Del 1 al 30 de enero del año siguiente",
+      requirements:
+        "Los Modelos 303 del año. Si los has confirmado aquí, sus importes se suman automáticamente.",
+    },
+    suggestedQuestions: [
+      "¿Qué es el Modelo 390?",
+      "¿Quién está exonerado de presentar el 390?",
+      "¿Qué hago si no cuadra con los Modelos 303?",
+      "¿El 390 tiene importe a ingresar?",
+      "¿Cuál es el plazo de presentación?",
+    ],
+    assistant: {
+      deadlines:
+        "Del 1 al 30 de enero del año siguiente al ejercicio declarado.",
+    },
+    sections: ["personal", "income", "deductions", "result"],
+    income: annualFields(modelo303Income),
+    deductions: {
+      ...annualFields(modelo303Deductions),
+      previousPeriodCompensation: {
+        label: "Cuotas a compensar del ejercicio anterior",
+        help: "Saldo pendiente de compensar al empezar el año (casilla 110 del 303 del primer trimestre)",
+      },
+    },
+    calculate: calculateModelo390,
+    summary: { of: "modelo303", aggregate: aggregateModelo303 },
+  },
+  modelo190: {
+    id: "modelo190",
+    name: "Modelo 190",
+    tax: "Resumen anual de retenciones",
+    description: "Resumen anual de los Modelos 111",
+    periodicity: "annual",
+    info: {
+      summary:
+        "es el resumen anual de las retenciones de trabajadores y profesionales declaradas en los Modelos 111.",
+      deadline: "Del 1 al 31 de enero del año siguiente",
+      requirements:
+        "Los Modelos 111 del año. Si los has confirmado aquí, sus importes se suman automáticamente.",
+    },
+    suggestedQuestions: [
+      "¿Qué es el Modelo 190?",
+      "¿Qué datos de cada perceptor incluye?",
+      "¿Qué hago si no cuadra con los Modelos 111?",
+      "¿Tengo que entregar el certificado de retenciones?",
+      "¿Cuál es el plazo de presentación?",
+    ],
+    assistant: {
+      deadlines:
+        "Del 1 al 31 de enero del año siguiente al ejercicio declarado.",
+    },
+    sections: ["personal", "income", "deductions", "result"],
+    sectionTitles: {
+      income: "Retenciones del ejercicio",
+      deductions: "Ingresos trimestrales",
+    },
+    income: annualFields(modelo111Income),
+    deductions: {
+      quarterlyPayments: {
+        label: "Ingresado en los Modelos 111 del ejercicio",
+        help: "Suma de los resultados a ingresar de los cuatro trimestres",
+      },
+    },
+    calculate: calculateModelo190,
+    summary: { of: "modelo111", aggregate: aggregateModelo111 },
+  },
+  modelo180: {
+    id: "modelo180",
+    name: "Modelo 180",
+    tax: "Resumen anual de alquileres",
+    description: "Resumen anual de los Modelos 115",
+    periodicity: "annual",
+    info: {
+      summary:
+        "es el resumen anual de las retenciones sobre alquileres declaradas en los Modelos 115.",
+      deadline: "Del 1 al 31 de enero del año siguiente",
+      requirements:
+        "Los Modelos 115 del año. Si los has confirmado aquí, sus importes se suman automáticamente.",
+    },
+    suggestedQuestions: [
+      "¿Qué es el Modelo 180?",
+      "¿Qué datos del arrendador incluye?",
+      "¿Qué hago si no cuadra con los Modelos 115?",
+      "¿Cuál es el plazo de presentación?",
+    ],
+    assistant: {
+      deadlines:
+        "Del 1 al 31 de enero del año siguiente al ejercicio declarado.",
+    },
+    sections: ["personal", "income", "deductions", "result"],
+    sectionTitles: {
+      income: "Alquileres del ejercicio",
+      deductions: "Ingresos trimestrales",
+    },
+    income: annualFields(modelo115Income),
+    deductions: {
+      quarterlyPayments: {
+        label: "Ingresado en los Modelos 115 del ejercicio",
+        help: "Suma de los resultados a ingresar de los cuatro trimestres",
+      },
+    },
+    calculate: calculateModelo180,
+    summary: { of: "modelo115", aggregate: aggregateModelo115 },
+  },
+  modelo347: {
+    id: "modelo347",
+    name: "Modelo 347",
+    tax: "Operaciones con terceros",
+    description: "Declaración anual de operaciones con terceras personas",
+    periodicity: "annual",
+    info: {
+      summary:
+        "es la declaración informativa de los clientes y proveedores con los que has operado por más de 3.005,06 € en el año.",
+      deadline: "Del 1 al 28 de febrero del año siguiente",
+      requirements:
+        "El NIF, el nombre y el importe de cada trimestre de tus clientes y proveedores. Puedes importarlos desde un CSV.",
+    },
+    suggestedQuestions: [
+      "¿Quién tiene que presentar el Modelo 347?",
+      "¿Cómo se calcula el umbral de 3.005,06 €?",
+      "¿Qué clave uso para clientes y proveedores?",
+      "¿Se incluyen las operaciones con IVA?",
+      "¿Cuál es el plazo de presentación?",
+    ],
+    assistant: {
+      deadlines:
+        "Durante el mes de febrero del año siguiente al ejercicio declarado.",
+    },
+    sections: ["personal", "counterparties", "result"],
+    sectionTitles: { counterparties: "Declarados" },
+    income: {},
+    deductions: {},
+    calculate: calculateModelo347,
+    validate: getModelo347Errors,
+    counterparties: { keys: modelo347Keys, identifier: "NIF" },
+  },
+  modelo349: {
+    id: "modelo349",
+    name: "Modelo 349",
+    tax: "Operaciones intracomunitarias",
+    description: "Declaración recapitulativa de operaciones intracomunitarias",
+    periodicity: "quarterly",
+    info: {
+      summary:
+        "es la declaración informativa de las entregas, adquisiciones y servicios con empresas de otros países de la UE.",
+      deadline: "Del 1 al 20 del mes siguiente al trimestre (hasta el 30 de enero para el 4T)",
+      requirements:
+        "El NIF-IVA, el nombre y la base imponible de cada operador intracomunitario. Puedes importarlos desde un CSV.",
+    },
+    suggestedQuestions: [
+      "¿Quién tiene que presentar el Modelo 349?",
+      "¿Qué clave uso para cada operación?",
+      "¿Cómo compruebo un NIF-IVA en el VIES?",
+      "¿Cuándo se presenta mensualmente?",
+      "¿Cómo rectifico un trimestre anterior?",
+    ],
+    assistant: {
+      deadlines: quarterlyDeadlines("Modelo 349", 30),
+    },
+    sections: ["personal", "counterparties", "result"],
+    sectionTitles: { counterparties: "Operadores intracomunitarios" },
+    income: {},
+    deductions: {},
+    calculate: calculateModelo349,
+    validate: getModelo349Errors,
+    counterparties: { keys: modelo349Keys, identifier: "NIF-IVA" },
+  },
+  modelo720: {
+    id: "modelo720",
+    name: "Modelo 720",
+    tax: "Bienes en el extranjero",
+    description: "Declaración informativa de bienes y derechos en el extranjero",
+    periodicity: "annual",
+    info: {
+      summary:
+        "es la declaración informativa de cuentas, valores e inmuebles situados fuera de España cuando alguno de esos bloques supera 50.000 €.",
+      deadline: "Del 1 de enero al 31 de marzo del año siguiente",
+      requirements:
+        "País, entidad y valoración a 31 de diciembre de cada cuenta, valor o inmueble, y los totales de tu último Modelo 720 si ya lo presentaste.",
+    },
+    suggestedQuestions: [
+      "¿Quién tiene que presentar el Modelo 720?",
+      "¿Cómo se calcula el límite de 50.000 €?",
+      "¿Cuándo tengo que volver a presentarlo?",
+      "¿Cómo se valoran las cuentas y los valores?",
+      "¿Cuál es el plazo de presentación?",
+    ],
+    assistant: {
+      deadlines:
+        "Del 1 de enero al 31 de marzo del año siguiente al ejercicio declarado.",
+    },
+    sections: ["personal", "foreignAssets", "deductions", "result"],
+    sectionTitles: { deductions: "Último Modelo 720 presentado" },
+    income: {},
+    deductions: {
+      previousAccounts: {
+        label: "Cuentas declaradas en el último 720",
+        help: "Saldo total del bloque de cuentas en tu último Modelo 720; 0 si no lo declaraste",
+      },
+      previousSecurities: {
+        label: "Valores declarados en el último 720",
+        help: "Valor total del bloque de valores, seguros y rentas en tu último Modelo 720; 0 si no lo declaraste",
+      },
+      previousRealEstate: {
+        label: "Inmuebles declarados en el último 720",
+        help: "Valor total del bloque de inmuebles en tu último Modelo 720; 0 si no lo declaraste",
+      },
+    },
+    calculate: calculateModelo720,
+    prefill: withPreviousModelo720,
+    validate: getModelo720Errors,
+  },
+  modelo714: {
+    id: "modelo714",
+    name: "Modelo 714",
+    tax: "Patrimonio",
+    description: "Impuesto sobre el Patrimonio",
+    periodicity: "annual",
+    info: {
+      summary:
+        "es la declaración del Impuesto sobre el Patrimonio para personas con bienes superiores a cierto umbral.",
+      deadline: "Mismos plazos que el IRPF (generalmente abril-junio)",
+      requirements:
+        "Bienes inmuebles, cuentas bancarias, inversiones, vehículos, obras de arte, etc.",
+    },
+    suggestedQuestions: [
+      "¿Qué es el Impuesto sobre el Patrimonio?",
+      "¿Qué bienes debo declarar?",
+      "¿Cuál es el mínimo exento?",
+      "¿Cómo se valoran los inmuebles?",
+      "¿Existen bonificaciones autonómicas?",
+    ],
+    assistant: {
+      deadlines:
+        "Del 1 de abril al 30 de junio, coincidiendo con el plazo de presentación del IRPF.",
+      answers: [
+        {
+          keywords: ["modelo 714", "patrimonio"],
+          text: "El Modelo 714 es la declaración del Impuesto sobre el Patrimonio. Este impuesto grava el patrimonio neto de las personas físicas (bienes y derechos menos deudas) cuando supera cierto umbral, que varía según la Comunidad Autónoma.",
+        },
+        {
+          keywords: ["mínimo", "exento"],
+          text: "El mínimo exento general en el Impuesto sobre el Patrimonio es de 700.000€, más 300.000€ por vivienda habitual. Sin embargo, cada Comunidad Autónoma puede establecer un mínimo diferente. Por ejemplo, en Madrid está bonificado al 100%, mientras que en Cataluña el mínimo exento es de 500.000€.\n\n¿Quieres información sobre alguna Comunidad Autónoma específica?",
+        },
+        {
+          keywords: ["bien", "declar"],
+          text: "En el Impuesto sobre el Patrimonio debes declarar todos tus bienes y derechos con valor económico:\n\n• Bienes inmuebles (viviendas, terrenos, etc.)\n• Depósitos bancarios y activos financieros\n• Acciones y participaciones en empresas\n• Seguros de vida y rentas temporales o vitalicias\n• Joyas, pieles, vehículos, embarcaciones, aeronaves\n• Objetos de arte y antigüedades\n• Derechos reales y concesiones administrativas\n• Propiedad intelectual e industrial\n\nDe estos bienes, puedes restar tus deudas para calcular el patrimonio neto.",
+        },
+        {
+          keywords: ["valor", "inmueble"],
+          text: "Para valorar los inmuebles en el Impuesto sobre el Patrimonio se usa el mayor de estos tres valores:\n\n• Valor catastral\n• Valor comprobado por la Administración a efectos de otros impuestos\n• Valor de adquisición\n\nPara la vivienda habitual hay una exención de hasta 300.000€, y las deudas relacionadas con la adquisición de bienes pueden restarse de su valor.",
+        },
+      ],
+    },
+    sections: ["personal", "assets", "income", "deductions", "result"],
+    income: {
+      irpfTaxableBase: {
+        label: "Base imponible del IRPF",
+        help: "Suma de las bases imponibles general y del ahorro de tu declaración de la Renta del mismo año",
+      },
+      irpfQuota: {
+        label: "Cuotas íntegras del IRPF",
+        help: "Suma de las cuotas íntegras estatal y autonómica de tu declaración de la Renta",
+      },
+    },
+    deductions: {
+      foreignTaxDeduction: {
+        label: "Impuestos satisfechos en el extranjero",
+        help: "Impuestos de naturaleza similar pagados en el extranjero por bienes situados fuera de España",
+      },
+    },
+    calculate: calculatePatrimonio,
+    prefill: withIrpfData,
+  },
+};
+
+// Every modelo, in the order they are offered
+export const formList: FormDefinition[] = modeloIds.map(
+  (id) => formDefinitions[id]
+);
+
+// Looks up the definition for a form type, falling back to Modelo 100
+export function getFormDefinition(formType: string): FormDefinition {
+  return formDefinitions[toModeloId(formType)];
+}
+
+// "Modelo 303 (IVA)"
+export function getFormTitle(formType: string): string {
+  const { name, tax } = getFormDefinition(formType);
+  return `${name} (${tax})`;
+}
+
+export function getSectionTitle(
+  formType: string,
+  section: DeclarationSection
+): string {
+  return (
+    getFormDefinition(formType).sectionTitles?.[section] ??
+    sectionTitles[section]
+  );
+}
+
+// Field definitions of an amount section, in display order
+export function getFormFields(
+  formType: string,
+  section: AmountSection
+): Record<string, FormFieldDefinition> {
+  return getFormDefinition(formType)[section];
+}
+
+export function hasSection(
+  formType: string,
+  section: DeclarationSection
+): boolean {
+  return getFormDefinition(formType).sections.includes(section);
+}
+
+// Sections only some modelos have, kept under a key of their own
+type ModeloSection = "family" | "assets" | "counterparties" | "foreignAssets";
+
+// Whether the declaration's modelo has a section, narrowing it to the
+// declarations that carry its values
+export function declaresSection<S extends ModeloSection>(
+  declaration: Declaration,
+  section: S
+): declaration is Extract<Declaration, Record<S, unknown>> {
+  return hasSection(declaration.modelo, section);
+}
+
+// Whether the user chooses what to do with a negative result of the
+// declaration's modelo
+export function hasSettlement(
+  declaration: Declaration
+): declaration is Extract<Declaration, { settlement: Modelo303Settlement }> {
+  return getFormDefinition(declaration.modelo).settlement === true;
+}
@@ -0,0 +1,58 @@
+import type { Declaration, DeclarationPeriod, ModeloId } from "./types";
+
+const storageKey = "impuai.declarations";
+
+// A confirmed declaration kept for later periods and annual summaries
+export interface StoredDeclaration {
+  id: string;
+  declaration: Declaration;
+  savedAt: string;
+}
+
+// Key of a taxpayer, modelo and period, which drafts are kept by too
+export const getDeclarationKey = (
+  modelo: ModeloId,
+  nif: string,
+  period: DeclarationPeriod
+): string =>
+  [modelo, nif.toUpperCase(), period.year, period.quarter ?? "anual"].join(
+    "-"
+  );
+
+// One entry per taxpayer, modelo and period: confirming the same period
+// again replaces the earlier version
+const getDeclarationId = (declaration: Declaration) =>
+  getDeclarationKey(
+    declaration.modelo,
+    declaration.taxpayer.nif,
+    declaration.period
+  );
+
+export function getStoredDeclarations(): StoredDeclaration[] {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? (JSON.parse(stored) as StoredDeclaration[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Just the declarations, as the prefills of later periods use them
+export function getDeclarationHistory(): Declaration[] {
+  return getStoredDeclarations().map(({ declaration }) => declaration);
+}
+
+export function saveDeclaration(declaration: Declaration): StoredDeclaration {
+  const entry: StoredDeclaration = {
+    id: getDeclarationId(declaration),
+    declaration,
+    savedAt: new Date().toISOString(),
+  };
+  const others = getStoredDeclarations().filter(({ id }) => id !== entry.id);
+  localStorage.setItem(storageKey, JSON.stringify([...others, entry]));
+  return entry;
+}
+
+export function clearDeclarationHistory(): void {
+  localStorage.removeItem(storageKey);
+}
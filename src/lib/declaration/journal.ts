@@ -0,0 +1,218 @@
+import type { ManualFormValues } from "./adapters";
+import { formatPeriod, parsePeriod } from "./period";
+import type {
+  CaptureMethod,
+  Declaration,
+  Modelo303Settlement,
+} from "./types";
+
+// Consecutive edits of the same field within this many milliseconds are
+// kept as one change, so typing a figure doesn't log every keystroke
+const mergeWindow = 2000;
+
+// One edit of a value, keyed by its section ("income.base21"), or "period"
+// and "settlement" for the values outside the sections
+export interface JournalEntry {
+  id: string;
+  field: string;
+  oldValue: string;
+  newValue: string;
+  source: CaptureMethod;
+  at: string;
+}
+
+// Every change made to a declaration, oldest first, and the ones undone that
+// can still be redone, the most recently undone last
+export interface ChangeJournal {
+  entries: JournalEntry[];
+  undone: JournalEntry[];
+}
+
+// A value to put back in the declaration or the form after moving through
+// the journal
+export interface JournalStep {
+  journal: ChangeJournal;
+  field: string;
+  value: string;
+}
+
+export const emptyJournal: ChangeJournal = { entries: [], undone: [] };
+
+// Values as a flat record of strings; the inventories and counterparty lists
+// are edited as a whole and aren't journaled
+const flatten = (
+  sections: Record<string, Record<string, unknown> | undefined>
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(sections).flatMap(([section, values]) =>
+      Object.entries(values ?? {})
+        .filter(([, value]) => typeof value === "string")
+        .map(([name, value]) => [`${section}.${name}`, value as string])
+    )
+  );
+
+export function getDeclarationValues(
+  declaration: Declaration
+): Record<string, string> {
+  return {
+    ...flatten({
+      personal: { ...declaration.taxpayer },
+      family:
+        declaration.modelo === "modelo100"
+          ? { ...declaration.family }
+          : undefined,
+      income: { ...declaration.income },
+      deductions: { ...declaration.deductions },
+      result: { ...declaration.result },
+    }),
+    period: formatPeriod(declaration.period),
+    ...(declaration.modelo === "modelo303" && {
+      settlement: declaration.settlement,
+    }),
+  };
+}
+
+export function getManualFormValues(
+  values: ManualFormValues
+): Record<string, string> {
+  return {
+    ...flatten({
+      personal: { ...values.personal },
+      family: values.family && { ...values.family },
+      income: values.income,
+      deductions: values.deductions,
+    }),
+    ...(values.settlement && { settlement: values.settlement }),
+  };
+}
+
+// The declaration with one journaled value set
+export function setDeclarationValue(
+  declaration: Declaration,
+  field: string,
+  value: string
+): Declaration {
+  if (field === "period") {
+    return { ...declaration, period: parsePeriod(value, declaration.modelo) };
+  }
+  if (field === "settlement") {
+    return declaration.modelo === "modelo303"
+      ? { ...declaration, settlement: value as Modelo303Settlement }
+      : declaration;
+  }
+
+  const [section, name] = field.split(".");
+  const sectionKey = section === "personal" ? "taxpayer" : section;
+  const values = (declaration as unknown as Record<string, unknown>)[
+    sectionKey
+  ];
+  if (!values || typeof values !== "object") return declaration;
+  return {
+    ...declaration,
+    [sectionKey]: { ...values, [name]: value },
+  } as Declaration;
+}
+
+// Add the values that differ between two versions. Recording anything new
+// drops what was undone
+export function recordChanges(
+  journal: ChangeJournal,
+  before: Record<string, string>,
+  after: Record<string, string>,
+  source: CaptureMethod,
+  now: Date = new Date()
+): ChangeJournal {
+  const fields = [
+    ...new Set([...Object.keys(before), ...Object.keys(after)]),
+  ].filter((field) => (before[field] ?? "") !== (after[field] ?? ""));
+  if (fields.length === 0) return journal;
+
+  const at = now.toISOString();
+  const entries = fields.reduce((list, field) => {
+    const newValue = after[field] ?? "";
+    const last = list[list.length - 1];
+    const isSameEdit =
+      last?.field === field &&
+      last.source === source &&
+      now.getTime() - Date.parse(last.at) < mergeWindow;
+    if (!isSameEdit) {
+      return [
+        ...list,
+        {
+          id: crypto.randomUUID(),
+          field,
+          oldValue: before[field] ?? "",
+          newValue,
+          source,
+          at,
+        },
+      ];
+    }
+    // Typed back to where it started: nothing changed after all
+    const rest = list.slice(0, -1);
+    return newValue === last.oldValue
+      ? rest
+      : [...rest, { ...last, newValue, at }];
+  }, journal.entries);
+
+  return { entries, undone: [] };
+}
+
+export function undoChange(journal: ChangeJournal): JournalStep | null {
+  const last = journal.entries[journal.entries.length - 1];
+  if (!last) return null;
+  return {
+    journal: {
+      entries: journal.entries.slice(0, -1),
+      undone: [...journal.undone, last],
+    },
+    field: last.field,
+    value: last.oldValue,
+  };
+}
+
+export function redoChange(journal: ChangeJournal): JournalStep | null {
+  const last = journal.undone[journal.undone.length - 1];
+  if (!last) return null;
+  return {
+    journal: {
+      entries: [...journal.entries, last],
+      undone: journal.undone.slice(0, -1),
+    },
+    field: last.field,
+    value: last.newValue,
+  };
+}
+
+// Put back the value a single change replaced, whatever came after it. The
+// revert is a change of its own, so it can be undone too
+export function revertChange(
+  journal: ChangeJournal,
+  id: string,
+  current: Record<string, string>,
+  now: Date = new Date()
+): JournalStep | null {
+  const entry = journal.entries.find((change) => change.id === id);
+  if (!entry) return null;
+  const currentValue = current[entry.field] ?? "";
+  if (currentValue === entry.oldValue) return null;
+
+  return {
+    journal: {
+      entries: [
+        ...journal.entries,
+        {
+          id: crypto.randomUUID(),
+          field: entry.field,
+          oldValue: currentValue,
+          newValue: entry.oldValue,
+          source: "manual",
+          at: now.toISOString(),
+        },
+      ],
+      undone: [],
+    },
+    field: entry.field,
+    value: entry.oldValue,
+  };
+}
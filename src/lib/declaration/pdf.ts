@@ -0,0 +1,406 @@
+import {
+  pageHeight,
+  pageWidth,
+  renderPdf,
+  wrapText,
+  type PdfPage,
+} from "@/lib/pdf/document";
+import { getCalculation } from "@/lib/tax/calculate";
+import {
+  getCounterpartyQuarters,
+  getCounterpartyTotal,
+} from "@/lib/tax/counterparties";
+import { foreignAssetBlocks } from "@/lib/tax/modelo720";
+import { assetTypes, getAssetValue } from "@/lib/tax/patrimonio";
+import { downloadBlob, formatCurrency } from "@/lib/utils";
+
+import {
+  familyFieldLabels,
+  getCalculatedFieldLabel,
+  getFieldLabel,
+  isCountField,
+  personalFieldLabels,
+} from "./fields";
+import {
+  getFormDefinition,
+  getFormFields,
+  getFormTitle,
+  getSectionTitle,
+} from "./forms";
+import { formatPeriod } from "./period";
+import type { Declaration } from "./types";
+
+const margin = 50;
+const contentWidth = pageWidth - margin * 2;
+const valueColumn = 130;
+const footerHeight = 36;
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  gray?: number;
+}
+
+// Flowing layout over A4 pages: every call writes below the previous one and
+// starts a new page when the current one is full
+function createLayout() {
+  const pages: PdfPage[] = [[]];
+  let y = pageHeight - margin;
+  const page = () => pages[pages.length - 1];
+
+  const ensure = (height: number) => {
+    if (y - height < margin + footerHeight) {
+      pages.push([]);
+      y = pageHeight - margin;
+    }
+  };
+
+  const text = (value: string, options: TextOptions = {}) => {
+    const { size = 10, bold, gray } = options;
+    for (const line of wrapText(value, size, contentWidth, bold)) {
+      ensure(size * 1.4);
+      y -= size * 1.4;
+      page().push({ kind: "text", x: margin, y, text: line, size, bold, gray });
+    }
+  };
+
+  const heading = (value: string) => {
+    ensure(48);
+    y -= 24;
+    page().push({
+      kind: "text",
+      x: margin,
+      y,
+      text: value,
+      size: 13,
+      bold: true,
+    });
+    y -= 6;
+    page().push({
+      kind: "rule",
+      x1: margin,
+      y1: y,
+      x2: margin + contentWidth,
+      y2: y,
+      gray: 0.6,
+    });
+    y -= 4;
+  };
+
+  // A label with its value aligned to the right margin
+  const row = (label: string, value: string, options: TextOptions = {}) => {
+    const { size = 10, bold, gray } = options;
+    const lines = wrapText(label, size, contentWidth - valueColumn, bold);
+    ensure(lines.length * size * 1.5);
+    lines.forEach((line, index) => {
+      y -= size * 1.5;
+      page().push({ kind: "text", x: margin, y, text: line, size, bold, gray });
+      if (index === 0) {
+        page().push({
+          kind: "text",
+          x: margin + contentWidth,
+          y,
+          text: value,
+          size,
+          bold,
+          gray,
+          align: "right",
+        });
+      }
+    });
+  };
+
+  // A shaded panel holding a few lines, kept together on one page
+  const panel = (lines: { text: string; size: number; bold?: boolean }[]) => {
+    const height =
+      lines.reduce((sum, line) => sum + line.size * 1.5, 0) + 16;
+    ensure(height + 8);
+    y -= 8;
+    page().push({
+      kind: "box",
+      x: margin,
+      y: y - height,
+      width: contentWidth,
+      height,
+      gray: 0.94,
+    });
+    y -= 8;
+    for (const line of lines) {
+      y -= line.size * 1.5;
+      page().push({ kind: "text", x: margin + 12, y, ...line });
+    }
+    y -= 8;
+  };
+
+  const space = (height: number) => {
+    y -= height;
+  };
+
+  return { pages, text, heading, row, panel, space };
+}
+
+// Identifies the exact content of a declaration: any change to a value
+// gives a different hash
+export async function getDeclarationHash(
+  declaration: Declaration
+): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(declaration));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const outcomeLabels = {
+  ingresar: "A ingresar",
+  devolver: "A devolver",
+  compensar: "A compensar",
+  cero: "Resultado cero",
+};
+
+// Headline result of a declaration, from the calculation engine when there
+// is one and from the captured result otherwise
+export function getDeclarationOutcome(declaration: Declaration): {
+  label: string;
+  amount: string;
+} {
+  const calculation = getCalculation(declaration);
+  if (calculation) {
+    const outcome =
+      calculation.outcome ??
+      (calculation.result > 0
+        ? "ingresar"
+        : calculation.result < 0
+        ? "devolver"
+        : "cero");
+    return {
+      label: outcomeLabels[outcome],
+      amount: Math.abs(calculation.result).toFixed(2),
+    };
+  }
+
+  const { taxDue, refund } = declaration.result;
+  if (parseFloat(taxDue) > 0) return { label: "A ingresar", amount: taxDue };
+  if (parseFloat(refund) > 0) return { label: "A devolver", amount: refund };
+  return { label: outcomeLabels.cero, amount: "0" };
+}
+
+interface PdfMetadata {
+  generatedAt: Date;
+  hash: string;
+}
+
+// Pages of the declaration document: cover summary, the values of every
+// section casilla by casilla and the calculation breakdown
+export function buildDeclarationPages(
+  declaration: Declaration,
+  { generatedAt, hash }: PdfMetadata
+): PdfPage[] {
+  const { modelo, taxpayer, period } = declaration;
+  const definition = getFormDefinition(modelo);
+  const layout = createLayout();
+  const timestamp = generatedAt.toLocaleString("es-ES");
+  const outcome = getDeclarationOutcome(declaration);
+
+  // Cover
+  layout.text(getFormTitle(modelo), { size: 20, bold: true });
+  layout.text(definition.description, { size: 11, gray: 0.35 });
+  layout.text(`Periodo: ${formatPeriod(period)}`, { size: 11 });
+  layout.panel([
+    { text: outcome.label, size: 11 },
+    { text: formatCurrency(outcome.amount), size: 18, bold: true },
+  ]);
+
+  layout.heading("Identificación del declarante");
+  for (const [field, label] of Object.entries(personalFieldLabels)) {
+    const value = taxpayer[field as keyof typeof personalFieldLabels];
+    layout.row(label, field === "nif" ? value.toUpperCase() : value || "-");
+  }
+
+  layout.space(8);
+  layout.text(`Generado el ${timestamp}`, { size: 8, gray: 0.35 });
+  layout.text(`Huella SHA-256 de los datos: ${hash}`, { size: 8, gray: 0.35 });
+
+  for (const section of definition.sections) {
+    const title = getSectionTitle(modelo, section);
+    switch (section) {
+      case "family":
+        if (declaration.modelo !== "modelo100") break;
+        layout.heading(title);
+        for (const [field, label] of Object.entries(familyFieldLabels)) {
+          layout.row(
+            label,
+            declaration.family[field as keyof typeof familyFieldLabels] || "0"
+          );
+        }
+        break;
+
+      case "assets":
+        if (declaration.modelo !== "modelo714") break;
+        layout.heading(title);
+        for (const asset of declaration.assets) {
+          const { label } = assetTypes[asset.type];
+          layout.row(
+            `${label}: ${asset.description} (${asset.ownership}%)`,
+            formatCurrency(getAssetValue(asset).toFixed(2))
+          );
+        }
+        break;
+
+      case "counterparties": {
+        if (
+          declaration.modelo !== "modelo347" &&
+          declaration.modelo !== "modelo349"
+        ) {
+          break;
+        }
+        const quarters = getCounterpartyQuarters(period);
+        layout.heading(title);
+        for (const counterparty of declaration.counterparties) {
+          const { nif, name, key } = counterparty;
+          layout.row(
+            `${nif} ${name} (clave ${key})`,
+            formatCurrency(
+              getCounterpartyTotal(counterparty, quarters).toFixed(2)
+            )
+          );
+        }
+        break;
+      }
+
+      case "foreignAssets":
+        if (declaration.modelo !== "modelo720") break;
+        layout.heading(title);
+        for (const asset of declaration.foreignAssets) {
+          const { label } = foreignAssetBlocks[asset.block];
+          layout.row(
+            `${label}: ${asset.country} ${asset.entity} ${asset.identifier}`,
+            formatCurrency(asset.value)
+          );
+        }
+        break;
+
+      case "income":
+      case "deductions": {
+        const values = declaration[section] as Record<string, string>;
+        const fields = Object.keys(getFormFields(modelo, section));
+        if (fields.length === 0) break;
+        layout.heading(title);
+        for (const field of fields) {
+          const value = values[field] || "0";
+          layout.row(
+            getFieldLabel(modelo, field),
+            isCountField(modelo, field) ? value : formatCurrency(value)
+          );
+        }
+        break;
+      }
+
+      case "result": {
+        const calculation = getCalculation(declaration);
+        layout.heading(calculation ? "Desglose del cálculo" : title);
+        if (!calculation) {
+          for (const [field, value] of Object.entries(declaration.result)) {
+            layout.row(getCalculatedFieldLabel(field), formatCurrency(value));
+          }
+          break;
+        }
+        for (const line of calculation.lines) {
+          layout.row(
+            line.label,
+            formatCurrency(
+              (line.emphasis === "total"
+                ? Math.abs(line.amount)
+                : line.amount
+              ).toFixed(2)
+            ),
+            { bold: line.emphasis !== undefined }
+          );
+        }
+        for (const notice of calculation.notices ?? []) {
+          layout.space(4);
+          layout.text(notice, { size: 9, gray: 0.35 });
+        }
+        break;
+      }
+    }
+  }
+
+  // Footer with the page number, the taxpayer and the generation data
+  const footer = [
+    getFormTitle(modelo),
+    taxpayer.nif.toUpperCase(),
+    formatPeriod(period),
+    `Generado el ${timestamp} · ${hash.slice(0, 12)}`,
+  ].join(" · ");
+  return layout.pages.map((page, index) => [
+    ...page,
+    {
+      kind: "rule",
+      x1: margin,
+      y1: margin + 16,
+      x2: margin + contentWidth,
+      y2: margin + 16,
+      gray: 0.8,
+    },
+    { kind: "text", x: margin, y: margin, text: footer, size: 7, gray: 0.35 },
+    {
+      kind: "text",
+      x: margin + contentWidth,
+      y: margin,
+      text: `Página ${index + 1} de ${layout.pages.length}`,
+      size: 7,
+      gray: 0.35,
+      align: "right",
+    },
+  ]);
+}
+
+// "modelo303-2024-2T-12345678Z.pdf"
+export function getDeclarationFileName(declaration: Declaration): string {
+  const { modelo, period, taxpayer } = declaration;
+  return `${[
+    modelo,
+    period.year,
+    period.quarter && `${period.quarter}T`,
+    taxpayer.nif.toUpperCase(),
+  ]
+    .filter(Boolean)
+    .join("-")}.pdf`;
+}
+
+// The declaration as a PDF file, plus the hash printed on it
+export async function createDeclarationPdf(
+  declaration: Declaration,
+  generatedAt: Date = new Date()
+): Promise<{ blob: Blob; hash: string }> {
+  const { modelo, period, taxpayer } = declaration;
+  const hash = await getDeclarationHash(declaration);
+  const pages = buildDeclarationPages(declaration, { generatedAt, hash });
+  const bytes = renderPdf(pages, {
+    title: `${getFormTitle(modelo)} ${formatPeriod(period)}`,
+    author: `${taxpayer.firstName} ${taxpayer.lastName}`.trim(),
+    createdAt: generatedAt,
+  });
+  return { blob: new Blob([bytes], { type: "application/pdf" }), hash };
+}
+
+// Save the PDF of a declaration through the browser's download
+export async function downloadDeclarationPdf(
+  declaration: Declaration
+): Promise<string> {
+  const { blob, hash } = await createDeclarationPdf(declaration);
+  downloadBlob(blob, getDeclarationFileName(declaration));
+  return hash;
+}
+
+// Open the PDF of a declaration in a new tab to look at it before saving it
+export async function openDeclarationPdf(
+  declaration: Declaration
+): Promise<void> {
+  const { blob } = await createDeclarationPdf(declaration);
+  const url = URL.createObjectURL(blob);
+  window.open(url, "_blank", "noopener");
+  // The new tab loads the file by itself; release it once it had time to
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
@@ -0,0 +1,52 @@
+import { formDefinitions } from "./forms";
+import type { DeclarationPeriod, ModeloId, Quarter } from "./types";
+
+// Modelos filed every quarter; the rest are annual
+export function isQuarterly(modelo: ModeloId): boolean {
+  return formDefinitions[modelo].periodicity === "quarterly";
+}
+
+// The period a user is most likely filing today: the previous tax year for
+// annual modelos, the last closed quarter for quarterly ones
+export function getDefaultPeriod(
+  modelo: ModeloId,
+  today: Date = new Date()
+): DeclarationPeriod {
+  const year = today.getFullYear();
+  if (!isQuarterly(modelo)) {
+    return { year: year - 1 };
+  }
+
+  const currentQuarter = Math.floor(today.getMonth() / 3) + 1;
+  return currentQuarter === 1
+    ? { year: year - 1, quarter: 4 }
+    : { year, quarter: (currentQuarter - 1) as Quarter };
+}
+
+// Parse labels such as "2023" or "2023 - 4T" used by AEAT documents
+export function parsePeriod(
+  label: string | undefined,
+  modelo: ModeloId
+): DeclarationPeriod {
+  const match = label?.match(/(\d{4})(?:\s*-\s*([1-4])T)?/);
+  if (!match) {
+    return getDefaultPeriod(modelo);
+  }
+
+  const period: DeclarationPeriod = { year: parseInt(match[1], 10) };
+  if (match[2] && isQuarterly(modelo)) {
+    period.quarter = parseInt(match[2], 10) as Quarter;
+  }
+  return period;
+}
+
+export function formatPeriod(period: DeclarationPeriod): string {
+  return period.quarter
+    ? `${period.year} - ${period.quarter}T`
+    : `${period.year}`;
+}
+
+// Period as it appears in links, such as "2023" or "2023-4T"
+export function toPeriodSlug(period: DeclarationPeriod): string {
+  return formatPeriod(period).replace(/\s/g, "");
+}
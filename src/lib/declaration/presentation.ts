@@ -0,0 +1,642 @@
+import { applyCalculations, getCalculation } from "@/lib/tax/calculate";
+import type { CalculationBreakdown } from "@/lib/tax/types";
+import { downloadBlob } from "@/lib/utils";
+
+import { createEmptyDeclaration } from "./adapters";
+import {
+  getCasillaFields,
+  hasDirectCasillas,
+  readCasillas,
+  type CasillaValues,
+} from "./casillas";
+import { formDefinitions, getFormFields, type AmountSection } from "./forms";
+import { personalInfoSchema } from "./schemas";
+import type {
+  Declaration,
+  DeclarationPeriod,
+  ModeloId,
+  Modelo303Settlement,
+  Quarter,
+} from "./types";
+
+// Fichero de presentación of the AEAT record designs (diseños de registro
+// DR303, DR130, DR111 and DR115, ejercicio 2023 onwards): the
+// <T{modelo}0{ejercicio}{periodo}0000> tag, the <AUX> block and one record
+// per page of the form, then the closing tag. Every field has a fixed
+// position and length. Alphanumeric fields (An) are upper case and padded
+// with blanks on the right, numeric ones (Num) are padded with zeros on the
+// left, and amounts (N) are 17 digits in cents, with an "N" in place of the
+// first one when negative
+type FieldKind = "An" | "Num" | "N";
+
+// Data of the declaration that go in the identification fields
+type Datum =
+  | "tipo"
+  | "nif"
+  | "name"
+  | "lastName"
+  | "firstName"
+  | "year"
+  | "period"
+  | "complementaria"
+  | "summaryExemption";
+
+interface DesignField {
+  label: string;
+  kind: FieldKind;
+  length: number;
+  // Decimals of a Num field, such as the 2 of the tipos of the 303
+  decimals?: number;
+  // What goes in it: a casilla, a datum of the declaration, or a value fixed
+  // by the design (tags, indicators this app doesn't capture, blanks)
+  casilla?: string;
+  datum?: Datum;
+  fixed?: string;
+}
+
+// Fields are laid out one after the other, so their positions follow from
+// the lengths. Spaces the design leaves to the AEAT are blank fields
+const tag = (text: string): DesignField => ({
+  label: text,
+  kind: "An",
+  length: text.length,
+  fixed: text,
+});
+
+const blank = (
+  length: number,
+  label = "Reservado para la AEAT"
+): DesignField => ({ label, kind: "An", length, fixed: "" });
+
+const indicator = (label: string, value: string): DesignField => ({
+  label,
+  kind: "Num",
+  length: 1,
+  fixed: value,
+});
+
+const datum = (
+  key: Datum,
+  label: string,
+  length: number,
+  kind: FieldKind = "An"
+): DesignField => ({ label, kind, length, datum: key });
+
+const amount = (casilla: string): DesignField => ({
+  label: `Casilla ${casilla}`,
+  kind: "N",
+  length: 17,
+  casilla,
+});
+
+// Tipos and percentages, with 2 decimals
+const rate = (casilla: string): DesignField => ({
+  label: `Casilla ${casilla}`,
+  kind: "Num",
+  length: 5,
+  decimals: 2,
+  casilla,
+});
+
+// Número de perceptores
+const count = (casilla: string, length: number): DesignField => ({
+  label: `Casilla ${casilla}`,
+  kind: "Num",
+  length,
+  casilla,
+});
+
+const amounts = (...casillas: string[]) => casillas.map(amount);
+
+// A page of the form, between its <T{modelo}{página}000> tags
+const page = (
+  number: string,
+  page: string,
+  fields: DesignField[]
+): DesignField[] => [
+  tag(`<T${number}${page}000>`),
+  ...fields,
+  tag(`</T${number}${page}000>`),
+];
+
+// Start of the first page of every modelo
+const identification = (name: DesignField[]): DesignField[] => [
+  blank(1, "Indicador de página complementaria"),
+  datum("tipo", "Tipo de declaración", 1),
+  datum("nif", "NIF", 9),
+  ...name,
+  datum("year", "Ejercicio", 4, "Num"),
+  datum("period", "Periodo", 2),
+];
+
+const fullName = [
+  datum("name", "Apellidos y nombre o razón social", 80),
+];
+
+// End of the last page of the withholding modelos and the 130
+const closing: DesignField[] = [
+  datum("complementaria", "Declaración complementaria", 1),
+  blank(13, "Número de justificante de la declaración anterior"),
+  blank(34, "IBAN"),
+  blank(389),
+  blank(13, "Sello electrónico"),
+];
+
+// Block for the AEAT and the developer of the program making the file
+const auxiliary: DesignField[] = [
+  tag("<AUX>"),
+  blank(70),
+  { label: "Versión del programa", kind: "An", length: 4, fixed: "0001" },
+  blank(4),
+  blank(9, "NIF de la empresa de desarrollo"),
+  blank(213),
+  tag("</AUX>"),
+];
+
+type Outcome = NonNullable<CalculationBreakdown["outcome"]>;
+
+interface RecordDesign {
+  pages: DesignField[][];
+  // Tipo de declaración for each outcome of the calculation
+  tipos: Record<Outcome, string>;
+  // "A deducir" casilla, only filled in by complementarias
+  previousResult: string;
+}
+
+const recordDesigns = {
+  modelo303: {
+    pages: [
+      page("303", "01", [
+        ...identification(fullName),
+        indicator("Tributación exclusivamente foral", "2"),
+        indicator("Inscrito en el Registro de devolución mensual", "2"),
+        indicator("Tributa exclusivamente en régimen simplificado", "2"),
+        indicator("Autoliquidación conjunta", "2"),
+        indicator("Régimen especial del criterio de caja", "2"),
+        indicator("Destinatario de operaciones en criterio de caja", "2"),
+        indicator("Opción por la prorrata especial", "2"),
+        indicator("Revocación de la prorrata especial", "2"),
+        indicator("Declarado en concurso de acreedores", "2"),
+        blank(8, "Fecha del auto de declaración de concurso"),
+        blank(1, "Auto de declaración de concurso dictado en el periodo"),
+        indicator("Acogido voluntariamente al SII", "2"),
+        datum(
+          "summaryExemption",
+          "Exonerado de la declaración-resumen anual",
+          1,
+          "Num"
+        ),
+        indicator("Volumen anual de operaciones distinto de cero", "0"),
+        // Devengado: régimen general at each tipo, then the recargo de
+        // equivalencia
+        amount("150"),
+        rate("151"),
+        amount("152"),
+        amount("01"),
+        rate("02"),
+        amount("03"),
+        amount("153"),
+        rate("154"),
+        amount("155"),
+        amount("04"),
+        rate("05"),
+        amount("06"),
+        amount("07"),
+        rate("08"),
+        ...amounts("09", "10", "11", "12", "13", "14", "15", "156"),
+        rate("157"),
+        amount("158"),
+        amount("16"),
+        rate("17"),
+        amount("18"),
+        amount("19"),
+        rate("20"),
+        amount("21"),
+        amount("22"),
+        rate("23"),
+        ...amounts("24", "25", "26", "27"),
+        // Deducible
+        ...amounts("28", "29", "30", "31", "32", "33", "34", "35", "36"),
+        ...amounts("37", "38", "39", "40", "41", "42", "43", "44", "45"),
+        amount("46"),
+        blank(600),
+        blank(13, "Sello electrónico"),
+      ]),
+      page("303", "03", [
+        // Información adicional
+        ...amounts("59", "60", "120", "122", "123", "124", "62", "63"),
+        ...amounts("74", "75", "76"),
+        // Resultado
+        amount("64"),
+        rate("65"),
+        ...amounts("66", "77", "110", "78", "87", "68", "108", "69", "70"),
+        amount("109"),
+        amount("71"),
+        blank(1, "Declaración sin actividad"),
+        datum("complementaria", "Declaración complementaria", 1),
+        blank(13, "Número de justificante de la declaración anterior"),
+        blank(11, "SWIFT-BIC"),
+        blank(34, "IBAN"),
+        blank(600),
+        blank(13, "Sello electrónico"),
+      ]),
+    ],
+    tipos: { ingresar: "I", devolver: "D", compensar: "C", cero: "N" },
+    previousResult: "70",
+  },
+  // Only for personas físicas, so the name is split
+  modelo130: {
+    pages: [
+      page("130", "01", [
+        ...identification([
+          datum("lastName", "Apellidos", 60),
+          datum("firstName", "Nombre", 20),
+        ]),
+        // Actividades económicas en estimación directa and agrícolas
+        ...amounts("01", "02", "03", "04", "05", "06", "07"),
+        ...amounts("08", "09", "10", "11"),
+        // Total liquidación
+        ...amounts("12", "13", "14", "15", "16", "17", "18", "19"),
+        ...closing,
+      ]),
+    ],
+    // A negative 130 is declared as such, to be deducted later
+    tipos: { ingresar: "I", devolver: "N", compensar: "N", cero: "N" },
+    previousResult: "18",
+  },
+  modelo111: {
+    pages: [
+      page("111", "01", [
+        ...identification(fullName),
+        // Perceptores, percepciones and retenciones of each kind of income
+        ...[1, 4, 7, 10, 13, 16, 19, 22, 25].flatMap((first) =>
+          [first, first + 1, first + 2]
+            .map((casilla) => String(casilla).padStart(2, "0"))
+            .map((casilla, index) =>
+              index === 0 ? count(casilla, 8) : amount(casilla)
+            )
+        ),
+        ...amounts("28", "29", "30"),
+        ...closing,
+      ]),
+    ],
+    tipos: { ingresar: "I", devolver: "N", compensar: "N", cero: "N" },
+    previousResult: "29",
+  },
+  modelo115: {
+    pages: [
+      page("115", "01", [
+        ...identification(fullName),
+        count("01", 15),
+        ...amounts("02", "03", "04", "05"),
+        ...closing,
+      ]),
+    ],
+    tipos: { ingresar: "I", devolver: "N", compensar: "N", cero: "N" },
+    previousResult: "04",
+  },
+} satisfies Partial<Record<ModeloId, RecordDesign>>;
+
+type PresentationModelo = keyof typeof recordDesigns;
+
+export function hasPresentationFile(
+  modelo: ModeloId
+): modelo is PresentationModelo {
+  return modelo in recordDesigns;
+}
+
+const encodeField = (
+  field: DesignField,
+  value: string | number | undefined
+): string => {
+  if (field.kind === "An") {
+    return String(value ?? "")
+      .toUpperCase()
+      .replace(/[^\x20-\xff]/g, " ")
+      .slice(0, field.length)
+      .padEnd(field.length, " ");
+  }
+  const number = Number(value ?? 0);
+  const scale = 10 ** (field.kind === "N" ? 2 : field.decimals ?? 0);
+  const digits = String(Math.round(Math.abs(number) * scale)).padStart(
+    field.length,
+    "0"
+  );
+  return field.kind === "N" && number < 0 ? `N${digits.slice(1)}` : digits;
+};
+
+const decodeNumber = (field: DesignField, raw: string): number | null => {
+  const negative = field.kind === "N" && raw.startsWith("N");
+  const digits = negative ? raw.slice(1) : raw;
+  if (!/^\d+$/.test(digits)) return null;
+  const scale = 10 ** (field.kind === "N" ? 2 : field.decimals ?? 0);
+  const value = parseInt(digits, 10) / scale;
+  return negative ? -value : value;
+};
+
+const pageLength = (fields: DesignField[]) =>
+  fields.reduce((sum, field) => sum + field.length, 0);
+
+const modeloNumber = (modelo: ModeloId) => modelo.replace("modelo", "");
+
+// "T3030" + ejercicio + periodo + "0000", around the whole file
+const getFileTag = (modelo: ModeloId, year: number, period: string) =>
+  `T${modeloNumber(modelo)}0${year}${period}0000`;
+
+// Fields holding data or casillas, which are the ones read back
+const readableFields = (design: RecordDesign) =>
+  design.pages.flat().filter((field) => field.fixed === undefined);
+
+// The fichero de presentación of a declaration, or null for modelos
+// without a record design
+export function buildPresentationFile(
+  declaration: Declaration
+): string | null {
+  const { modelo, period, taxpayer } = declaration;
+  const calculation = getCalculation(declaration);
+  if (!hasPresentationFile(modelo) || !period.quarter || !calculation) {
+    return null;
+  }
+
+  const design: RecordDesign = recordDesigns[modelo];
+  const casillas = calculation.casillas ?? {};
+  const data: Record<Datum, string | number> = {
+    tipo: design.tipos[calculation.outcome ?? "cero"],
+    nif: taxpayer.nif.trim(),
+    name: `${taxpayer.lastName} ${taxpayer.firstName}`
+      .trim()
+      .replace(/\s+/g, " "),
+    lastName: taxpayer.lastName.trim(),
+    firstName: taxpayer.firstName.trim(),
+    year: period.year,
+    period: `${period.quarter}T`,
+    complementaria: casillas[design.previousResult] ? "X" : "",
+    // Only asked in the last period
+    summaryExemption: period.quarter === 4 ? 2 : 0,
+  };
+  const valueOf = (field: DesignField) =>
+    field.fixed ??
+    (field.casilla !== undefined
+      ? casillas[field.casilla] ?? 0
+      : field.datum && data[field.datum]);
+  const encode = (fields: DesignField[]) =>
+    fields.map((field) => encodeField(field, valueOf(field))).join("");
+
+  const fileTag = getFileTag(modelo, period.year, `${period.quarter}T`);
+  return [
+    `<${fileTag}>`,
+    encode(auxiliary),
+    ...design.pages.map(encode),
+    `</${fileTag}>`,
+  ].join("");
+}
+
+interface PresentationRecord {
+  modelo: PresentationModelo;
+  // Raw content of every readable field, keyed by its casilla or datum
+  values: Record<string, string>;
+}
+
+const fieldKey = (field: DesignField) => field.casilla ?? field.datum ?? "";
+
+// Split a fichero de presentación into its fields. Line breaks, which some
+// programs add between the records, are ignored
+const readRecord = (
+  text: string
+): { record: PresentationRecord | null; error?: string } => {
+  const content = text.replace(/[\r\n]/g, "");
+  const header = content.match(/^<T(\d{3})0(\d{4})([1-4]T)0000>/);
+  if (!header) {
+    return {
+      record: null,
+      error: "No es un fichero de presentación de la AEAT",
+    };
+  }
+
+  const modelo = `modelo${header[1]}`;
+  if (!hasPresentationFile(modelo as ModeloId)) {
+    return {
+      record: null,
+      error: `No se pueden importar ficheros del Modelo ${header[1]}`,
+    };
+  }
+  const presentationModelo = modelo as PresentationModelo;
+  const design: RecordDesign = recordDesigns[presentationModelo];
+
+  const fileTag = `T${header[1]}0${header[2]}${header[3]}0000`;
+  if (!content.endsWith(`</${fileTag}>`)) {
+    return {
+      record: null,
+      error: "El fichero está incompleto: falta la etiqueta de cierre",
+    };
+  }
+
+  const values: Record<string, string> = {};
+  for (const fields of design.pages) {
+    const [openingTag] = fields;
+    const start = content.indexOf(openingTag.fixed ?? "");
+    const length = pageLength(fields);
+    const record = content.slice(start, start + length);
+    const closingTag = fields[fields.length - 1].fixed ?? "";
+    if (start < 0 || !record.endsWith(closingTag)) {
+      return {
+        record: null,
+        error: `Falta la página ${openingTag.label} o no mide los ${length} caracteres del diseño del Modelo ${header[1]}`,
+      };
+    }
+
+    let position = 0;
+    for (const field of fields) {
+      if (field.fixed === undefined) {
+        values[fieldKey(field)] = record.slice(
+          position,
+          position + field.length
+        );
+      }
+      position += field.length;
+    }
+  }
+  return { record: { modelo: presentationModelo, values } };
+};
+
+// A declaration read from a fichero de presentación, plus what is wrong with
+// it
+export interface PresentationImport {
+  declaration: Declaration | null;
+  // Messages keyed like the validation errors ("personal.nif",
+  // "income.base21"), "file" for the structure and "casillas.<n>" for
+  // casillas that don't match the calculation
+  errors: Record<string, string>;
+}
+
+const settlementByTipo: Record<string, Modelo303Settlement> = {
+  D: "devolver",
+  C: "compensar",
+  N: "cero",
+};
+
+const formatValue = (field: DesignField, value: number) =>
+  field.kind === "Num" && !field.decimals
+    ? String(value)
+    : value.toFixed(2);
+
+// Apellidos y nombre come in one field, surnames first, which is how the
+// AEAT writes the name of personas físicas
+const splitName = (name: string) => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const surnames = words.length > 2 ? 2 : 1;
+  return {
+    lastName: words.slice(0, surnames).join(" "),
+    firstName: words.slice(surnames).join(" "),
+  };
+};
+
+// Read a fichero de presentación back into the declaration model. The
+// calculated casillas are checked against the engine of the modelo
+export function parsePresentationFile(text: string): PresentationImport {
+  const { record, error } = readRecord(text);
+  if (!record) {
+    return { declaration: null, errors: { file: error ?? "" } };
+  }
+
+  const { modelo, values } = record;
+  const fields = readableFields(recordDesigns[modelo]);
+  const casillaFields = getCasillaFields(modelo);
+  const errors: Record<string, string> = {};
+  // Errors of casillas read straight into a field go on the field
+  const errorKey = (casilla: string) => {
+    const target = hasDirectCasillas(modelo) && casillaFields[casilla];
+    return target ? `${target.section}.${target.field}` : `casillas.${casilla}`;
+  };
+
+  const nif = values.nif.trim();
+  if (!personalInfoSchema.shape.nif.safeParse(nif).success) {
+    errors["personal.nif"] = `El NIF «${nif}» no es un DNI o NIE válido`;
+  }
+
+  const year = parseInt(values.year, 10);
+  const quarter = values.period.match(/^([1-4])T$/)?.[1];
+  if (!/^\d{4}$/.test(values.year) || !quarter) {
+    errors.period = `El periodo «${values.year} ${
+      values.period
+    }» no es válido`;
+  }
+  const period: DeclarationPeriod = {
+    year: isNaN(year) ? new Date().getFullYear() : year,
+    quarter: (quarter ? parseInt(quarter, 10) : 1) as Quarter,
+  };
+
+  const casillas: CasillaValues = {};
+  for (const field of fields) {
+    if (field.casilla === undefined) continue;
+    const value = decodeNumber(field, values[field.casilla]);
+    if (value === null) {
+      errors[errorKey(field.casilla)] = `${field.label}: «${values[
+        field.casilla
+      ].trim()}» no es un número`;
+    }
+    casillas[field.casilla] = value ?? 0;
+  }
+
+  const sections = readCasillas(modelo, casillas, period.year);
+  const toSection = (section: AmountSection) => {
+    const definitions = getFormFields(modelo, section);
+    return Object.fromEntries(
+      Object.entries(sections[section]).map(([field, value]) => [
+        field,
+        definitions[field]?.type === "count"
+          ? String(value)
+          : value.toFixed(2),
+      ])
+    );
+  };
+
+  const name =
+    values.name !== undefined
+      ? splitName(values.name)
+      : {
+          lastName: values.lastName.trim(),
+          firstName: values.firstName.trim(),
+        };
+  const empty = createEmptyDeclaration(modelo, "upload", period);
+  const declaration = applyCalculations({
+    ...empty,
+    taxpayer: { ...empty.taxpayer, nif, ...name },
+    income: { ...empty.income, ...toSection("income") },
+    deductions: { ...empty.deductions, ...toSection("deductions") },
+    ...(modelo === "modelo303" && {
+      settlement: settlementByTipo[values.tipo] ?? "compensar",
+    }),
+  } as Declaration);
+
+  // The results in the file must be the ones its figures give
+  const calculated = getCalculation(declaration)?.casillas ?? {};
+  for (const field of fields) {
+    const { casilla } = field;
+    if (casilla === undefined) continue;
+    const expected = calculated[casilla] ?? 0;
+    const key = errorKey(casilla);
+    if (!errors[key] && expected !== casillas[casilla]) {
+      errors[key] = `Casilla ${casilla}: el fichero indica ${formatValue(
+        field,
+        casillas[casilla]
+      )} y el cálculo da ${formatValue(field, expected)}`;
+    }
+  }
+
+  return { declaration, errors };
+}
+
+// Build the fichero of a declaration and read it back: every field has to
+// survive the round trip through the declaration model. Returns a message
+// per field that doesn't
+export function validatePresentationFile(declaration: Declaration): string[] {
+  const file = buildPresentationFile(declaration);
+  if (!file) {
+    return [
+      `El ${formDefinitions[declaration.modelo].name} no tiene fichero de presentación`,
+    ];
+  }
+
+  const parsed = parsePresentationFile(file);
+  const messages = Object.values(parsed.errors);
+  const rebuilt =
+    parsed.declaration && buildPresentationFile(parsed.declaration);
+  const original = readRecord(file).record;
+  const reread = rebuilt ? readRecord(rebuilt).record : null;
+  if (!original || !reread) return messages;
+
+  for (const field of readableFields(recordDesigns[original.modelo])) {
+    const key = fieldKey(field);
+    const before = original.values[key];
+    const after = reread.values[key];
+    if (before !== after) {
+      messages.push(
+        `${field.label}: «${before.trim()}» se lee como «${after.trim()}»`
+      );
+    }
+  }
+  return messages;
+}
+
+// "12345678Z_2024_2T.303", the name the AEAT programs give these files
+export function getPresentationFileName(declaration: Declaration): string {
+  const { modelo, period, taxpayer } = declaration;
+  return `${taxpayer.nif.toUpperCase()}_${period.year}_${
+    period.quarter
+  }T.${modeloNumber(modelo)}`;
+}
+
+// The AEAT expects ISO-8859-1, one byte per character
+export function downloadPresentationFile(
+  declaration: Declaration
+): boolean {
+  const file = buildPresentationFile(declaration);
+  if (!file) return false;
+  const bytes = Uint8Array.from(file, (char) => char.charCodeAt(0));
+  downloadBlob(
+    new Blob([bytes], { type: "text/plain;charset=iso-8859-1" }),
+    getPresentationFileName(declaration)
+  );
+  return true;
+}
@@ -0,0 +1,257 @@
+import { z } from "zod";
+
+import {
+  getFormDefinition,
+  getFormFields,
+  type AmountSection,
+} from "./forms";
+import type { Declaration, DeclarationSection } from "./types";
+
+// Amounts are captured as strings from inputs: blank, or a plain decimal
+// number. Only the fields the registry marks as signed may be negative
+const amountPattern = /^(\d+(\.\d*)?|\.\d+)$/;
+
+const amountField = (isSigned = false) =>
+  z
+    .string()
+    .refine(
+      (val) => val === "" || amountPattern.test(val.replace(/^-/, "")),
+      "Debe ser un número válido"
+    )
+    .refine(
+      (val) => isSigned || !val.startsWith("-"),
+      "No puede ser negativo"
+    );
+
+// Schema for personal information
+export const personalInfoSchema = z.object({
+  firstName: z.string().min(2, "El nombre debe tener al menos 2 caracteres"),
+  lastName: z
+    .string()
+    .min(2, "Los apellidos deben tener al menos 2 caracteres"),
+  nif: z.string().refine((val) => {
+    // Validate Spanish DNI/NIE
+    const dniRegex = /^[0-9]{8}[a-zA-Z]$/;
+    const nieRegex = /^[XYZxyz][0-9]{7}[a-zA-Z]$/;
+    return dniRegex.test(val) || nieRegex.test(val);
+  }, "Introduce un DNI (8 números + letra) o NIE (X/Y/Z + 7 números + letra) válido"),
+  birthDate: z.string().refine((val) => {
+    const date = new Date(val);
+    return !isNaN(date.getTime());
+  }, "Por favor, introduce una fecha válida"),
+  email: z.string().email("Por favor, introduce un email válido"),
+  phone: z.string().min(9, "Introduce un número de teléfono válido"),
+  address: z.string().min(5, "La dirección debe tener al menos 5 caracteres"),
+  postalCode: z
+    .string()
+    .regex(/^[0-9]{5}$/, "El código postal debe tener 5 dígitos"),
+  city: z.string().min(2, "La ciudad debe tener al menos 2 caracteres"),
+  province: z.string().min(2, "La provincia debe tener al menos 2 caracteres"),
+});
+
+export type PersonalInfo = z.infer<typeof personalInfoSchema>;
+
+const countField = () =>
+  z.string().regex(/^[0-9]*$/, "Debe ser un número entero");
+
+// Schema for the family situation (Modelo 100 only)
+export const familySchema = z.object({
+  descendants: countField(),
+  descendantsUnder3: countField(),
+  ascendantsOver65: countField(),
+  ascendantsOver75: countField(),
+  disabilityDegree: z.string().refine((val) => {
+    const degree = parseFloat(val || "0");
+    return !isNaN(degree) && degree >= 0 && degree <= 100;
+  }, "Introduce un porcentaje entre 0 y 100"),
+});
+
+// Cross-field rules on top of the per-field ones
+export const familySituationSchema = familySchema
+  .refine(
+    (data) =>
+      parseInt(data.descendantsUnder3 || "0", 10) <=
+      parseInt(data.descendants || "0", 10),
+    {
+      message: "No puede superar el número total de descendientes",
+      path: ["descendantsUnder3"],
+    }
+  )
+  .refine(
+    (data) =>
+      parseInt(data.ascendantsOver75 || "0", 10) <=
+      parseInt(data.ascendantsOver65 || "0", 10),
+    {
+      message: "No puede superar el número de ascendientes mayores de 65",
+      path: ["ascendantsOver75"],
+    }
+  );
+
+// Every variant validates a flat record of amount strings
+type AmountsSchema = z.ZodObject<Record<string, z.ZodTypeAny>>;
+
+// Schema of the income or deductions of a modelo, one amount (or count) per
+// field of its form definition
+export const createAmountsSchema = (
+  formType: string,
+  section: AmountSection
+): AmountsSchema =>
+  z.object(
+    Object.fromEntries(
+      Object.entries(getFormFields(formType, section)).map(
+        ([fieldName, field]) => [
+          fieldName,
+          field.type === "count"
+            ? countField()
+            : amountField(field.type === "signedAmount"),
+        ]
+      )
+    )
+  );
+
+// One entry of the Modelo 714 inventory
+export const patrimonioAssetSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum([
+      "realEstate",
+      "bankAccount",
+      "listedSecurities",
+      "unlistedShares",
+      "lifeInsurance",
+      "vehicle",
+      "otherAsset",
+      "debt",
+    ]),
+    description: z.string().min(2, "Describe el bien o la deuda"),
+    ownership: z.string().refine((val) => {
+      const share = parseFloat(val || "0");
+      return !isNaN(share) && share > 0 && share <= 100;
+    }, "Introduce un porcentaje de titularidad entre 0 y 100"),
+    habitualHome: z.boolean(),
+    values: z.record(amountField()),
+  })
+  .refine((asset) => !asset.habitualHome || asset.type === "realEstate", {
+    message: "Solo un inmueble puede ser la vivienda habitual",
+    path: ["habitualHome"],
+  });
+
+// One row of the counterparty list of the Modelos 347 and 349. The NIF
+// format and the thresholds depend on the modelo and are checked by its
+// own rules
+export const counterpartySchema = z.object({
+  id: z.string(),
+  nif: z.string().trim().min(1, "Introduce el NIF"),
+  name: z.string().trim().min(2, "Introduce el nombre o razón social"),
+  key: z.string(),
+  amounts: z.record(amountField()),
+});
+
+// One account, security or property of the Modelo 720
+export const foreignAssetSchema = z.object({
+  id: z.string(),
+  block: z.enum(["accounts", "securities", "realEstate"]),
+  country: z
+    .string()
+    .regex(/^[A-Za-z]{2}$/, "Indica el código del país (p. ej. FR)"),
+  entity: z.string().trim().min(2, "Indica la entidad o la dirección"),
+  identifier: z.string(),
+  value: amountField(),
+});
+
+// Result values (a ingresar / a devolver) are plain amounts
+export const resultSchema = z.object({
+  taxDue: amountField(),
+  refund: amountField(),
+});
+
+export const emptyPersonalInfo: PersonalInfo = {
+  firstName: "",
+  lastName: "",
+  nif: "",
+  birthDate: "",
+  email: "",
+  phone: "",
+  address: "",
+  postalCode: "",
+  city: "",
+  province: "",
+};
+
+// Returns the zod schema that validates a single field of a section
+export function getFieldSchema(
+  formType: string,
+  section: DeclarationSection,
+  fieldName: string
+): z.ZodTypeAny {
+  const shapes: Record<DeclarationSection, Record<string, z.ZodTypeAny>> = {
+    personal: personalInfoSchema.shape,
+    family: familySchema.shape,
+    assets: {},
+    counterparties: {},
+    foreignAssets: {},
+    income: createAmountsSchema(formType, "income").shape,
+    deductions: createAmountsSchema(formType, "deductions").shape,
+    result: resultSchema.shape,
+  };
+
+  return shapes[section][fieldName] ?? amountField();
+}
+
+// Validates every section and returns the error message per field, keyed as
+// "section.field"
+export function validateDeclaration(
+  declaration: Declaration
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const checks: [DeclarationSection, z.ZodTypeAny, unknown][] = [
+    ["personal", personalInfoSchema, declaration.taxpayer],
+    [
+      "income",
+      createAmountsSchema(declaration.modelo, "income").partial(),
+      declaration.income,
+    ],
+    [
+      "deductions",
+      createAmountsSchema(declaration.modelo, "deductions").partial(),
+      declaration.deductions,
+    ],
+    ["result", resultSchema, declaration.result],
+  ];
+  if (declaration.modelo === "modelo100") {
+    checks.push(["family", familySituationSchema, declaration.family]);
+  }
+  if (declaration.modelo === "modelo714") {
+    checks.push(["assets", z.array(patrimonioAssetSchema), declaration.assets]);
+  }
+  if (
+    declaration.modelo === "modelo347" ||
+    declaration.modelo === "modelo349"
+  ) {
+    checks.push([
+      "counterparties",
+      z.array(counterpartySchema),
+      declaration.counterparties,
+    ]);
+  }
+  if (declaration.modelo === "modelo720") {
+    checks.push([
+      "foreignAssets",
+      z.array(foreignAssetSchema),
+      declaration.foreignAssets,
+    ]);
+  }
+
+  checks.forEach(([section, schema, values]) => {
+    const parsed = schema.safeParse(values);
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => {
+        errors[`${section}.${issue.path.join(".")}`] = issue.message;
+      });
+    }
+  });
+
+  // Plus the modelo's own cross-field rules
+  const { validate } = getFormDefinition(declaration.modelo);
+  return { ...errors, ...validate?.(declaration) };
+}
@@ -0,0 +1,157 @@
+import { toAmount } from "@/lib/tax/amounts";
+
+import {
+  formDefinitions,
+  getFormDefinition,
+  getFormFields,
+  type AmountSection,
+} from "./forms";
+import type { Declaration, DeclarationOf, ModeloId, Quarter } from "./types";
+
+const allQuarters: Quarter[] = [1, 2, 3, 4];
+const summarySections: AmountSection[] = ["income", "deductions"];
+
+type SectionValues = Record<string, string>;
+
+// Amounts of a declaration, typed after its modelo
+type AmountsOf<M extends ModeloId> = Pick<DeclarationOf<M>, AmountSection>;
+
+// What the stored quarterlies of an annual summary add up to
+export interface QuarterlyTotals {
+  quarters: Quarter[];
+  missing: Quarter[];
+  totals: Record<AmountSection, SectionValues>;
+}
+
+// A summary field whose declared amount differs from its quarterly total
+export interface SummaryDifference {
+  section: AmountSection;
+  field: string;
+  declared: string;
+  total: string;
+}
+
+const sectionOf = (
+  declaration: Declaration,
+  section: AmountSection
+): SectionValues => ({ ...declaration[section] });
+
+// Stored declarations of the quarterly modelo an annual summary is built
+// from, for the same taxpayer and year
+const getStoredQuarters = (
+  declaration: Declaration,
+  history: Declaration[]
+): Declaration[] => {
+  const { summary } = getFormDefinition(declaration.modelo);
+  if (!summary) return [];
+
+  const nif = declaration.taxpayer.nif.toUpperCase();
+  return history.filter(
+    (quarter) =>
+      quarter.modelo === summary.of &&
+      quarter.taxpayer.nif.toUpperCase() === nif &&
+      quarter.period.year === declaration.period.year &&
+      quarter.period.quarter !== undefined
+  );
+};
+
+// Yearly totals of the stored quarters, as amounts of the summary itself
+const aggregateQuarters = <M extends ModeloId>(
+  modelo: M,
+  stored: Declaration[]
+): AmountsOf<M> | undefined =>
+  formDefinitions[modelo].summary?.aggregate(stored);
+
+// Fields left at zero take their quarterly total
+const fillSection = <T extends Record<keyof T, string>>(
+  values: T,
+  totals: T
+): T => {
+  const filled = { ...values };
+  for (const field of Object.keys(totals) as (keyof T)[]) {
+    if (toAmount(values[field]) === 0) filled[field] = totals[field];
+  }
+  return filled;
+};
+
+// Totals of the quarterly modelo an annual summary is built from, using the
+// stored declarations of the same taxpayer and year. Null when the modelo
+// isn't a summary or none of its quarters is stored
+export function getQuarterlyTotals(
+  declaration: Declaration,
+  history: Declaration[]
+): QuarterlyTotals | null {
+  const stored = getStoredQuarters(declaration, history);
+  const totals = aggregateQuarters(declaration.modelo, stored);
+  if (stored.length === 0 || !totals) return null;
+
+  const quarters = allQuarters.filter((quarter) =>
+    stored.some(({ period }) => period.quarter === quarter)
+  );
+  return {
+    quarters,
+    missing: allQuarters.filter((quarter) => !quarters.includes(quarter)),
+    totals: {
+      income: { ...totals.income },
+      deductions: { ...totals.deductions },
+    },
+  };
+}
+
+// Fill the amounts of an annual summary from its stored quarters, keeping
+// anything the user already entered
+export function withQuarterlyTotals<M extends ModeloId>(
+  declaration: DeclarationOf<M>,
+  history: Declaration[]
+): DeclarationOf<M> {
+  const stored = getStoredQuarters(declaration, history);
+  const totals = aggregateQuarters(declaration.modelo, stored);
+  if (stored.length === 0 || !totals) return declaration;
+
+  return {
+    ...declaration,
+    income: fillSection(declaration.income, totals.income),
+    deductions: fillSection(declaration.deductions, totals.deductions),
+  };
+}
+
+// Take the quarterly totals of the given differences, leaving the rest of
+// the declaration as it is
+export function withSummaryTotals<M extends ModeloId>(
+  declaration: DeclarationOf<M>,
+  selected: SummaryDifference[]
+): DeclarationOf<M> {
+  const totalsOf = (section: AmountSection): SectionValues =>
+    Object.fromEntries(
+      selected
+        .filter((difference) => difference.section === section)
+        .map(({ field, total }) => [field, total])
+    );
+  return {
+    ...declaration,
+    income: { ...declaration.income, ...totalsOf("income") },
+    deductions: { ...declaration.deductions, ...totalsOf("deductions") },
+  };
+}
+
+// Summary fields that don't match the quarterly totals, in form order
+export function getSummaryDifferences(
+  declaration: Declaration,
+  quarterly: QuarterlyTotals
+): SummaryDifference[] {
+  return summarySections.flatMap((section) => {
+    const values = sectionOf(declaration, section);
+    return Object.keys(getFormFields(declaration.modelo, section))
+      .filter(
+        (field) =>
+          toAmount(values[field]) !==
+          toAmount(quarterly.totals[section][field])
+      )
+      .map((field) => ({
+        section,
+        field,
+        declared: values[field] ?? "0",
+        total: quarterly.totals[section][field] ?? "0",
+      }));
+  });
+}
@@ -0,0 +1,416 @@
+import type { PersonalInfo } from "./schemas";
+
+// Identifiers of the supported tax forms, the keys of `formDefinitions`
+export type ModeloId =
+  | "modelo100"
+  | "modelo303"
+  | "modelo130"
+  | "modelo111"
+  | "modelo115"
+  | "modelo390"
+  | "modelo190"
+  | "modelo180"
+  | "modelo347"
+  | "modelo349"
+  | "modelo720"
+  | "modelo714";
+
+export const modeloIds: ModeloId[] = [
+  "modelo100",
+  "modelo303",
+  "modelo130",
+  "modelo111",
+  "modelo115",
+  "modelo390",
+  "modelo190",
+  "modelo180",
+  "modelo347",
+  "modelo349",
+  "modelo720",
+  "modelo714",
+];
+
+// How the declaration values were captured
+export type CaptureMethod = "manual" | "upload" | "lookup" | "ai";
+
+export type Quarter = 1 | 2 | 3 | 4;
+
+// Tax year the declaration refers to; quarterly modelos also carry the quarter
+export interface DeclarationPeriod {
+  year: number;
+  quarter?: Quarter;
+}
+
+// Amounts are kept as the decimal strings entered or extracted ("1234.56"),
+// the same representation the zod schemas validate
+
+export interface Modelo100Income {
+  salaryIncome: string;
+  selfEmploymentIncome: string;
+  capitalIncome: string;
+  capitalGainsIncome: string;
+  rentalIncome: string;
+  otherIncome: string;
+}
+
+export interface Modelo100Deductions {
+  socialSecurity: string;
+  pensionContributions: string;
+  mortgageInterest: string;
+  donations: string;
+  otherDeductions: string;
+  familyDeductions: string;
+  disabilityDeductions: string;
+  withholdings: string;
+}
+
+// IVA devengado. Cuotas at each rate and of the recargo de equivalencia are
+// derived from their bases; the rest are entered as base and cuota
+export interface Modelo303Income {
+  base4: string;
+  base10: string;
+  base21: string;
+  intraCommunityBase: string;
+  intraCommunityQuota: string;
+  reverseChargeBase: string;
+  reverseChargeQuota: string;
+  modificationsBase: string;
+  modificationsQuota: string;
+  surchargeBase05: string;
+  surchargeBase14: string;
+  surchargeBase52: string;
+  surchargeModificationsBase: string;
+  surchargeModificationsQuota: string;
+}
+
+// IVA deducible, bienes corrientes and bienes de inversión apart, plus the
+// cuotas pending compensation from previous periods
+export interface Modelo303Deductions {
+  currentDomesticBase: string;
+  currentDomesticQuota: string;
+  investmentDomesticBase: string;
+  investmentDomesticQuota: string;
+  currentIntraCommunityBase: string;
+  currentIntraCommunityQuota: string;
+  investmentIntraCommunityBase: string;
+  investmentIntraCommunityQuota: string;
+  rectificationBase: string;
+  rectificationQuota: string;
+  previousPeriodCompensation: string;
+}
+
+// What to do with a negative (or zero) Modelo 303 result
+export type Modelo303Settlement = "compensar" | "devolver" | "cero";
+
+// Modelo 130 amounts are cumulative from 1 January to the end of the quarter
+export interface Modelo130Income {
+  selfEmploymentIncome: string;
+  otherIncome: string;
+}
+
+export interface Modelo130Deductions {
+  socialSecurity: string;
+  otherDeductions: string;
+  withholdings: string;
+  previousPayments: string;
+  negativeResults: string;
+}
+
+// Retenciones practicadas in the quarter, as número de perceptores, importe
+// de las percepciones and importe de las retenciones of each kind of income.
+// Ganancias de aprovechamientos forestales (casillas 19 to 24) and premios en
+// especie (16 to 18) are not modelled
+export interface Modelo111Income {
+  workRecipients: string;
+  workPayments: string;
+  workWithholdings: string;
+  workInKindRecipients: string;
+  workInKindPayments: string;
+  workInKindPrepayments: string;
+  professionalRecipients: string;
+  professionalPayments: string;
+  professionalWithholdings: string;
+  professionalInKindRecipients: string;
+  professionalInKindPayments: string;
+  professionalInKindPrepayments: string;
+  prizeRecipients: string;
+  prizePayments: string;
+  prizeWithholdings: string;
+  imageRightsRecipients: string;
+  imageRightsPayments: string;
+  imageRightsPrepayments: string;
+}
+
+// Only used by complementary declarations of the same quarter
+export interface Modelo111Deductions {
+  previousResult: string;
+}
+
+// Retenciones on the rent of business premises. The retención itself follows
+// from the base at the legal rate
+export interface Modelo115Income {
+  rentRecipients: string;
+  rentBase: string;
+}
+
+export interface Modelo115Deductions {
+  previousResult: string;
+}
+
+// Annual summaries hold the yearly totals of the fields of the quarterly
+// modelo they summarize. The 390 takes the cuotas to compensate from the
+// previous year; the 190 and 180 add what the quarterly returns paid in
+export type Modelo390Income = Modelo303Income;
+export type Modelo390Deductions = Modelo303Deductions;
+
+export type Modelo190Income = Modelo111Income;
+
+export interface Modelo190Deductions {
+  quarterlyPayments: string;
+}
+
+export type Modelo180Income = Modelo115Income;
+
+export interface Modelo180Deductions {
+  quarterlyPayments: string;
+}
+
+// The informative declarations of operations list one row per counterparty
+// and declare no amounts of their own
+export type Modelo347Income = Record<string, never>;
+export type Modelo347Deductions = Record<string, never>;
+export type Modelo349Income = Record<string, never>;
+export type Modelo349Deductions = Record<string, never>;
+
+// One declarado of the Modelo 347 or operador intracomunitario of the 349,
+// per clave de operación
+export interface Counterparty {
+  id: string;
+  // NIF, or the VAT number with its country prefix in the 349
+  nif: string;
+  name: string;
+  key: string;
+  // Importe of each quarter of the period: the four of the year in the 347,
+  // only the one declared in the 349
+  amounts: Partial<Record<Quarter, string>>;
+}
+
+// The Modelo 720 lists the foreign assets themselves; its only amounts are
+// the totals of each block in the last 720 filed, which decide whether it
+// has to be filed again
+export type Modelo720Income = Record<string, never>;
+
+export interface Modelo720Deductions {
+  previousAccounts: string;
+  previousSecurities: string;
+  previousRealEstate: string;
+}
+
+export type ForeignAssetBlock = "accounts" | "securities" | "realEstate";
+
+// One account, security or property held abroad on 31 December
+export interface ForeignAsset {
+  id: string;
+  block: ForeignAssetBlock;
+  // ISO 3166 code of the country where it is held or located
+  country: string;
+  // Bank, issuer or manager, or the address of a property
+  entity: string;
+  // IBAN, ISIN or property reference, where there is one
+  identifier: string;
+  value: string;
+}
+
+// IRPF figures of the same year, needed for the límite conjunto IRPF + IP
+export interface Modelo714Income {
+  irpfTaxableBase: string;
+  irpfQuota: string;
+}
+
+export interface Modelo714Deductions {
+  foreignTaxDeduction: string;
+}
+
+export type PatrimonioAssetType =
+  | "realEstate"
+  | "bankAccount"
+  | "listedSecurities"
+  | "unlistedShares"
+  | "lifeInsurance"
+  | "vehicle"
+  | "otherAsset"
+  | "debt";
+
+// Inputs the valuation rules of the different asset types work with
+export type PatrimonioValueKey =
+  | "cadastralValue"
+  | "assessedValue"
+  | "acquisitionValue"
+  | "balance"
+  | "averageBalance"
+  | "marketValue"
+  | "bookValue"
+  | "surrenderValue"
+  | "outstandingAmount";
+
+// One entry of the Modelo 714 inventory of bienes, derechos and deudas
+export interface PatrimonioAsset {
+  id: string;
+  type: PatrimonioAssetType;
+  description: string;
+  // Percentage owned by the taxpayer
+  ownership: string;
+  habitualHome: boolean;
+  values: Partial<Record<PatrimonioValueKey, string>>;
+}
+
+// Household situation used for the mínimo personal y familiar. Counts and the
+// disability percentage are stored as strings like every other value
+export interface Modelo100Family {
+  descendants: string;
+  descendantsUnder3: string;
+  ascendantsOver65: string;
+  ascendantsOver75: string;
+  disabilityDegree: string;
+}
+
+// Final figures of the declaration, either computed or taken from the source
+export interface DeclarationResult {
+  taxDue: string;
+  refund: string;
+}
+
+interface DeclarationBase<M extends ModeloId, I, D> {
+  modelo: M;
+  source: CaptureMethod;
+  period: DeclarationPeriod;
+  taxpayer: PersonalInfo;
+  income: I;
+  deductions: D;
+  result: DeclarationResult;
+}
+
+export type Modelo100Declaration = DeclarationBase<
+  "modelo100",
+  Modelo100Income,
+  Modelo100Deductions
+> & {
+  family: Modelo100Family;
+};
+
+export type Modelo303Declaration = DeclarationBase<
+  "modelo303",
+  Modelo303Income,
+  Modelo303Deductions
+> & {
+  settlement: Modelo303Settlement;
+};
+
+export type Modelo130Declaration = DeclarationBase<
+  "modelo130",
+  Modelo130Income,
+  Modelo130Deductions
+>;
+
+export type Modelo111Declaration = DeclarationBase<
+  "modelo111",
+  Modelo111Income,
+  Modelo111Deductions
+>;
+
+export type Modelo115Declaration = DeclarationBase<
+  "modelo115",
+  Modelo115Income,
+  Modelo115Deductions
+>;
+
+export type Modelo390Declaration = DeclarationBase<
+  "modelo390",
+  Modelo390Income,
+  Modelo390Deductions
+>;
+
+export type Modelo190Declaration = DeclarationBase<
+  "modelo190",
+  Modelo190Income,
+  Modelo190Deductions
+>;
+
+export type Modelo180Declaration = DeclarationBase<
+  "modelo180",
+  Modelo180Income,
+  Modelo180Deductions
+>;
+
+export type Modelo347Declaration = DeclarationBase<
+  "modelo347",
+  Modelo347Income,
+  Modelo347Deductions
+> & {
+  counterparties: Counterparty[];
+};
+
+export type Modelo349Declaration = DeclarationBase<
+  "modelo349",
+  Modelo349Income,
+  Modelo349Deductions
+> & {
+  counterparties: Counterparty[];
+};
+
+export type Modelo720Declaration = DeclarationBase<
+  "modelo720",
+  Modelo720Income,
+  Modelo720Deductions
+> & {
+  foreignAssets: ForeignAsset[];
+};
+
+export type Modelo714Declaration = DeclarationBase<
+  "modelo714",
+  Modelo714Income,
+  Modelo714Deductions
+> & {
+  assets: PatrimonioAsset[];
+};
+
+export type Declaration =
+  | Modelo100Declaration
+  | Modelo303Declaration
+  | Modelo130Declaration
+  | Modelo111Declaration
+  | Modelo115Declaration
+  | Modelo390Declaration
+  | Modelo190Declaration
+  | Modelo180Declaration
+  | Modelo347Declaration
+  | Modelo349Declaration
+  | Modelo720Declaration
+  | Modelo714Declaration;
+
+export type DeclarationOf<M extends ModeloId> = Extract<
+  Declaration,
+  { modelo: M }
+>;
+
+// Sections shown in the review step, in display order
+export type DeclarationSection =
+  | "personal"
+  | "family"
+  | "assets"
+  | "counterparties"
+  | "foreignAssets"
+  | "income"
+  | "deductions"
+  | "result";
+
+export function isModeloId(value: string): value is ModeloId {
+  return (modeloIds as string[]).includes(value);
+}
+
+// Normalize a form type ("Modelo 100", "modelo100") into a modelo id,
+// falling back to Modelo 100 like the rest of the wizard does
+export function toModeloId(formType: string): ModeloId {
+  const normalized = formType.toLowerCase().replace(/\s+/g, "");
+  return isModeloId(normalized) ? normalized : "modelo100";
+}
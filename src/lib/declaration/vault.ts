@@ -0,0 +1,233 @@
+const storageKey = "impuai.vault";
+
+// PBKDF2 work factor, as recommended for SHA-256
+const iterations = 600000;
+
+// Known text sealed with the key, to tell whether a passphrase is right
+const checkText = "impuai";
+
+// A value encrypted with AES-GCM under the key of the passphrase
+export interface Sealed {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface StoredSealed {
+  iv: string;
+  data: string;
+}
+
+// What is kept to derive the key again: never the passphrase or the key.
+// It is stored along with the drafts it seals, and copied to localStorage so
+// that whether there is a passphrase is known right away
+export interface VaultSettings {
+  salt: string;
+  iterations: number;
+  check: StoredSealed;
+}
+
+// Keys of the passphrase: one seals the values, the other names the records
+// they are stored under
+interface VaultKeys {
+  key: CryptoKey;
+  recordKey: CryptoKey;
+}
+
+// Keys of the passphrase while unlocked, only in memory for this session
+let sessionKeys: VaultKeys | null = null;
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+export function getVaultSettings(): VaultSettings | null {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? (JSON.parse(stored) as VaultSettings) : null;
+  } catch {
+    return null;
+  }
+}
+
+// The sealing key is the PBKDF2 output itself, and the record key is
+// derived from it with HKDF so that the passphrase is only stretched once
+const deriveKeys = async (
+  passphrase: string,
+  salt: Uint8Array,
+  rounds: number
+): Promise<VaultKeys> => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations: rounds, hash: "SHA-256" },
+    material,
+    256
+  );
+  const key = await crypto.subtle.importKey(
+    "raw",
+    bits,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+  const recordKey = await crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode("impuai records"),
+    },
+    await crypto.subtle.importKey("raw", bits, "HKDF", false, ["deriveKey"]),
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign"]
+  );
+  return { key, recordKey };
+};
+
+const sealWith = async (key: CryptoKey, value: unknown): Promise<Sealed> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv, data };
+};
+
+const nameWith = async (recordKey: CryptoKey, name: string) =>
+  toBase64(
+    new Uint8Array(
+      await crypto.subtle.sign(
+        "HMAC",
+        recordKey,
+        new TextEncoder().encode(name)
+      )
+    )
+  );
+
+const openWith = async <T>(key: CryptoKey, sealed: Sealed): Promise<T> => {
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: sealed.iv },
+    key,
+    sealed.data
+  );
+  return JSON.parse(new TextDecoder().decode(plain)) as T;
+};
+
+// Keys of a passphrase if it is the one set, or null
+const tryPassphrase = async (passphrase: string) => {
+  const settings = getVaultSettings();
+  if (!settings) return null;
+  const keys = await deriveKeys(
+    passphrase,
+    fromBase64(settings.salt),
+    settings.iterations
+  );
+  try {
+    const check = await openWith<string>(keys.key, {
+      iv: fromBase64(settings.check.iv),
+      data: fromBase64(settings.check.data).buffer,
+    });
+    return check === checkText ? keys : null;
+  } catch {
+    return null;
+  }
+};
+
+export function hasPassphrase(): boolean {
+  return getVaultSettings() !== null;
+}
+
+// Drafts can't be read or saved until the passphrase is entered
+export function isLocked(): boolean {
+  return hasPassphrase() && sessionKeys === null;
+}
+
+// A wrong passphrase leaves the store as it was
+export async function unlock(passphrase: string): Promise<boolean> {
+  const keys = await tryPassphrase(passphrase);
+  if (keys) sessionKeys = keys;
+  return keys !== null;
+}
+
+export function lock(): void {
+  sessionKeys = null;
+}
+
+// Set a new passphrase and unlock with it. Whatever was sealed with the
+// previous one is sealed and named again with the new keys, and kept in one
+// go with the settings of the new key, before the copy here is updated
+export async function setPassphrase(
+  passphrase: string,
+  reseal: (
+    sealNew: (value: unknown) => Promise<Sealed>,
+    nameNew: (name: string) => Promise<string>,
+    settings: VaultSettings
+  ) => Promise<void>
+): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const keys = await deriveKeys(passphrase, salt, iterations);
+  const check = await sealWith(keys.key, checkText);
+  const settings: VaultSettings = {
+    salt: toBase64(salt),
+    iterations,
+    check: {
+      iv: toBase64(check.iv),
+      data: toBase64(new Uint8Array(check.data)),
+    },
+  };
+  await reseal(
+    (value) => sealWith(keys.key, value),
+    (name) => nameWith(keys.recordKey, name),
+    settings
+  );
+
+  localStorage.setItem(storageKey, JSON.stringify(settings));
+  sessionKeys = keys;
+}
+
+// Bring the copy here in line with the settings stored with the drafts, in
+// case a change of passphrase was interrupted after they were written
+export function restoreVaultSettings(settings: VaultSettings | null): void {
+  if (JSON.stringify(settings) === JSON.stringify(getVaultSettings())) return;
+  if (settings) {
+    localStorage.setItem(storageKey, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(storageKey);
+  }
+  sessionKeys = null;
+}
+
+export function forgetPassphrase(): void {
+  localStorage.removeItem(storageKey);
+  sessionKeys = null;
+}
+
+// Values are sealed while a passphrase is set, and kept as they are otherwise
+export async function seal(value: unknown): Promise<Sealed | null> {
+  if (!hasPassphrase()) return null;
+  if (!sessionKeys) throw new Error("The draft store is locked");
+  return sealWith(sessionKeys.key, value);
+}
+
+export async function open<T>(sealed: Sealed): Promise<T> {
+  if (!sessionKeys) throw new Error("The draft store is locked");
+  return openWith<T>(sessionKeys.key, sealed);
+}
+
+// Name a record is stored under: a keyed hash of its own while a passphrase
+// is set, so that it can be found without opening every record and still
+// gives nothing away, and the name itself otherwise
+export async function getRecordName(name: string): Promise<string> {
+  if (!hasPassphrase()) return name;
+  if (!sessionKeys) throw new Error("The draft store is locked");
+  return nameWith(sessionKeys.recordKey, name);
+}
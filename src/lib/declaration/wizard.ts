@@ -0,0 +1,141 @@
+import { validateDeclaration } from "./schemas";
+import type { Declaration, ModeloId } from "./types";
+
+export type WizardStepId =
+  | "select-type"
+  | "select-method"
+  | "fill-form"
+  | "review"
+  | "confirm"
+  | "generate";
+
+// What the steps are judged on
+export interface WizardState {
+  modelo: ModeloId | null;
+  method: string | null;
+  declaration: Declaration | null;
+  // The declaration as it is now was confirmed and kept in the history
+  isConfirmed: boolean;
+  // and its PDF was generated
+  isGenerated: boolean;
+}
+
+// Side effects of moving between two steps:
+// - "clear-method": the filling method is chosen again
+// - "store-declaration": the declaration is kept in the history and its
+//   draft discarded
+export type WizardEffect = "clear-method" | "store-declaration";
+
+export interface WizardStep {
+  id: WizardStepId;
+  label: string;
+  description: string;
+  // Whether everything the step asks for is done
+  isComplete: (state: WizardState) => boolean;
+  // Steps it can move to, with the side effects of each move
+  transitions: Partial<Record<WizardStepId, WizardEffect[]>>;
+}
+
+export const wizardSteps: WizardStep[] = [
+  {
+    id: "select-type",
+    label: "Select Form Type",
+    description: "Choose the tax form you need to complete",
+    isComplete: ({ modelo }) => modelo !== null,
+    transitions: { "select-method": ["clear-method"] },
+  },
+  {
+    id: "select-method",
+    label: "Select Method",
+    description: "Choose how you want to fill out your form",
+    isComplete: ({ method }) => method !== null,
+    transitions: { "select-type": [], "fill-form": [] },
+  },
+  {
+    id: "fill-form",
+    label: "Fill Form",
+    description: "Enter your tax information",
+    isComplete: ({ declaration }) => declaration !== null,
+    transitions: {
+      "select-type": ["clear-method"],
+      "select-method": ["clear-method"],
+      review: [],
+    },
+  },
+  {
+    id: "review",
+    label: "Review & Edit",
+    description: "Check your information for accuracy",
+    isComplete: ({ declaration }) =>
+      declaration !== null &&
+      Object.keys(validateDeclaration(declaration)).length === 0,
+    transitions: { "fill-form": [], confirm: [] },
+  },
+  {
+    id: "confirm",
+    label: "Confirm",
+    description: "Verify all information is correct",
+    isComplete: ({ isConfirmed }) => isConfirmed,
+    transitions: { review: [], generate: ["store-declaration"] },
+  },
+  {
+    id: "generate",
+    label: "Generate PDF",
+    description: "Create your final tax document",
+    isComplete: ({ isGenerated }) => isGenerated,
+    transitions: { confirm: [] },
+  },
+];
+
+export function isWizardStepId(value: string): value is WizardStepId {
+  return wizardSteps.some(({ id }) => id === value);
+}
+
+const getStepIndex = (step: WizardStepId) =>
+  wizardSteps.findIndex(({ id }) => id === step);
+
+// The step to carry on at: the first one not done yet, or the last
+export function getFirstIncompleteStep(state: WizardState): WizardStepId {
+  return (
+    wizardSteps.find((step) => !step.isComplete(state)) ??
+    wizardSteps[wizardSteps.length - 1]
+  ).id;
+}
+
+// A step can be opened once every step before it is done
+export function canEnterStep(state: WizardState, step: WizardStepId): boolean {
+  return wizardSteps
+    .slice(0, getStepIndex(step))
+    .every((previous) => previous.isComplete(state));
+}
+
+// The state once the side effects of a move have run
+const applyEffects = (state: WizardState, effects: WizardEffect[]) =>
+  effects.reduce<WizardState>(
+    (next, effect) =>
+      effect === "clear-method"
+        ? { ...next, method: null }
+        : { ...next, isConfirmed: next.declaration !== null },
+    state
+  );
+
+// Side effects of moving from one step to another, or null when the move
+// isn't allowed from there or the step can't be opened even after them
+export function getTransition(
+  state: WizardState,
+  from: WizardStepId,
+  to: WizardStepId
+): WizardEffect[] | null {
+  const effects = wizardSteps[getStepIndex(from)].transitions[to];
+  return effects && canEnterStep(applyEffects(state, effects), to)
+    ? effects
+    : null;
+}
+
+// Share of the steps done in a row from the start
+export function getProgress(state: WizardState): number {
+  const done = wizardSteps.findIndex((step) => !step.isComplete(state));
+  return Math.round(
+    ((done < 0 ? wizardSteps.length : done) / wizardSteps.length) * 100
+  );
+}
@@ -0,0 +1,58 @@
+import type { ExtractedData, ExtractedField } from "@/lib/declaration/adapters";
+
+import type { TextPage } from "./mapper";
+
+// Space left around the region of a value, in page units
+const cropMargin = 6;
+
+// Image of the region each value was read from, cut from the rendered pages
+// so the user can compare it with what was extracted
+export function addSourceCrops(
+  data: ExtractedData,
+  pages: TextPage[]
+): ExtractedData {
+  const crop = (field: ExtractedField): ExtractedField => {
+    const page = pages.find(({ page }) => page === field.source.page);
+    if (!page?.image) return field;
+
+    const scale = page.image.width / page.width;
+    const { x, y, width, height } = field.source.box;
+    const left = Math.max(0, (x - cropMargin) * scale);
+    const top = Math.max(0, (y - cropMargin) * scale);
+    const right = Math.min(page.image.width, (x + width + cropMargin) * scale);
+    const bottom = Math.min(
+      page.image.height,
+      (y + height + cropMargin) * scale
+    );
+    if (right <= left || bottom <= top) return field;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(right - left);
+    canvas.height = Math.ceil(bottom - top);
+    const context = canvas.getContext("2d");
+    if (!context) return field;
+    context.drawImage(
+      page.image,
+      left,
+      top,
+      canvas.width,
+      canvas.height,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    );
+    return {
+      ...field,
+      source: { ...field.source, crop: canvas.toDataURL("image/png") },
+    };
+  };
+
+  return {
+    ...data,
+    fields: Object.fromEntries(
+      Object.entries(data.fields).map(([key, field]) => [key, crop(field)])
+    ),
+    taxYear: data.taxYear && crop(data.taxYear),
+  };
+}
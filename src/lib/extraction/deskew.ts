@@ -0,0 +1,50 @@
+// Grey levels below this are taken as ink
+const inkThreshold = 128;
+
+// Largest skew looked for, in degrees either way
+const maxSkew = 10;
+
+type Pixels = Pick<ImageData, "data" | "width" | "height">;
+
+// Rows of ink when the page is turned by the angle: lines of text that are
+// level pile up their ink into few rows, so the sum of squares peaks
+const scoreAngle = (points: Int32Array, height: number, angle: number) => {
+  const radians = (angle * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const offset = height;
+  const rows = new Int32Array(height * 3);
+  for (let index = 0; index < points.length; index += 2) {
+    const row = Math.round(points[index + 1] * cos - points[index] * sin);
+    rows[row + offset]++;
+  }
+  return rows.reduce((sum, count) => sum + count * count, 0);
+};
+
+// Skew of the lines of text of a scan or photo, in degrees, positive when
+// they go down to the right. Measured in half degrees first, then tenths
+export function estimateSkew({ data, width, height }: Pixels): number {
+  const ink: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      const grey =
+        0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+      if (grey < inkThreshold) ink.push(x, y);
+    }
+  }
+  if (ink.length === 0) return 0;
+
+  const points = Int32Array.from(ink);
+  const search = (from: number, to: number, step: number) => {
+    let best = { angle: 0, score: -1 };
+    for (let angle = from; angle <= to + step / 2; angle += step) {
+      const score = scoreAngle(points, Math.max(width, height), angle);
+      if (score > best.score) best = { angle, score };
+    }
+    return best.angle;
+  };
+
+  const coarse = search(-maxSkew, maxSkew, 0.5);
+  return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10;
+}
@@ -0,0 +1,259 @@
+import type { ExtractedData } from "@/lib/declaration/adapters";
+import { getFormFields, getFormTitle } from "@/lib/declaration/forms";
+import type { ModeloId } from "@/lib/declaration/types";
+import { formatCurrency } from "@/lib/utils";
+
+import {
+  mapExtractedFields,
+  mapLabelledFields,
+  type LabelRule,
+  type TextPage,
+} from "./mapper";
+import { addUp } from "./merge";
+
+export type DocumentType =
+  | "form"
+  | "withholdingCertificate"
+  | "bankStatement"
+  | "donationCertificate"
+  | "ibiReceipt";
+
+// An amount of a supporting document, with the name it is listed under when
+// the modelo has no field for it
+interface DocumentRule extends LabelRule {
+  title: string;
+  // Read for the user's information, never a field of any modelo
+  isInformative?: boolean;
+}
+
+interface DocumentDefinition {
+  label: string;
+  // Wording that gives the document away: the one matching most is chosen
+  keywords: RegExp[];
+  // Its amounts add up with those of other documents of the batch, rather
+  // than being the same figures filed again
+  isAdditive: boolean;
+  // Amounts read by their labels, unless the document has its own mapping
+  rules?: DocumentRule[];
+  extract?: (
+    modelo: ModeloId,
+    pages: TextPage[],
+    file: string
+  ) => ExtractedData;
+}
+
+// Certificado de retenciones y rendimientos del trabajo, as employers issue
+// it every year. Its monetary and in-kind income are read apart and added up
+// into the rendimientos del trabajo
+const certificateRules: DocumentRule[] = [
+  {
+    key: "payer.nif",
+    pattern: /pagador|retenedor|empleador|empresa/i,
+    isNif: true,
+    title: "NIF del pagador",
+    isInformative: true,
+  },
+  {
+    key: "work.monetary",
+    pattern: /dinerari[oa]s|importe\s+[íi]ntegro\s+satisfecho/i,
+    title: "Rendimientos dinerarios",
+  },
+  {
+    key: "work.inKind",
+    pattern: /en\s+especie|valoraci[oó]n/i,
+    title: "Rendimientos en especie",
+  },
+  {
+    key: "deductions.withholdings",
+    pattern: /retenciones(\s+practicadas)?/i,
+    title: "Retenciones",
+  },
+  {
+    key: "deductions.socialSecurity",
+    pattern: /seguridad\s+social|cotizaciones/i,
+    title: "Cotizaciones a la Seguridad Social",
+  },
+];
+
+// Modelos without rendimientos del trabajo list both amounts apart
+const extractCertificate = (
+  modelo: ModeloId,
+  pages: TextPage[],
+  file: string
+): ExtractedData => {
+  const data = mapLabelledFields(pages, file, certificateRules);
+  const { "work.monetary": monetary, "work.inKind": inKind, ...fields } =
+    data.fields;
+  const parts = [monetary, inKind].filter((part) => !!part);
+  const hasSalary = "salaryIncome" in getFormFields(modelo, "income");
+  if (parts.length === 0 || !hasSalary) return data;
+
+  return {
+    ...data,
+    fields: { ...fields, "income.salaryIncome": addUp(parts) },
+  };
+};
+
+const bankRules: DocumentRule[] = [
+  {
+    key: "income.capitalIncome",
+    pattern:
+      /intereses|rendimientos?\s+(íntegros?|brutos?)|importe\s+[íi]ntegro/i,
+    sum: true,
+    title: "Rendimientos del capital mobiliario",
+  },
+  {
+    key: "deductions.withholdings",
+    pattern: /retenci[oó]n(es)?/i,
+    sum: true,
+    title: "Retenciones",
+  },
+];
+
+const donationRules: DocumentRule[] = [
+  {
+    key: "deductions.donations",
+    pattern:
+      /importe\s+(total\s+)?(del\s+)?(donativo|donaci[oó]n)|cantidad\s+donada|importe\s+total/i,
+    title: "Donativos",
+  },
+];
+
+// The IBI receipt doesn't go into any field: the habitual residence has no
+// imputed income, and other properties need their use to work it out
+const ibiRules: DocumentRule[] = [
+  {
+    key: "ibi.cadastralValue",
+    pattern: /valor\s+catastral/i,
+    title: "Valor catastral",
+    isInformative: true,
+  },
+  {
+    key: "ibi.quota",
+    pattern: /cuota\s+(íntegra|l[íi]quida|a\s+pagar)|total\s+a\s+pagar/i,
+    title: "Cuota del IBI",
+    isInformative: true,
+  },
+];
+
+export const documentTypes: Record<DocumentType, DocumentDefinition> = {
+  form: {
+    label: "Formulario del modelo",
+    keywords: [
+      /modelo\s*\d{3}/i,
+      /casilla/i,
+      /autoliquidaci[oó]n/i,
+      /declaraci[oó]n/i,
+    ],
+    isAdditive: false,
+    extract: mapExtractedFields,
+  },
+  withholdingCertificate: {
+    label: "Certificado de retenciones",
+    keywords: [
+      /certificado\s+de\s+retenciones/i,
+      /rendimientos\s+del\s+trabajo/i,
+      /dinerari[oa]s|en\s+especie/i,
+      /pagador|retenedor/i,
+      /seguridad\s+social/i,
+    ],
+    isAdditive: true,
+    rules: certificateRules,
+    extract: extractCertificate,
+  },
+  bankStatement: {
+    label: "Certificado bancario de intereses",
+    keywords: [
+      /intereses/i,
+      /capital\s+mobiliario/i,
+      /cuenta|dep[oó]sito|IBAN/i,
+      /entidad\s+financiera|banco/i,
+    ],
+    isAdditive: true,
+    rules: bankRules,
+  },
+  donationCertificate: {
+    label: "Certificado de donativos",
+    keywords: [
+      /donativo|donaci[oó]n/i,
+      /ley\s+49\/2002/i,
+      /fundaci[oó]n|asociaci[oó]n|ONG/i,
+    ],
+    isAdditive: true,
+    rules: donationRules,
+  },
+  ibiReceipt: {
+    label: "Recibo del IBI",
+    keywords: [
+      /bienes\s+inmuebles|\bI\.?B\.?I\b/i,
+      /valor\s+catastral/i,
+      /referencia\s+catastral/i,
+    ],
+    isAdditive: true,
+    rules: ibiRules,
+  },
+};
+
+// Type of an uploaded document by its wording, or null when none fits
+export function classifyDocument(pages: TextPage[]): DocumentType | null {
+  const text = pages
+    .flatMap((page) => page.fragments.map((fragment) => fragment.text))
+    .join(" ");
+
+  let best: { type: DocumentType | null; score: number } = {
+    type: null,
+    score: 0,
+  };
+  for (const [type, { keywords }] of Object.entries(documentTypes)) {
+    const score = keywords.filter((keyword) => keyword.test(text)).length;
+    if (score > best.score) best = { type: type as DocumentType, score };
+  }
+  return best.type;
+}
+
+export interface DocumentExtraction {
+  type: DocumentType;
+  data: ExtractedData;
+  // Figures read that the modelo has no field for
+  notes: string[];
+}
+
+// Values of a document that go into the declaration of the modelo. The rest
+// are listed apart for the user to know they were read
+export function extractDocument(
+  modelo: ModeloId,
+  type: DocumentType,
+  pages: TextPage[],
+  file: string
+): DocumentExtraction {
+  const { extract, rules = [] } = documentTypes[type];
+  const data = extract
+    ? extract(modelo, pages, file)
+    : mapLabelledFields(pages, file, rules);
+
+  const accepts = (key: string) => {
+    const [section, field] = key.split(".");
+    return section === "income" || section === "deductions"
+      ? field in getFormFields(modelo, section)
+      : section === "personal" || section === "result";
+  };
+  const fields: ExtractedData["fields"] = {};
+  const notes: string[] = [];
+  for (const [key, field] of Object.entries(data.fields)) {
+    if (accepts(key)) {
+      fields[key] = field;
+      continue;
+    }
+    const rule = rules.find((rule) => rule.key === key);
+    const note = `${rule?.title ?? key}: ${
+      rule?.isNif ? field.value : formatCurrency(field.value)
+    }`;
+    notes.push(
+      rule?.isInformative
+        ? note
+        : `${note} (el ${getFormTitle(modelo)} no lo incluye)`
+    );
+  }
+
+  return { type, data: { ...data, fields }, notes };
+}
@@ -0,0 +1,587 @@
+import type {
+  ExtractedData,
+  ExtractedField,
+  SourceBox,
+} from "@/lib/declaration/adapters";
+import {
+  hasDirectCasillas,
+  readCasillas,
+  type CasillaValues,
+} from "@/lib/declaration/casillas";
+import { getFormFields } from "@/lib/declaration/forms";
+import type { ModeloId } from "@/lib/declaration/types";
+
+// A run of text found on a page, in page units from the top left corner
+export interface TextFragment {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // How sure the OCR is of the text, from 0 to 1. Text layers are exact
+  confidence?: number;
+}
+
+export interface TextPage {
+  page: number;
+  width: number;
+  height: number;
+  fragments: TextFragment[];
+  // The page as rendered, to cut the source of each value from. It may be
+  // drawn at a larger scale than the page units
+  image?: HTMLCanvasElement;
+}
+
+// Values read with less confidence than this should be checked by the user
+export const confidenceThreshold = 0.8;
+
+// Whether the user still has to check a value before it is used
+export const needsReview = (field: ExtractedField): boolean =>
+  field.confidence < confidenceThreshold && !field.confirmed;
+
+// Key the period goes by when it is listed along with the fields
+export const taxYearKey = "taxYear";
+
+export function getExtractedFields(
+  data: ExtractedData
+): [string, ExtractedField][] {
+  const fields = Object.entries(data.fields);
+  if (data.taxYear) fields.unshift([taxYearKey, data.taxYear]);
+  return fields;
+}
+
+export function setExtractedField(
+  data: ExtractedData,
+  key: string,
+  field: ExtractedField
+): ExtractedData {
+  return key === taxYearKey
+    ? { ...data, taxYear: field }
+    : { ...data, fields: { ...data.fields, [key]: field } };
+}
+
+export function countPendingReview(data: ExtractedData): number {
+  const pending = getExtractedFields(data).filter(([, field]) =>
+    needsReview(field)
+  );
+  return pending.length;
+}
+
+interface Token extends SourceBox {
+  text: string;
+  confidence: number;
+}
+
+interface Line {
+  page: number;
+  tokens: Token[];
+  text: string;
+  // Of its least sure token
+  confidence: number;
+}
+
+// A value and the tokens it was read from
+interface Reading<T> {
+  value: T;
+  confidence: number;
+  page: number;
+  tokens: Token[];
+}
+
+// Fragments whose vertical centres are closer than this share of their
+// height are on the same line
+const lineTolerance = 0.5;
+
+const groupLines = (page: TextPage): Line[] => {
+  const centre = (fragment: TextFragment) => fragment.y + fragment.height / 2;
+  const sorted = [...page.fragments].sort(
+    (a, b) => centre(a) - centre(b) || a.x - b.x
+  );
+
+  const groups: { y: number; height: number; fragments: TextFragment[] }[] =
+    [];
+  for (const fragment of sorted) {
+    const group = groups[groups.length - 1];
+    const tolerance =
+      Math.max(group?.height ?? 0, fragment.height) * lineTolerance;
+    if (group && Math.abs(centre(fragment) - group.y) <= tolerance) {
+      group.fragments.push(fragment);
+    } else {
+      groups.push({
+        y: centre(fragment),
+        height: fragment.height,
+        fragments: [fragment],
+      });
+    }
+  }
+
+  return groups.map((group) => {
+    // A fragment may hold several words; each takes its share of the width
+    const tokens = group.fragments
+      .sort((a, b) => a.x - b.x)
+      .flatMap((fragment) => {
+        const step = fragment.width / Math.max(1, fragment.text.length);
+        let offset = 0;
+        return fragment.text
+          .trim()
+          .split(/\s+/)
+          .map((word) => {
+            const index = fragment.text.indexOf(word, offset);
+            offset = index + word.length;
+            return {
+              text: word,
+              x: fragment.x + index * step,
+              y: fragment.y,
+              width: word.length * step,
+              height: fragment.height,
+              confidence: fragment.confidence ?? 1,
+            };
+          });
+      });
+    return {
+      page: page.page,
+      tokens,
+      text: tokens.map((token) => token.text).join(" "),
+      confidence: Math.min(...tokens.map((token) => token.confidence)),
+    };
+  });
+};
+
+// Amounts as the AEAT prints them ("1.234,56"), or with a decimal point
+const parseAmount = (text: string): number | null => {
+  const amount = text.replace(/€$/, "");
+  if (/^-?(\d{1,3}(\.\d{3})+|\d+),\d{2}$/.test(amount)) {
+    return parseFloat(amount.replace(/\./g, "").replace(",", "."));
+  }
+  return /^-?\d+\.\d{2}$/.test(amount) ? parseFloat(amount) : null;
+};
+
+// Casilla numbers are printed on their own, sometimes in brackets. The OCR
+// may read their zeros as the letter O
+const casillaOf = (token: Token) => {
+  const text = token.text.replace(/^\[(.*)\]$/, "$1");
+  return /^[\dO]{2,3}$/.test(text) ? text.replace(/O/g, "0") : text;
+};
+
+// Two readings of a value that disagree leave it in doubt
+export const conflictConfidence = 0.5;
+
+// Values of the modelo's casillas: the number of each casilla anchors the
+// first amount printed after it on the same line, before the next casilla
+const findCasillas = (
+  lines: Line[],
+  casillas: Set<string>,
+  counts: Set<string>
+): Record<string, Reading<number>> => {
+  const found: Record<string, Reading<number>> = {};
+  const record = (casilla: string, reading: Reading<number>) => {
+    const existing = found[casilla];
+    if (!existing || reading.confidence > existing.confidence) {
+      found[casilla] = reading;
+    } else if (
+      reading.confidence === existing.confidence &&
+      reading.value !== existing.value
+    ) {
+      existing.confidence = Math.min(existing.confidence, conflictConfidence);
+    }
+  };
+
+  for (const line of lines) {
+    line.tokens.forEach((token, index) => {
+      const casilla = casillaOf(token);
+      if (!casillas.has(casilla)) return;
+
+      for (let next = index + 1; next < line.tokens.length; next++) {
+        const candidate = line.tokens[next];
+        if (casillas.has(casillaOf(candidate))) break;
+        const value = counts.has(casilla)
+          ? /^\d+$/.test(candidate.text)
+            ? parseInt(candidate.text, 10)
+            : null
+          : parseAmount(candidate.text);
+        if (value === null) continue;
+
+        // Right next to its casilla, or with some text in between
+        const layout = next === index + 1 ? 0.95 : 0.75;
+        record(casilla, {
+          value,
+          confidence:
+            layout * Math.min(token.confidence, candidate.confidence),
+          page: line.page,
+          tokens: line.tokens.slice(index, next + 1),
+        });
+        break;
+      }
+    });
+  }
+  return found;
+};
+
+const nifPattern =
+  /^([0-9]{8}[A-Z]|[XYZ][0-9]{7}[A-Z]|[A-HJNP-SUVW][0-9]{7}[0-9A-J])$/;
+
+// Lines about the other party of a certificate: the payer, the bank or the
+// entity that issues it
+const otherParty =
+  /pagador|retenedor|entidad|emisor|empresa|ayuntamiento/i;
+
+// Lines that name the taxpayer
+const taxpayerLabel =
+  /titular|perceptor|declarante|donante|contribuyente|sujeto pasivo/i;
+
+const findNif = (lines: Line[]): Reading<string> | undefined => {
+  let best: Reading<string> | undefined;
+  for (const line of lines) {
+    const index = line.tokens.findIndex((candidate) =>
+      nifPattern.test(candidate.text.replace(/[-.]/g, "").toUpperCase())
+    );
+    if (index < 0) continue;
+    if (otherParty.test(line.text) && !taxpayerLabel.test(line.text)) {
+      continue;
+    }
+    const token = line.tokens[index];
+    // Next to its label, or anywhere on the form
+    const confidence =
+      (/\bNIF\b/i.test(line.text) || taxpayerLabel.test(line.text)
+        ? 0.9
+        : 0.6) * token.confidence;
+    if (!best || confidence > best.confidence) {
+      best = {
+        value: token.text.replace(/[-.]/g, "").toUpperCase(),
+        confidence,
+        page: line.page,
+        tokens: line.tokens.slice(Math.max(0, index - 1), index + 1),
+      };
+    }
+  }
+  return best;
+};
+
+const nameLabel =
+  /apellidos(\s+y\s+nombre)?(\s*,?\s*o\s+raz[oó]n\s+social)?\s*:?\s*/i;
+
+// "Apellidos y nombre o razón social", on the label's line or the next one.
+// Without a comma between them, the last word is taken as the name
+const findName = (
+  lines: Line[]
+): { firstName: Reading<string>; lastName: Reading<string> } | undefined => {
+  const index = lines.findIndex(
+    (line) =>
+      nameLabel.test(line.text) &&
+      (!otherParty.test(line.text) || taxpayerLabel.test(line.text))
+  );
+  if (index < 0) return undefined;
+
+  const line = lines[index];
+  const sameLine = line.text
+    .slice(line.text.search(nameLabel))
+    .replace(nameLabel, "")
+    .split(/\s+NIF\b/i)[0]
+    .trim();
+  const nextLine = lines[index + 1];
+  const source =
+    sameLine || !nextLine || nextLine.page !== line.page ? line : nextLine;
+  const text = sameLine || (source === nextLine ? nextLine.text.trim() : "");
+  if (!text) return undefined;
+
+  const confidence =
+    source === line ? 0.75 * line.confidence : 0.6 * nextLine.confidence;
+  const [lastName, firstName] = text.includes(",")
+    ? text.split(",").map((part) => part.trim())
+    : [text.split(/\s+/).slice(0, -1).join(" "), text.split(/\s+/).pop()];
+  // From the label up to whatever follows the name on its line
+  const start = sameLine
+    ? line.tokens.findIndex((token) => /apellidos/i.test(token.text))
+    : 0;
+  const end = source.tokens.findIndex(
+    (token, position) => position > start && /^NIF$/i.test(token.text)
+  );
+  const reading = {
+    confidence: text.includes(",") ? confidence : confidence - 0.1,
+    page: source.page,
+    tokens: source.tokens.slice(Math.max(0, start), end < 0 ? undefined : end),
+  };
+  return {
+    firstName: { ...reading, value: firstName ?? "" },
+    lastName: { ...reading, value: lastName },
+  };
+};
+
+// Ejercicio and, for quarterly modelos, the periodo, as "2023 - 4T"
+const findTaxYear = (lines: Line[]): Reading<string> | undefined => {
+  let year: Reading<string> | undefined;
+  let isLabelled = false;
+  let quarter: string | undefined;
+  for (const line of lines) {
+    const labelled = line.text.match(/ejercicio\s*:?\s*(20\d{2})/i);
+    if (labelled && !isLabelled) {
+      isLabelled = true;
+      year = {
+        value: labelled[1],
+        confidence: 0.9 * line.confidence,
+        page: line.page,
+        tokens: line.tokens,
+      };
+    }
+    const unlabelled = line.text.match(/\b(20\d{2})\b/);
+    if (unlabelled && !year) {
+      year = {
+        value: unlabelled[1],
+        confidence: 0.5 * line.confidence,
+        page: line.page,
+        tokens: line.tokens,
+      };
+    }
+    quarter ??= line.text.match(/periodo\s*:?\s*([1-4])\s*T\b/i)?.[1];
+  }
+  if (!year) return undefined;
+  return quarter ? { ...year, value: `${year.value} - ${quarter}T` } : year;
+};
+
+// "Resultado de la declaración", "Resultado a ingresar"... followed by the
+// amount. Only used for modelos the app doesn't calculate
+const findResult = (lines: Line[]): Record<string, Reading<string>> => {
+  for (const line of lines) {
+    if (
+      !/resultado/i.test(line.text) ||
+      !/ingresar|devolver|declaraci[oó]n|liquidaci[oó]n/i.test(line.text)
+    ) {
+      continue;
+    }
+    const amounts = line.tokens
+      .map((token, index) => ({ index, amount: parseAmount(token.text) }))
+      .filter(({ amount }) => amount !== null);
+    if (amounts.length === 0) continue;
+
+    const { index, amount } = amounts[amounts.length - 1];
+    const isRefund = (amount ?? 0) < 0 || /devolver/i.test(line.text);
+    const label = line.tokens.findIndex((token) =>
+      /resultado/i.test(token.text)
+    );
+    return {
+      [isRefund ? "result.refund" : "result.taxDue"]: {
+        value: Math.abs(amount ?? 0).toFixed(2),
+        confidence: 0.8 * line.confidence,
+        page: line.page,
+        tokens: line.tokens.slice(Math.min(label, index), index + 1),
+      },
+    };
+  }
+  return {};
+};
+
+// Region taken by the tokens of a reading
+const boxOf = (tokens: Token[]): SourceBox => {
+  const left = Math.min(...tokens.map((token) => token.x));
+  const top = Math.min(...tokens.map((token) => token.y));
+  const right = Math.max(...tokens.map((token) => token.x + token.width));
+  const bottom = Math.max(...tokens.map((token) => token.y + token.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const toField = (
+  { value, confidence, page, tokens }: Reading<string>,
+  file: string
+): ExtractedField => ({
+  value,
+  confidence,
+  source: {
+    file,
+    page,
+    box: boxOf(tokens),
+    snippet: tokens.map((token) => token.text).join(" "),
+  },
+});
+
+const toExtractedData = (
+  readings: Record<string, Reading<string>>,
+  taxYear: Reading<string> | undefined,
+  pages: TextPage[],
+  file: string
+): ExtractedData => ({
+  fields: Object.fromEntries(
+    Object.entries(readings).map(([key, reading]) => [
+      key,
+      toField(reading, file),
+    ])
+  ),
+  taxYear: taxYear && toField(taxYear, file),
+  pageCount: pages.length,
+});
+
+// NIF and name of the taxpayer
+const identify = (lines: Line[]): Record<string, Reading<string>> => {
+  const readings: Record<string, Reading<string>> = {};
+  const nif = findNif(lines);
+  if (nif) readings["personal.nif"] = nif;
+  const name = findName(lines);
+  if (name) {
+    readings["personal.firstName"] = name.firstName;
+    readings["personal.lastName"] = name.lastName;
+  }
+  return readings;
+};
+
+// Map the text of an uploaded form into the declaration of a modelo: the
+// identification, the period, and every casilla the modelo declares, each
+// with the place in the file it was read from
+export function mapExtractedFields(
+  modelo: ModeloId,
+  pages: TextPage[],
+  file: string
+): ExtractedData {
+  const lines = pages.flatMap(groupLines);
+  const readings = identify(lines);
+  const taxYear = findTaxYear(lines);
+  Object.assign(readings, findResult(lines));
+
+  const definitions = {
+    income: getFormFields(modelo, "income"),
+    deductions: getFormFields(modelo, "deductions"),
+  };
+  const casillas = new Set<string>();
+  const counts = new Set<string>();
+  for (const section of ["income", "deductions"] as const) {
+    for (const definition of Object.values(definitions[section])) {
+      if (!definition.casilla) continue;
+      casillas.add(definition.casilla);
+      if (definition.type === "count") counts.add(definition.casilla);
+    }
+  }
+
+  const found = findCasillas(lines, casillas, counts);
+  const values: CasillaValues = Object.fromEntries(
+    Object.entries(found).map(([casilla, { value }]) => [casilla, value])
+  );
+  const year = parseInt(taxYear?.value ?? "", 10);
+  const amounts = readCasillas(
+    modelo,
+    values,
+    isNaN(year) ? new Date().getFullYear() - 1 : year
+  );
+  // Fields worked out from several casillas are as sure as the least sure
+  const leastConfidence = Math.min(
+    ...Object.values(found).map(({ confidence }) => confidence)
+  );
+
+  for (const section of ["income", "deductions"] as const) {
+    for (const [field, amount] of Object.entries(amounts[section])) {
+      const definition = definitions[section][field];
+      const source = definition?.casilla && found[definition.casilla];
+      if (!source) continue;
+      readings[`${section}.${field}`] = {
+        ...source,
+        value:
+          definition.type === "count" ? String(amount) : amount.toFixed(2),
+        confidence: hasDirectCasillas(modelo)
+          ? source.confidence
+          : leastConfidence,
+      };
+    }
+  }
+
+  return toExtractedData(readings, taxYear, pages, file);
+}
+
+// An amount printed after its label, on the same line
+export interface LabelRule {
+  key: string;
+  pattern: RegExp;
+  // Add up every line with the label instead of keeping the first
+  sum?: boolean;
+  // The label is followed by a NIF rather than an amount
+  isNif?: boolean;
+}
+
+// First amount after the label on its line
+const findLabelled = (
+  line: Line,
+  pattern: RegExp
+): Reading<number> | undefined => {
+  const match = line.text.match(pattern);
+  if (match?.index === undefined) return undefined;
+  const labelStart = match.index;
+  const labelEnd = labelStart + match[0].length;
+
+  // Where each token starts in the text of the line
+  const starts: number[] = [];
+  line.tokens.reduce((offset, token) => {
+    starts.push(offset);
+    return offset + token.text.length + 1;
+  }, 0);
+
+  const first = starts.findIndex(
+    (start, index) => start + line.tokens[index].text.length > labelStart
+  );
+  for (let index = first; index < line.tokens.length; index++) {
+    if (starts[index] < labelEnd) continue;
+    const value = parseAmount(line.tokens[index].text);
+    if (value === null) continue;
+    return {
+      value,
+      confidence: 0.85 * line.confidence,
+      page: line.page,
+      tokens: line.tokens.slice(first, index + 1),
+    };
+  }
+  return undefined;
+};
+
+// First NIF after the label on its line, such as the payer's
+const findLabelledNif = (
+  line: Line,
+  pattern: RegExp
+): Reading<string> | undefined => {
+  const label = line.tokens.findIndex((token) => pattern.test(token.text));
+  if (label < 0) return undefined;
+  const index = line.tokens.findIndex(
+    (token, position) =>
+      position > label &&
+      nifPattern.test(token.text.replace(/[-.]/g, "").toUpperCase())
+  );
+  if (index < 0) return undefined;
+  return {
+    value: line.tokens[index].text.replace(/[-.]/g, "").toUpperCase(),
+    confidence: 0.85 * line.confidence,
+    page: line.page,
+    tokens: line.tokens.slice(label, index + 1),
+  };
+};
+
+// Map the text of a supporting document (a certificate, a statement, a
+// receipt) by the labels of its amounts, along with the identification of
+// the taxpayer and the ejercicio
+export function mapLabelledFields(
+  pages: TextPage[],
+  file: string,
+  rules: LabelRule[]
+): ExtractedData {
+  const lines = pages.flatMap(groupLines);
+  const readings = identify(lines);
+
+  for (const { key, pattern, sum, isNif } of rules) {
+    if (isNif) {
+      const nif = lines
+        .map((line) => findLabelledNif(line, pattern))
+        .find((reading) => !!reading);
+      if (nif) readings[key] = nif;
+      continue;
+    }
+
+    const found = lines
+      .map((line) => findLabelled(line, pattern))
+      .filter((reading): reading is Reading<number> => !!reading);
+    if (found.length === 0) continue;
+
+    const [first] = found;
+    const total = sum
+      ? found.reduce((amount, reading) => amount + reading.value, 0)
+      : first.value;
+    readings[key] = {
+      ...first,
+      value: total.toFixed(2),
+      confidence: Math.min(...found.map(({ confidence }) => confidence)),
+    };
+  }
+  return toExtractedData(readings, findTaxYear(lines), pages, file);
+}
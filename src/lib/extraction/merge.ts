@@ -0,0 +1,98 @@
+import type { ExtractedData, ExtractedField } from "@/lib/declaration/adapters";
+
+import {
+  conflictConfidence,
+  getExtractedFields,
+  setExtractedField,
+} from "./mapper";
+
+// The values one field was read with in different documents
+export interface FieldConflict {
+  key: string;
+  options: ExtractedField[];
+}
+
+export interface MergedExtraction {
+  data: ExtractedData;
+  conflicts: FieldConflict[];
+}
+
+export interface MergeSource {
+  data: ExtractedData;
+  // Its amounts add up with those of the other additive documents
+  isAdditive: boolean;
+}
+
+const isAmount = (value: string) => /^-?\d+(\.\d+)?$/.test(value.trim());
+
+// Amounts match to the cent, text whatever its case and spacing
+export const isSameValue = (a: string, b: string): boolean =>
+  isAmount(a) && isAmount(b)
+    ? Math.abs(parseFloat(a) - parseFloat(b)) < 0.005
+    : a.trim().replace(/\s+/g, " ").toUpperCase() ===
+      b.trim().replace(/\s+/g, " ").toUpperCase();
+
+// One field made of several amounts, of one document or of several. Fields
+// that were already added up keep their own parts
+export const addUp = (parts: ExtractedField[]): ExtractedField =>
+  parts.length === 1
+    ? parts[0]
+    : {
+        value: parts
+          .reduce((total, part) => total + parseFloat(part.value), 0)
+          .toFixed(2),
+        confidence: Math.min(...parts.map(({ confidence }) => confidence)),
+        source: parts[0].source,
+        parts: parts.flatMap((part) => part.parts ?? [part]),
+      };
+
+// Several uploaded documents into one set of values. Amounts of supporting
+// documents (certificates, statements) add up; anything read from more than
+// one document must agree, and otherwise it is left in doubt as a conflict
+export function mergeExtractions(sources: MergeSource[]): MergedExtraction {
+  const repeated: Record<string, ExtractedField[]> = {};
+  const added: Record<string, ExtractedField[]> = {};
+  for (const { data, isAdditive } of sources) {
+    for (const [key, field] of getExtractedFields(data)) {
+      const section = key.split(".")[0];
+      const adds =
+        isAdditive && (section === "income" || section === "deductions");
+      const target = adds ? added : repeated;
+      target[key] = [...(target[key] ?? []), field];
+    }
+  }
+  for (const [key, parts] of Object.entries(added)) {
+    repeated[key] = [...(repeated[key] ?? []), addUp(parts)];
+  }
+
+  let data: ExtractedData = {
+    fields: {},
+    pageCount: sources.reduce((count, { data }) => count + data.pageCount, 0),
+  };
+  const conflicts: FieldConflict[] = [];
+  for (const [key, options] of Object.entries(repeated)) {
+    const [best] = [...options].sort((a, b) => b.confidence - a.confidence);
+    const differs = options.some(
+      (option) => !isSameValue(option.value, best.value)
+    );
+    if (differs) conflicts.push({ key, options });
+    data = setExtractedField(
+      data,
+      key,
+      differs
+        ? { ...best, confidence: Math.min(best.confidence, conflictConfidence) }
+        : best
+    );
+  }
+
+  return { data, conflicts };
+}
+
+// Settle a conflict with the value of one of the documents
+export function pickConflictOption(
+  data: ExtractedData,
+  key: string,
+  option: ExtractedField
+): ExtractedData {
+  return setExtractedField(data, key, { ...option, confirmed: true });
+}
@@ -0,0 +1,113 @@
+import spanishModelUrl from "@tesseract.js-data/spa/4.0.0_best_int/spa.traineddata.gz?url";
+import coreUrl from "tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url";
+import workerUrl from "tesseract.js/dist/worker.min.js?url";
+
+import { estimateSkew } from "./deskew";
+import type { TextPage } from "./mapper";
+
+// Longest side of the copy the skew is measured on
+const skewSampleSize = 1000;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const getContext = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas 2D context not available");
+  return context;
+};
+
+// The photo or scan turned so that its lines of text are level, on white
+const deskewImage = async (file: File): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+
+  const scale = Math.min(1, skewSampleSize / Math.max(width, height));
+  const sample = createCanvas(
+    Math.round(width * scale),
+    Math.round(height * scale)
+  );
+  const sampleContext = getContext(sample);
+  sampleContext.drawImage(bitmap, 0, 0, sample.width, sample.height);
+  const skew = estimateSkew(
+    sampleContext.getImageData(0, 0, sample.width, sample.height)
+  );
+  const radians = (-skew * Math.PI) / 180;
+
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const canvas = createCanvas(
+    Math.ceil(width * cos + height * sin),
+    Math.ceil(width * sin + height * cos)
+  );
+  const context = getContext(canvas);
+  context.fillStyle = "#fff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate(radians);
+  context.drawImage(bitmap, -width / 2, -height / 2);
+  bitmap.close();
+  return canvas;
+};
+
+// Text of a scanned form or a photo of it, word by word. Everything runs in
+// the browser: Tesseract recognises the text in its own worker with the
+// Spanish model served with the app, so the image never leaves the device
+export async function readImageText(
+  file: File,
+  onProgress?: (progress: number) => void
+): Promise<TextPage[]> {
+  const image = await deskewImage(file);
+
+  const { createWorker } = await import("tesseract.js");
+  const model = await fetch(spanishModelUrl);
+  const worker = await createWorker(
+    [{ code: "spa", data: new Uint8Array(await model.arrayBuffer()) }],
+    undefined,
+    {
+      workerPath: workerUrl,
+      corePath: coreUrl,
+      workerBlobURL: false,
+      cacheMethod: "none",
+      logger: (message) => {
+        if (message.status === "recognizing text") {
+          onProgress?.(message.progress);
+        }
+      },
+    }
+  );
+
+  try {
+    const { data } = await worker.recognize(image);
+    const words = (data.blocks ?? []).flatMap((block) =>
+      block.paragraphs.flatMap((paragraph) =>
+        paragraph.lines.flatMap((line) => line.words)
+      )
+    );
+
+    return [
+      {
+        page: 1,
+        width: image.width,
+        height: image.height,
+        fragments: words
+          .filter((word) => word.text.trim() !== "")
+          .map(({ text, bbox, confidence }) => ({
+            text,
+            x: bbox.x0,
+            y: bbox.y0,
+            width: bbox.x1 - bbox.x0,
+            height: bbox.y1 - bbox.y0,
+            confidence: confidence / 100,
+          })),
+        image,
+      },
+    ];
+  } finally {
+    await worker.terminate();
+  }
+}
@@ -0,0 +1,72 @@
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+import type { TextPage } from "./mapper";
+
+// Scale the pages are rendered at, for the crops of the values to be legible
+const renderScale = 2;
+
+// Text layer of a digitally generated PDF (Renta Web justificantes, forms
+// printed from the Sede), page by page, with each page rendered. Everything
+// runs in the browser: pdf.js is loaded on demand and parses the file in its
+// own worker
+export async function readPdfText(
+  file: File,
+  onProgress?: (page: number, pageCount: number) => void
+): Promise<TextPage[]> {
+  const { getDocument, GlobalWorkerOptions } = await import("pdfjs-dist");
+  GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await getDocument({ data }).promise;
+  try {
+    const pages: TextPage[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      // Positions are turned into the viewport's, with the origin at the top
+      // left corner like the ones of an image
+      const fragments = content.items
+        .filter(
+          (item): item is TextItem => "str" in item && item.str.trim() !== ""
+        )
+        .map((item) => {
+          const [x, baseline] = viewport.convertToViewportPoint(
+            item.transform[4],
+            item.transform[5]
+          );
+          return {
+            text: item.str,
+            x,
+            y: baseline - item.height,
+            width: item.width,
+            height: item.height,
+          };
+        });
+
+      const rendered = page.getViewport({ scale: renderScale });
+      const image = document.createElement("canvas");
+      image.width = rendered.width;
+      image.height = rendered.height;
+      const context = image.getContext("2d");
+      if (context) {
+        const task = page.render({ canvasContext: context, viewport: rendered });
+        await task.promise;
+      }
+
+      pages.push({
+        page: number,
+        width: viewport.width,
+        height: viewport.height,
+        fragments,
+        image: context ? image : undefined,
+      });
+      onProgress?.(number, pdf.numPages);
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,219 @@
+// Minimal PDF 1.4 writer for text documents. It only uses the standard
+// Helvetica fonts, which every viewer has, so nothing has to be embedded and
+// the file is built entirely in the browser
+
+// A4 in points
+export const pageWidth = 595.28;
+export const pageHeight = 841.89;
+
+export interface PdfText {
+  kind: "text";
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+  // 0 is black, 1 white
+  gray?: number;
+  align?: "left" | "right";
+}
+
+export interface PdfRule {
+  kind: "rule";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number;
+  gray?: number;
+}
+
+export interface PdfBox {
+  kind: "box";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  gray: number;
+}
+
+export type PdfCommand = PdfText | PdfRule | PdfBox;
+
+// Drawing commands of one page, with the origin at the bottom left corner
+export type PdfPage = PdfCommand[];
+
+export interface PdfInfo {
+  title: string;
+  author?: string;
+  createdAt: Date;
+}
+
+// Advance widths of the printable ASCII characters (32-126), in thousandths
+// of the font size, from the Adobe font metrics of the standard fonts
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+const helveticaBoldWidths = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+// Characters of Windows-1252 outside Latin-1, the ones Spanish text needs
+const winAnsiExtras: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+// Accented letters take the width of their base letter
+const charWidth = (char: string, bold: boolean): number => {
+  const widths = bold ? helveticaBoldWidths : helveticaWidths;
+  const base = char.normalize("NFD")[0] ?? char;
+  const code = base.charCodeAt(0);
+  return code >= 32 && code <= 126 ? widths[code - 32] : 556;
+};
+
+export function measureText(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char, bold);
+  return (width * size) / 1000;
+}
+
+// Split a text into lines that fit the given width
+export function wrapText(
+  text: string,
+  size: number,
+  maxWidth: number,
+  bold = false
+): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measureText(candidate, size, bold) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+// A PDF string literal in WinAnsiEncoding, one byte per character
+const pdfString = (text: string) => {
+  let encoded = "";
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte =
+      winAnsiExtras[char] ?? (code < 256 && code >= 32 ? code : 0x3f);
+    const value = String.fromCharCode(byte);
+    encoded +=
+      value === "(" || value === ")" || value === "\\" ? `\\${value}` : value;
+  }
+  return `(${encoded})`;
+};
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const pdfDate = (date: Date) =>
+  `D:${date
+    .toISOString()
+    .replace(/[-:T]/g, "")
+    .slice(0, 14)}Z`;
+
+const renderCommand = (command: PdfCommand): string => {
+  switch (command.kind) {
+    case "text": {
+      const font = command.bold ? "F2" : "F1";
+      const x =
+        command.align === "right"
+          ? command.x - measureText(command.text, command.size, command.bold)
+          : command.x;
+      return `BT /${font} ${num(command.size)} Tf ${num(
+        command.gray ?? 0
+      )} g ${num(x)} ${num(command.y)} Td ${pdfString(command.text)} Tj ET`;
+    }
+    case "rule":
+      return `${num(command.width ?? 0.5)} w ${num(command.gray ?? 0)} G ${num(
+        command.x1
+      )} ${num(command.y1)} m ${num(command.x2)} ${num(command.y2)} l S`;
+    case "box":
+      return `${num(command.gray)} g ${num(command.x)} ${num(command.y)} ${num(
+        command.width
+      )} ${num(command.height)} re f`;
+  }
+};
+
+// Serialize the pages into the bytes of a PDF file
+export function renderPdf(pages: PdfPage[], info: PdfInfo): Uint8Array {
+  // Objects 1-5 are fixed; each page then takes a page and a content object
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${pages.length} >>`;
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title ${pdfString(info.title)}${
+    info.author ? ` /Author ${pdfString(info.author)}` : ""
+  } /CreationDate ${pdfString(pdfDate(info.createdAt))} >>`;
+
+  const mediaBox = `[0 0 ${num(pageWidth)} ${num(pageHeight)}]`;
+  const resources = "<< /Font << /F1 3 0 R /F2 4 0 R >> >>";
+  pages.forEach((commands, index) => {
+    const id = pageIds[index];
+    const content = commands.map(renderCommand).join("\n");
+    objects[id] = [
+      "<< /Type /Page /Parent 2 0 R",
+      `/MediaBox ${mediaBox} /Resources ${resources}`,
+      `/Contents ${id + 1} 0 R >>`,
+    ].join(" ");
+    objects[id + 1] = [
+      `<< /Length ${content.length} >>`,
+      "stream",
+      content,
+      "endstream",
+    ].join("\n");
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\n`;
+  output += `startxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(output, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,57 @@
+import type { TaxBracket } from "./types";
+
+// Parse the decimal strings stored in declarations; blanks count as zero
+export function toAmount(value: string | undefined): number {
+  const parsed = parseFloat(value || "0");
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+export function roundCents(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// Apply a progressive scale to a base, bracket by bracket
+export function applyScale(base: number, scale: TaxBracket[]): number {
+  let remaining = Math.max(0, base);
+  let lowerLimit = 0;
+  let tax = 0;
+
+  for (const bracket of scale) {
+    if (remaining <= 0) break;
+    const width =
+      bracket.upTo === null ? remaining : bracket.upTo - lowerLimit;
+    const taxable = Math.min(remaining, width);
+    tax += taxable * bracket.rate;
+    remaining -= taxable;
+    lowerLimit = bracket.upTo ?? lowerLimit;
+  }
+
+  return roundCents(tax);
+}
+
+// Pick the parameters of the given year, or the closest earlier year we have
+export function forYear<T>(table: Record<number, T>, year: number): T {
+  const years = Object.keys(table)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const match = years.filter((candidate) => candidate <= year).pop();
+  return table[match ?? years[0]];
+}
+
+// Add up stored amounts, keeping the stored decimal string representation
+export function sumAmounts(values: (string | undefined)[]): string {
+  const total = values.reduce((sum, value) => sum + toAmount(value), 0);
+  return roundCents(total).toFixed(2);
+}
+
+// Field by field totals of several records of stored amounts, such as the
+// income of each quarter of a year
+export function sumRecords<T extends object>(records: T[]): T {
+  const fields = Object.keys(records[0] ?? {}) as (keyof T)[];
+  return Object.fromEntries(
+    fields.map((field) => [
+      field,
+      sumAmounts(records.map((record) => record[field] as string)),
+    ])
+  ) as T;
+}
@@ -0,0 +1,44 @@
+import { getFormDefinition } from "@/lib/declaration/forms";
+import { withQuarterlyTotals } from "@/lib/declaration/summary";
+import type { Declaration } from "@/lib/declaration/types";
+
+import { roundCents } from "./amounts";
+import type { CalculationBreakdown } from "./types";
+
+// Run the calculation engine of the declaration's modelo, if it has one
+export function getCalculation(
+  declaration: Declaration
+): CalculationBreakdown | null {
+  const { calculate } = getFormDefinition(declaration.modelo);
+  return calculate ? calculate(declaration) : null;
+}
+
+// Complete a freshly captured declaration with what earlier periods of the
+// same taxpayer already settled, or with the quarters an annual summary adds
+// up
+export function prefillFromHistory(
+  declaration: Declaration,
+  history: Declaration[]
+): Declaration {
+  const { prefill, summary } = getFormDefinition(declaration.modelo);
+  if (summary) return withQuarterlyTotals(declaration, history);
+  return prefill ? prefill(declaration, history) : declaration;
+}
+
+// Refresh the result section from the modelo's calculation engine. Modelos
+// without an engine keep the result captured from their source
+export function applyCalculations(declaration: Declaration): Declaration {
+  const calculation = getCalculation(declaration);
+  if (!calculation) return declaration;
+
+  // Negative results kept for later periods are neither paid nor refunded
+  const result = roundCents(calculation.result);
+  const isRefund = result < 0 && calculation.outcome !== "compensar";
+  return {
+    ...declaration,
+    result: {
+      taxDue: result > 0 ? result.toFixed(2) : "0",
+      refund: isRefund ? Math.abs(result).toFixed(2) : "0",
+    },
+  };
+}
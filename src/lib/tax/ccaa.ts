@@ -0,0 +1,169 @@
+// Comunidades y ciudades autónomas
+export type CcaaId =
+  | "andalucia"
+  | "aragon"
+  | "asturias"
+  | "baleares"
+  | "canarias"
+  | "cantabria"
+  | "castilla-la-mancha"
+  | "castilla-y-leon"
+  | "cataluna"
+  | "valencia"
+  | "extremadura"
+  | "galicia"
+  | "madrid"
+  | "murcia"
+  | "rioja"
+  | "navarra"
+  | "pais-vasco"
+  | "ceuta"
+  | "melilla";
+
+// Régimen común, or the foral regimes with their own IRPF and Patrimonio
+export type TaxRegime = "comun" | "foral";
+
+export interface Ccaa {
+  id: CcaaId;
+  name: string;
+  regime: TaxRegime;
+}
+
+export interface Province {
+  // INE code, also the first two digits of the postal code
+  code: string;
+  slug: string;
+  name: string;
+  ccaa: CcaaId;
+  // Alternative spellings and capitals accepted when resolving free text
+  aliases?: string[];
+}
+
+export const ccaaList: Record<CcaaId, Ccaa> = {
+  andalucia: { id: "andalucia", name: "Andalucía", regime: "comun" },
+  aragon: { id: "aragon", name: "Aragón", regime: "comun" },
+  asturias: { id: "asturias", name: "Principado de Asturias", regime: "comun" },
+  baleares: { id: "baleares", name: "Illes Balears", regime: "comun" },
+  canarias: { id: "canarias", name: "Canarias", regime: "comun" },
+  cantabria: { id: "cantabria", name: "Cantabria", regime: "comun" },
+  "castilla-la-mancha": {
+    id: "castilla-la-mancha",
+    name: "Castilla-La Mancha",
+    regime: "comun",
+  },
+  "castilla-y-leon": {
+    id: "castilla-y-leon",
+    name: "Castilla y León",
+    regime: "comun",
+  },
+  cataluna: { id: "cataluna", name: "Cataluña", regime: "comun" },
+  valencia: { id: "valencia", name: "Comunitat Valenciana", regime: "comun" },
+  extremadura: { id: "extremadura", name: "Extremadura", regime: "comun" },
+  galicia: { id: "galicia", name: "Galicia", regime: "comun" },
+  madrid: { id: "madrid", name: "Comunidad de Madrid", regime: "comun" },
+  murcia: { id: "murcia", name: "Región de Murcia", regime: "comun" },
+  rioja: { id: "rioja", name: "La Rioja", regime: "comun" },
+  navarra: { id: "navarra", name: "Comunidad Foral de Navarra", regime: "foral" },
+  "pais-vasco": { id: "pais-vasco", name: "País Vasco", regime: "foral" },
+  ceuta: { id: "ceuta", name: "Ceuta", regime: "comun" },
+  melilla: { id: "melilla", name: "Melilla", regime: "comun" },
+};
+
+export const provinces: Province[] = [
+  { code: "01", slug: "alava", name: "Araba/Álava", ccaa: "pais-vasco", aliases: ["araba", "vitoria"] },
+  { code: "02", slug: "albacete", name: "Albacete", ccaa: "castilla-la-mancha" },
+  { code: "03", slug: "alicante", name: "Alicante/Alacant", ccaa: "valencia", aliases: ["alacant"] },
+  { code: "04", slug: "almeria", name: "Almería", ccaa: "andalucia" },
+  { code: "05", slug: "avila", name: "Ávila", ccaa: "castilla-y-leon" },
+  { code: "06", slug: "badajoz", name: "Badajoz", ccaa: "extremadura" },
+  { code: "07", slug: "baleares", name: "Illes Balears", ccaa: "baleares", aliases: ["illes balears", "islas baleares", "palma", "palma de mallorca"] },
+  { code: "08", slug: "barcelona", name: "Barcelona", ccaa: "cataluna" },
+  { code: "09", slug: "burgos", name: "Burgos", ccaa: "castilla-y-leon" },
+  { code: "10", slug: "caceres", name: "Cáceres", ccaa: "extremadura" },
+  { code: "11", slug: "cadiz", name: "Cádiz", ccaa: "andalucia" },
+  { code: "12", slug: "castellon", name: "Castellón/Castelló", ccaa: "valencia", aliases: ["castello"] },
+  { code: "13", slug: "ciudad-real", name: "Ciudad Real", ccaa: "castilla-la-mancha" },
+  { code: "14", slug: "cordoba", name: "Córdoba", ccaa: "andalucia" },
+  { code: "15", slug: "a-coruna", name: "A Coruña", ccaa: "galicia", aliases: ["la coruna", "coruna"] },
+  { code: "16", slug: "cuenca", name: "Cuenca", ccaa: "castilla-la-mancha" },
+  { code: "17", slug: "girona", name: "Girona", ccaa: "cataluna", aliases: ["gerona"] },
+  { code: "18", slug: "granada", name: "Granada", ccaa: "andalucia" },
+  { code: "19", slug: "guadalajara", name: "Guadalajara", ccaa: "castilla-la-mancha" },
+  { code: "20", slug: "gipuzkoa", name: "Gipuzkoa", ccaa: "pais-vasco", aliases: ["guipuzcoa", "san sebastian", "donostia"] },
+  { code: "21", slug: "huelva", name: "Huelva", ccaa: "andalucia" },
+  { code: "22", slug: "huesca", name: "Huesca", ccaa: "aragon" },
+  { code: "23", slug: "jaen", name: "Jaén", ccaa: "andalucia" },
+  { code: "24", slug: "leon", name: "León", ccaa: "castilla-y-leon" },
+  { code: "25", slug: "lleida", name: "Lleida", ccaa: "cataluna", aliases: ["lerida"] },
+  { code: "26", slug: "la-rioja", name: "La Rioja", ccaa: "rioja", aliases: ["rioja", "logrono"] },
+  { code: "27", slug: "lugo", name: "Lugo", ccaa: "galicia" },
+  { code: "28", slug: "madrid", name: "Madrid", ccaa: "madrid" },
+  { code: "29", slug: "malaga", name: "Málaga", ccaa: "andalucia" },
+  { code: "30", slug: "murcia", name: "Murcia", ccaa: "murcia" },
+  { code: "31", slug: "navarra", name: "Navarra", ccaa: "navarra", aliases: ["nafarroa", "pamplona"] },
+  { code: "32", slug: "ourense", name: "Ourense", ccaa: "galicia", aliases: ["orense"] },
+  { code: "33", slug: "asturias", name: "Asturias", ccaa: "asturias", aliases: ["oviedo"] },
+  { code: "34", slug: "palencia", name: "Palencia", ccaa: "castilla-y-leon" },
+  { code: "35", slug: "las-palmas", name: "Las Palmas", ccaa: "canarias" },
+  { code: "36", slug: "pontevedra", name: "Pontevedra", ccaa: "galicia" },
+  { code: "37", slug: "salamanca", name: "Salamanca", ccaa: "castilla-y-leon" },
+  { code: "38", slug: "santa-cruz-de-tenerife", name: "Santa Cruz de Tenerife", ccaa: "canarias", aliases: ["tenerife"] },
+  { code: "39", slug: "cantabria", name: "Cantabria", ccaa: "cantabria", aliases: ["santander"] },
+  { code: "40", slug: "segovia", name: "Segovia", ccaa: "castilla-y-leon" },
+  { code: "41", slug: "sevilla", name: "Sevilla", ccaa: "andalucia" },
+  { code: "42", slug: "soria", name: "Soria", ccaa: "castilla-y-leon" },
+  { code: "43", slug: "tarragona", name: "Tarragona", ccaa: "cataluna" },
+  { code: "44", slug: "teruel", name: "Teruel", ccaa: "aragon" },
+  { code: "45", slug: "toledo", name: "Toledo", ccaa: "castilla-la-mancha" },
+  { code: "46", slug: "valencia", name: "Valencia/València", ccaa: "valencia" },
+  { code: "47", slug: "valladolid", name: "Valladolid", ccaa: "castilla-y-leon" },
+  { code: "48", slug: "bizkaia", name: "Bizkaia", ccaa: "pais-vasco", aliases: ["vizcaya", "bilbao"] },
+  { code: "49", slug: "zamora", name: "Zamora", ccaa: "castilla-y-leon" },
+  { code: "50", slug: "zaragoza", name: "Zaragoza", ccaa: "aragon" },
+  { code: "51", slug: "ceuta", name: "Ceuta", ccaa: "ceuta" },
+  { code: "52", slug: "melilla", name: "Melilla", ccaa: "melilla" },
+];
+
+// Lowercase, strip accents and collapse separators so "Málaga", "malaga"
+// and "MALAGA" all match
+const normalize = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+export function findProvince(
+  province: string | undefined,
+  postalCode?: string
+): Province | null {
+  const key = normalize(province ?? "");
+  if (key) {
+    const match = provinces.find(
+      (candidate) =>
+        normalize(candidate.slug) === key ||
+        candidate.name.split("/").some((name) => normalize(name) === key) ||
+        candidate.aliases?.some((alias) => normalize(alias) === key)
+    );
+    if (match) return match;
+  }
+
+  // Fall back to the postal code, whose first two digits are the province
+  const prefix = postalCode?.match(/^([0-9]{2})[0-9]{3}$/)?.[1];
+  return provinces.find((candidate) => candidate.code === prefix) ?? null;
+}
+
+// Resolve the comunidad autónoma of a taxpayer from the captured province,
+// or from the postal code when the province is missing or unknown
+export function resolveCcaa(
+  province: string | undefined,
+  postalCode?: string
+): Ccaa | null {
+  const match = findProvince(province, postalCode);
+  return match ? ccaaList[match.ccaa] : null;
+}
+
+export function isForal(ccaa: Ccaa | null): boolean {
+  return ccaa?.regime === "foral";
+}
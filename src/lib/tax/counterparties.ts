@@ -0,0 +1,91 @@
+import type {
+  Counterparty,
+  DeclarationPeriod,
+  Quarter,
+} from "@/lib/declaration/types";
+
+import { roundCents, toAmount } from "./amounts";
+import type { CalculationLine } from "./types";
+
+// NIFs and VAT numbers are compared without spaces, dots or dashes
+export const normalizeNif = (nif: string): string =>
+  nif.replace(/[\s.-]/g, "").toUpperCase();
+
+// Quarters a list of counterparties is broken down by: the whole year for
+// annual declarations, just the declared quarter for quarterly ones
+export function getCounterpartyQuarters(
+  period: DeclarationPeriod
+): Quarter[] {
+  return period.quarter ? [period.quarter] : [1, 2, 3, 4];
+}
+
+// Total of a counterparty over the given quarters
+export function getCounterpartyTotal(
+  counterparty: Counterparty,
+  quarters: Quarter[]
+): number {
+  return roundCents(
+    quarters.reduce(
+      (sum, quarter) => sum + toAmount(counterparty.amounts[quarter]),
+      0
+    )
+  );
+}
+
+// One line per clave de operación with operations, plus their total
+export function getCounterpartyLines(
+  counterparties: Counterparty[],
+  quarters: Quarter[],
+  keys: Record<string, string>
+): CalculationLine[] {
+  const lines: CalculationLine[] = Object.entries(keys).map(
+    ([key, label]) => ({
+      label: `${label} (clave ${key})`,
+      amount: roundCents(
+        counterparties
+          .filter((counterparty) => counterparty.key === key)
+          .reduce(
+            (sum, counterparty) =>
+              sum + getCounterpartyTotal(counterparty, quarters),
+            0
+          )
+      ),
+    })
+  );
+  const total = lines.reduce((sum, { amount }) => sum + amount, 0);
+
+  return [
+    ...lines.filter(({ amount }) => amount !== 0),
+    {
+      label: "Importe total de las operaciones",
+      amount: roundCents(total),
+      emphasis: "subtotal",
+    },
+  ];
+}
+
+// Row errors shared by every list, keyed "counterparties.<index>.<field>":
+// each counterparty is declared once per clave, and only with a known clave
+export function getCounterpartyErrors(
+  counterparties: Counterparty[],
+  keys: Record<string, string>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+
+  counterparties.forEach((counterparty, index) => {
+    const nif = normalizeNif(counterparty.nif);
+    if (!(counterparty.key in keys)) {
+      errors[`counterparties.${index}.key`] = "Elige una clave de operación";
+    }
+    if (!nif) return;
+    const id = `${nif}-${counterparty.key}`;
+    if (seen.has(id)) {
+      errors[`counterparties.${index}.nif`] =
+        "Ya está declarado con esta clave: suma sus importes en una sola fila";
+    }
+    seen.add(id);
+  });
+
+  return errors;
+}
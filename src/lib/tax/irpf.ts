@@ -0,0 +1,410 @@
+import type { Modelo100Declaration } from "@/lib/declaration/types";
+
+import { applyScale, forYear, roundCents, toAmount } from "./amounts";
+import { isForal, resolveCcaa, type CcaaId } from "./ccaa";
+import { getRegionalTable } from "./regional-tables";
+import type { CalculationBreakdown, CalculationLine, TaxBracket } from "./types";
+
+// Piecewise reducción por obtención de rendimientos del trabajo (art. 20
+// LIRPF): `amount - slope * (net - from)` for net incomes up to `upTo`
+interface WorkReductionSegment {
+  from: number;
+  upTo: number;
+  amount: number;
+  slope: number;
+}
+
+interface IrpfParameters {
+  workOtherExpenses: number;
+  workReduction: WorkReductionSegment[];
+  pensionContributionLimit: number;
+  pensionContributionShare: number;
+  personalMinimum: number;
+  personalMinimumOver65: number;
+  personalMinimumOver75: number;
+  descendantMinimums: number[];
+  descendantUnder3Minimum: number;
+  ascendantMinimum: number;
+  ascendantOver75Minimum: number;
+  disabilityMinimum: number;
+  severeDisabilityMinimum: number;
+  stateGeneralScale: TaxBracket[];
+  regionalGeneralScale: TaxBracket[];
+  stateSavingsScale: TaxBracket[];
+  regionalSavingsScale: TaxBracket[];
+  donationFirstTier: number;
+  donationFirstTierRate: number;
+  donationRate: number;
+  donationBaseLimit: number;
+  housingDeductionRate: number;
+  housingDeductionLimit: number;
+}
+
+const stateGeneralScale: TaxBracket[] = [
+  { upTo: 12450, rate: 0.095 },
+  { upTo: 20200, rate: 0.12 },
+  { upTo: 35200, rate: 0.15 },
+  { upTo: 60000, rate: 0.185 },
+  { upTo: 300000, rate: 0.225 },
+  { upTo: null, rate: 0.245 },
+];
+
+// Escala autonómica supletoria (DA 15ª LIRPF), used when the comunidad
+// autónoma's own scale is not in the regional tables
+const supplementaryRegionalScale: TaxBracket[] = [
+  { upTo: 12450, rate: 0.095 },
+  { upTo: 20200, rate: 0.12 },
+  { upTo: 35200, rate: 0.15 },
+  { upTo: 60000, rate: 0.185 },
+  { upTo: null, rate: 0.225 },
+];
+
+// Each half (state and regional) of the savings scale, which together make
+// the 19, 21, 23, 27 and 28% of the base del ahorro
+const savingsScale: TaxBracket[] = [
+  { upTo: 6000, rate: 0.095 },
+  { upTo: 50000, rate: 0.105 },
+  { upTo: 200000, rate: 0.115 },
+  { upTo: 300000, rate: 0.135 },
+  { upTo: null, rate: 0.14 },
+];
+
+const commonParameters = {
+  workOtherExpenses: 2000,
+  pensionContributionLimit: 1500,
+  pensionContributionShare: 0.3,
+  personalMinimum: 5550,
+  personalMinimumOver65: 1150,
+  personalMinimumOver75: 1400,
+  descendantMinimums: [2400, 2700, 4000, 4500],
+  descendantUnder3Minimum: 2800,
+  ascendantMinimum: 1150,
+  ascendantOver75Minimum: 1400,
+  disabilityMinimum: 3000,
+  severeDisabilityMinimum: 9000,
+  stateGeneralScale,
+  regionalGeneralScale: supplementaryRegionalScale,
+  stateSavingsScale: savingsScale,
+  regionalSavingsScale: savingsScale,
+  donationBaseLimit: 0.1,
+  housingDeductionRate: 0.15,
+  housingDeductionLimit: 9040,
+};
+
+// Parameters per tax year (ejercicio)
+const irpfParameters: Record<number, IrpfParameters> = {
+  2023: {
+    ...commonParameters,
+    workReduction: [
+      { from: 0, upTo: 14047.5, amount: 6498, slope: 0 },
+      { from: 14047.5, upTo: 19747.5, amount: 6498, slope: 1.14 },
+    ],
+    donationFirstTier: 150,
+    donationFirstTierRate: 0.8,
+    donationRate: 0.35,
+  },
+  2024: {
+    ...commonParameters,
+    workReduction: [
+      { from: 0, upTo: 14852, amount: 7302, slope: 0 },
+      { from: 14852, upTo: 17673.52, amount: 7302, slope: 1.75 },
+      { from: 17673.52, upTo: 19747.5, amount: 2364.34, slope: 1.14 },
+    ],
+    donationFirstTier: 250,
+    donationFirstTierRate: 0.8,
+    donationRate: 0.4,
+  },
+};
+
+export interface IrpfResult extends CalculationBreakdown {
+  year: number;
+  ccaa: CcaaId | null;
+  baseImponibleGeneral: number;
+  baseImponibleAhorro: number;
+  baseLiquidableGeneral: number;
+  baseLiquidableAhorro: number;
+  minimoPersonalFamiliar: number;
+  cuotaIntegraEstatal: number;
+  cuotaIntegraAutonomica: number;
+  cuotaLiquida: number;
+  cuotaDiferencial: number;
+}
+
+function workIncomeReduction(
+  netIncome: number,
+  segments: WorkReductionSegment[]
+): number {
+  if (netIncome <= 0) return 0;
+  const segment = segments.find(({ upTo }) => netIncome <= upTo);
+  if (!segment) return 0;
+  const reduction = segment.amount - segment.slope * (netIncome - segment.from);
+  return roundCents(Math.min(netIncome, Math.max(0, reduction)));
+}
+
+// Age reached on the last day of the tax year
+function ageAtYearEnd(birthDate: string, year: number): number | null {
+  const date = new Date(birthDate);
+  if (isNaN(date.getTime())) return null;
+  return year - date.getFullYear();
+}
+
+// Count fields of the family section are stored as strings
+const count = (value: string) => Math.max(0, Math.floor(toAmount(value)));
+
+function minimoPersonalFamiliar(
+  declaration: Modelo100Declaration,
+  params: IrpfParameters,
+  year: number
+): number {
+  const { family } = declaration;
+  const age = ageAtYearEnd(declaration.taxpayer.birthDate, year);
+
+  let minimum = params.personalMinimum;
+  if (age !== null && age > 65) minimum += params.personalMinimumOver65;
+  if (age !== null && age > 75) minimum += params.personalMinimumOver75;
+
+  const descendants = count(family.descendants);
+  for (let i = 0; i < descendants; i++) {
+    const perChild = params.descendantMinimums;
+    minimum += perChild[Math.min(i, perChild.length - 1)];
+  }
+  minimum +=
+    Math.min(count(family.descendantsUnder3), descendants) *
+    params.descendantUnder3Minimum;
+
+  const ascendants = count(family.ascendantsOver65);
+  minimum += ascendants * params.ascendantMinimum;
+  minimum +=
+    Math.min(count(family.ascendantsOver75), ascendants) *
+    params.ascendantOver75Minimum;
+
+  const disability = toAmount(family.disabilityDegree);
+  if (disability >= 65) minimum += params.severeDisabilityMinimum;
+  else if (disability >= 33) minimum += params.disabilityMinimum;
+
+  return minimum;
+}
+
+// Quota of one half (state or regional): the scale applied to the base minus
+// the scale applied to the part of the mínimo the base absorbs. Whatever the
+// general base cannot absorb is applied to the savings base
+function halfQuota(
+  generalBase: number,
+  savingsBase: number,
+  minimum: number,
+  generalScale: TaxBracket[],
+  savingsScale: TaxBracket[]
+): number {
+  const minimumInGeneral = Math.min(minimum, generalBase);
+  const minimumInSavings = Math.min(minimum - minimumInGeneral, savingsBase);
+
+  const generalQuota =
+    applyScale(generalBase, generalScale) -
+    applyScale(minimumInGeneral, generalScale);
+  const savingsQuota =
+    applyScale(savingsBase, savingsScale) -
+    applyScale(minimumInSavings, savingsScale);
+
+  return roundCents(Math.max(0, generalQuota) + Math.max(0, savingsQuota));
+}
+
+export function calculateIrpf(declaration: Modelo100Declaration): IrpfResult {
+  const year = declaration.period.year;
+  const params = forYear(irpfParameters, year);
+  const { income, deductions, family, taxpayer } = declaration;
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+
+  // Rendimientos del trabajo
+  const grossWork = toAmount(income.salaryIncome);
+  const socialSecurity = toAmount(deductions.socialSecurity);
+  const otherWorkExpenses =
+    grossWork > 0
+      ? Math.min(params.workOtherExpenses, Math.max(0, grossWork - socialSecurity))
+      : 0;
+  const workBeforeReduction = Math.max(
+    0,
+    grossWork - socialSecurity - otherWorkExpenses
+  );
+  const workReduction = workIncomeReduction(
+    workBeforeReduction,
+    params.workReduction
+  );
+  const netWork = roundCents(workBeforeReduction - workReduction);
+  line("Rendimientos íntegros del trabajo", grossWork);
+  line("Cotizaciones a la Seguridad Social", -socialSecurity);
+  line("Otros gastos deducibles", -otherWorkExpenses);
+  line("Reducción por obtención de rendimientos del trabajo", -workReduction);
+  line("Rendimiento neto reducido del trabajo", netWork, "subtotal");
+
+  const activities = toAmount(income.selfEmploymentIncome);
+  const rental = toAmount(income.rentalIncome);
+  const other = toAmount(income.otherIncome);
+  line("Rendimientos de actividades económicas", activities);
+  line("Rendimientos del capital inmobiliario", rental);
+  line("Otros rendimientos", other);
+
+  const baseImponibleGeneral = roundCents(
+    Math.max(0, netWork + activities + rental + other)
+  );
+  line("Base imponible general", baseImponibleGeneral, "subtotal");
+
+  const capital = toAmount(income.capitalIncome);
+  const gains = toAmount(income.capitalGainsIncome);
+  line("Rendimientos del capital mobiliario", capital);
+  line("Ganancias patrimoniales", gains);
+  const baseImponibleAhorro = roundCents(Math.max(0, capital + gains));
+  line("Base imponible del ahorro", baseImponibleAhorro, "subtotal");
+
+  // Reducciones: aportaciones a sistemas de previsión social
+  const pensionReduction = Math.min(
+    toAmount(deductions.pensionContributions),
+    params.pensionContributionLimit,
+    Math.max(0, netWork + activities) * params.pensionContributionShare,
+    baseImponibleGeneral
+  );
+  line("Reducción por aportaciones a planes de pensiones", -pensionReduction);
+
+  const baseLiquidableGeneral = roundCents(
+    baseImponibleGeneral - pensionReduction
+  );
+  const baseLiquidableAhorro = baseImponibleAhorro;
+  line("Base liquidable general", baseLiquidableGeneral, "subtotal");
+  line("Base liquidable del ahorro", baseLiquidableAhorro, "subtotal");
+
+  const minimum = minimoPersonalFamiliar(declaration, params, year);
+  line("Mínimo personal y familiar", minimum);
+
+  const cuotaIntegraEstatal = halfQuota(
+    baseLiquidableGeneral,
+    baseLiquidableAhorro,
+    minimum,
+    params.stateGeneralScale,
+    params.stateSavingsScale
+  );
+
+  // Regional half: the comunidad of residence's own scale and deductions
+  const ccaa = resolveCcaa(taxpayer.province, taxpayer.postalCode);
+  const regional = getRegionalTable(ccaa?.id, year);
+  const notices: string[] = [];
+  if (!ccaa) {
+    notices.push(
+      "No se ha podido determinar la comunidad autónoma a partir de la provincia o el código postal: se aplica la escala autonómica supletoria."
+    );
+  } else if (isForal(ccaa)) {
+    notices.push(
+      `${ccaa.name} tiene régimen foral propio, que no está soportado: el IRPF se presenta ante su Hacienda foral y este cálculo, con el régimen común, es solo orientativo.`
+    );
+  } else if (!regional.table.irpfGeneralScale) {
+    notices.push(
+      `No disponemos de la escala autonómica de ${ccaa.name} para ${year}: se aplica la escala supletoria.`
+    );
+  }
+  const regionalScale =
+    ccaa && !isForal(ccaa) && regional.table.irpfGeneralScale
+      ? regional.table.irpfGeneralScale
+      : params.regionalGeneralScale;
+
+  const cuotaIntegraAutonomica = halfQuota(
+    baseLiquidableGeneral,
+    baseLiquidableAhorro,
+    minimum,
+    regionalScale,
+    params.regionalSavingsScale
+  );
+  line("Cuota íntegra estatal", cuotaIntegraEstatal);
+  line("Cuota íntegra autonómica", cuotaIntegraAutonomica);
+
+  // Deducciones de la cuota. Donations count up to a share of the base
+  // liquidable (art. 69.1 LIRPF) before the tiers are applied
+  const donations = Math.min(
+    toAmount(deductions.donations),
+    (baseLiquidableGeneral + baseLiquidableAhorro) * params.donationBaseLimit
+  );
+  const donationDeduction =
+    Math.min(donations, params.donationFirstTier) *
+      params.donationFirstTierRate +
+    Math.max(0, donations - params.donationFirstTier) * params.donationRate;
+  const housingDeduction =
+    Math.min(toAmount(deductions.mortgageInterest), params.housingDeductionLimit) *
+    params.housingDeductionRate;
+  const otherDeductions = toAmount(deductions.otherDeductions);
+  line("Deducción por donativos", -donationDeduction);
+  line("Deducción por inversión en vivienda habitual", -housingDeduction);
+  line("Otras deducciones", -otherDeductions);
+
+  const context = {
+    age: ageAtYearEnd(taxpayer.birthDate, year),
+    descendants: count(family.descendants),
+    descendantsUnder3: count(family.descendantsUnder3),
+    disabilityDegree: toAmount(family.disabilityDegree),
+    donations,
+    baseLiquidable: baseLiquidableGeneral + baseLiquidableAhorro,
+  };
+  const regionalDeductions =
+    ccaa && !isForal(ccaa) ? regional.table.irpfDeductions : [];
+  let regionalDeductionTotal = 0;
+  for (const deduction of regionalDeductions) {
+    const amount = roundCents(Math.max(0, deduction.amount(context)));
+    regionalDeductionTotal += amount;
+    line(deduction.label, -amount);
+  }
+
+  // Donations and other deductions go against the state half, regional
+  // deductions against the regional one; the housing deduction is split
+  // evenly between both halves
+  const cuotaLiquidaEstatal = Math.max(
+    0,
+    cuotaIntegraEstatal - donationDeduction - otherDeductions - housingDeduction / 2
+  );
+  const cuotaLiquidaAutonomica = Math.max(
+    0,
+    cuotaIntegraAutonomica - housingDeduction / 2 - regionalDeductionTotal
+  );
+  const cuotaLiquida = roundCents(cuotaLiquidaEstatal + cuotaLiquidaAutonomica);
+  line("Cuota líquida", cuotaLiquida, "subtotal");
+
+  const withholdings = toAmount(deductions.withholdings);
+  line("Retenciones y pagos a cuenta", -withholdings);
+  const cuotaDiferencial = roundCents(cuotaLiquida - withholdings);
+  line("Cuota diferencial", cuotaDiferencial, "subtotal");
+
+  // Deducciones por maternidad, familia numerosa y discapacidad (art. 81 y
+  // 81 bis) reduce the cuota diferencial and can turn into a refund
+  const familyDeductions = toAmount(deductions.familyDeductions);
+  const disabilityDeductions = toAmount(deductions.disabilityDeductions);
+  line("Deducciones familiares", -familyDeductions);
+  line("Deducciones por discapacidad", -disabilityDeductions);
+
+  const result = roundCents(
+    cuotaDiferencial - familyDeductions - disabilityDeductions
+  );
+  line(
+    result >= 0 ? "Resultado a ingresar" : "Resultado a devolver",
+    result,
+    "total"
+  );
+
+  return {
+    year,
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result,
+    notices,
+    ccaa: ccaa?.id ?? null,
+    baseImponibleGeneral,
+    baseImponibleAhorro,
+    baseLiquidableGeneral,
+    baseLiquidableAhorro,
+    minimoPersonalFamiliar: minimum,
+    cuotaIntegraEstatal,
+    cuotaIntegraAutonomica,
+    cuotaLiquida,
+    cuotaDiferencial,
+  };
+}
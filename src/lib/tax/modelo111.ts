@@ -0,0 +1,204 @@
+import type {
+  Modelo111Declaration,
+  Modelo111Income,
+} from "@/lib/declaration/types";
+
+import { forYear, roundCents, toAmount } from "./amounts";
+import type { CalculationBreakdown, CalculationLine } from "./types";
+
+interface Modelo111Parameters {
+  // Retención on actividades profesionales (art. 101.5 LIRPF), reduced in
+  // the year the activity starts and the two following ones
+  professionalRate: number;
+  newProfessionalRate: number;
+  prizeRate: number;
+}
+
+// Parameters per tax year (ejercicio)
+const modelo111Parameters: Record<number, Modelo111Parameters> = {
+  2023: {
+    professionalRate: 0.15,
+    newProfessionalRate: 0.07,
+    prizeRate: 0.19,
+  },
+  2024: {
+    professionalRate: 0.15,
+    newProfessionalRate: 0.07,
+    prizeRate: 0.19,
+  },
+};
+
+// Each kind of income is declared as perceptores, percepciones and
+// retenciones (or ingresos a cuenta, for payments in kind)
+interface IncomeGroup {
+  label: string;
+  recipients: keyof Modelo111Income;
+  payments: keyof Modelo111Income;
+  withholdings: keyof Modelo111Income;
+  casillas: [string, string, string];
+}
+
+export const incomeGroups: IncomeGroup[] = [
+  {
+    label: "Rendimientos del trabajo",
+    recipients: "workRecipients",
+    payments: "workPayments",
+    withholdings: "workWithholdings",
+    casillas: ["01", "02", "03"],
+  },
+  {
+    label: "Rendimientos del trabajo en especie",
+    recipients: "workInKindRecipients",
+    payments: "workInKindPayments",
+    withholdings: "workInKindPrepayments",
+    casillas: ["04", "05", "06"],
+  },
+  {
+    label: "Actividades económicas",
+    recipients: "professionalRecipients",
+    payments: "professionalPayments",
+    withholdings: "professionalWithholdings",
+    casillas: ["07", "08", "09"],
+  },
+  {
+    label: "Actividades económicas en especie",
+    recipients: "professionalInKindRecipients",
+    payments: "professionalInKindPayments",
+    withholdings: "professionalInKindPrepayments",
+    casillas: ["10", "11", "12"],
+  },
+  {
+    label: "Premios",
+    recipients: "prizeRecipients",
+    payments: "prizePayments",
+    withholdings: "prizeWithholdings",
+    casillas: ["13", "14", "15"],
+  },
+  {
+    label: "Cesión de derechos de imagen",
+    recipients: "imageRightsRecipients",
+    payments: "imageRightsPayments",
+    withholdings: "imageRightsPrepayments",
+    casillas: ["25", "26", "27"],
+  },
+];
+
+const percent = (rate: number) => roundCents(rate * 100);
+
+export interface Modelo111Result extends CalculationBreakdown {
+  // Every casilla of the liquidación, keyed by its official number
+  casillas: Record<string, number>;
+}
+
+// Rates differ from one perceptor to another, so the retenciones are taken as
+// declared and only checked against the usual rates
+export function calculateModelo111(
+  declaration: Modelo111Declaration
+): Modelo111Result {
+  const params = forYear(modelo111Parameters, declaration.period.year);
+  const { income, deductions } = declaration;
+  const casillas: Record<string, number> = {};
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+  const set = (casilla: string, amount: number) => {
+    casillas[casilla] = roundCents(amount);
+    return casillas[casilla];
+  };
+
+  let totalWithholdings = 0;
+  for (const group of incomeGroups) {
+    const [recipientsCasilla, paymentsCasilla, withholdingsCasilla] =
+      group.casillas;
+    set(recipientsCasilla, toAmount(income[group.recipients]));
+    set(paymentsCasilla, toAmount(income[group.payments]));
+    const withholdings = set(
+      withholdingsCasilla,
+      toAmount(income[group.withholdings])
+    );
+    line(`${group.label} [${withholdingsCasilla}]`, withholdings);
+    totalWithholdings += withholdings;
+  }
+
+  const total = set("28", totalWithholdings);
+  line("Suma de retenciones e ingresos a cuenta [28]", total, "subtotal");
+
+  const previousResult = set("29", toAmount(deductions.previousResult));
+  line("Resultado de declaraciones anteriores [29]", -previousResult);
+
+  const result = set("30", total - previousResult);
+  line(
+    result > 0 ? "Resultado a ingresar [30]" : "Resultado cero [30]",
+    result,
+    "total"
+  );
+
+  const notices: string[] = [];
+  const professionalPayments = casillas["08"];
+  if (professionalPayments > 0) {
+    const rate = casillas["09"] / professionalPayments;
+    const expected = [params.professionalRate, params.newProfessionalRate];
+    if (!expected.some((candidate) => Math.abs(rate - candidate) < 0.005)) {
+      notices.push(
+        `Las retenciones de actividades económicas [09] equivalen al ${percent(
+          rate
+        )}% de las percepciones: lo habitual para profesionales es el ${percent(
+          params.professionalRate
+        )}% (${percent(params.newProfessionalRate)}% en inicio de actividad).`
+      );
+    }
+  }
+  const prizePayments = casillas["14"];
+  if (
+    prizePayments > 0 &&
+    Math.abs(casillas["15"] - prizePayments * params.prizeRate) >= 0.01
+  ) {
+    notices.push(
+      `Las retenciones sobre premios [15] suelen ser el ${percent(
+        params.prizeRate
+      )}% de su importe.`
+    );
+  }
+
+  return {
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result,
+    notices,
+    outcome: result > 0 ? "ingresar" : "cero",
+    casillas,
+  };
+}
+
+// Field errors keyed "section.field": every group with percepciones needs
+// its perceptores, retenciones can't exceed what was paid, and a
+// complementaria can't subtract more than the retenciones it declares
+export function getModelo111Errors(
+  declaration: Modelo111Declaration
+): Record<string, string> {
+  const { income, deductions } = declaration;
+  const errors: Record<string, string> = {};
+
+  for (const group of incomeGroups) {
+    const payments = toAmount(income[group.payments]);
+    if (payments > 0 && toAmount(income[group.recipients]) === 0) {
+      errors[`income.${group.recipients}`] = "Indica el número de perceptores";
+    }
+    if (toAmount(income[group.withholdings]) > payments) {
+      errors[`income.${group.withholdings}`] =
+        "No puede superar el importe de las percepciones";
+    }
+  }
+
+  const { casillas } = calculateModelo111(declaration);
+  if (toAmount(deductions.previousResult) > casillas["28"]) {
+    errors["deductions.previousResult"] =
+      "No puede superar la suma de retenciones [28]";
+  }
+
+  return errors;
+}
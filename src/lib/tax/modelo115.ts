@@ -0,0 +1,80 @@
+import type { Modelo115Declaration } from "@/lib/declaration/types";
+
+import { forYear, roundCents, toAmount } from "./amounts";
+import type { CalculationBreakdown, CalculationLine } from "./types";
+
+// Retención on the rent of urban properties (art. 101.8 LIRPF), per tax year
+export const rentRates: Record<number, number> = {
+  2016: 0.19,
+};
+
+export interface Modelo115Result extends CalculationBreakdown {
+  casillas: Record<string, number>;
+}
+
+export function calculateModelo115(
+  declaration: Modelo115Declaration
+): Modelo115Result {
+  const rate = forYear(rentRates, declaration.period.year);
+  const { income, deductions } = declaration;
+  const casillas: Record<string, number> = {};
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+  const set = (casilla: string, amount: number) => {
+    casillas[casilla] = roundCents(amount);
+    return casillas[casilla];
+  };
+
+  set("01", toAmount(income.rentRecipients));
+  const base = set("02", toAmount(income.rentBase));
+  line("Base de las retenciones [02]", base, "subtotal");
+
+  const withholdings = set("03", base * rate);
+  line(`Retenciones al ${rate * 100}% [03]`, withholdings);
+
+  const previousResult = set("04", toAmount(deductions.previousResult));
+  line("Resultado de declaraciones anteriores [04]", -previousResult);
+
+  const result = set("05", withholdings - previousResult);
+  line(
+    result > 0 ? "Resultado a ingresar [05]" : "Resultado cero [05]",
+    result,
+    "total"
+  );
+
+  return {
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result,
+    outcome: result > 0 ? "ingresar" : "cero",
+    casillas,
+  };
+}
+
+// Field errors keyed "section.field", like getModelo111Errors
+export function getModelo115Errors(
+  declaration: Modelo115Declaration
+): Record<string, string> {
+  const { income, deductions } = declaration;
+  const errors: Record<string, string> = {};
+
+  if (
+    toAmount(income.rentBase) > 0 &&
+    toAmount(income.rentRecipients) === 0
+  ) {
+    errors["income.rentRecipients"] = "Indica el número de arrendadores";
+  }
+
+  const { casillas } = calculateModelo115(declaration);
+  if (toAmount(deductions.previousResult) > casillas["03"]) {
+    errors["deductions.previousResult"] =
+      "No puede superar las retenciones [03]";
+  }
+
+  return errors;
+}
@@ -0,0 +1,209 @@
+import type {
+  Declaration,
+  Modelo130Declaration,
+} from "@/lib/declaration/types";
+
+import { forYear, roundCents, toAmount } from "./amounts";
+import type { CalculationBreakdown, CalculationLine } from "./types";
+
+interface Modelo130Parameters {
+  paymentRate: number;
+  // Gastos de difícil justificación in estimación directa simplificada
+  // (art. 30.2.4ª LIRPF), a share of the net profit with a yearly cap
+  hardToJustifyRate: number;
+  hardToJustifyLimit: number;
+}
+
+// Parameters per tax year (ejercicio); 2023 raised the difícil
+// justificación share to 7%
+const modelo130Parameters: Record<number, Modelo130Parameters> = {
+  2023: {
+    paymentRate: 0.2,
+    hardToJustifyRate: 0.07,
+    hardToJustifyLimit: 2000,
+  },
+  2024: {
+    paymentRate: 0.2,
+    hardToJustifyRate: 0.05,
+    hardToJustifyLimit: 2000,
+  },
+};
+
+const getHardToJustify = (
+  revenue: number,
+  expenses: number,
+  params: Modelo130Parameters
+) =>
+  Math.min(
+    params.hardToJustifyLimit,
+    Math.max(0, revenue - expenses) * params.hardToJustifyRate
+  );
+
+export interface Modelo130Result extends CalculationBreakdown {
+  // Every casilla of the liquidación, keyed by its official number
+  casillas: Record<string, number>;
+}
+
+// The 130 is cumulative: ingresos and gastos run from 1 January to the end
+// of the quarter, and what earlier quarters already paid is subtracted
+export function calculateModelo130(
+  declaration: Modelo130Declaration
+): Modelo130Result {
+  const params = forYear(modelo130Parameters, declaration.period.year);
+  const { income, deductions } = declaration;
+  const casillas: Record<string, number> = {};
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+  const set = (casilla: string, amount: number) => {
+    casillas[casilla] = roundCents(amount);
+    return casillas[casilla];
+  };
+
+  const revenue = set(
+    "01",
+    toAmount(income.selfEmploymentIncome) + toAmount(income.otherIncome)
+  );
+  const expenses =
+    toAmount(deductions.socialSecurity) + toAmount(deductions.otherDeductions);
+  const hardToJustify = getHardToJustify(revenue, expenses, params);
+  set("02", expenses + hardToJustify);
+  line("Ingresos computables [01]", revenue);
+  line("Gastos fiscalmente deducibles", -expenses);
+  line("Gastos de difícil justificación", -hardToJustify);
+
+  const netProfit = set("03", revenue - casillas["02"]);
+  line("Rendimiento neto acumulado [03]", netProfit, "subtotal");
+
+  const payment = set("04", Math.max(0, netProfit) * params.paymentRate);
+  line(`${params.paymentRate * 100}% del rendimiento neto [04]`, payment);
+
+  const previousPayments = set("05", toAmount(deductions.previousPayments));
+  const withholdings = set("06", toAmount(deductions.withholdings));
+  line("Pagos fraccionados de trimestres anteriores [05]", -previousPayments);
+  line("Retenciones e ingresos a cuenta [06]", -withholdings);
+
+  const provisional = set("07", payment - previousPayments - withholdings);
+  line("Pago fraccionado previo [07]", provisional, "subtotal");
+
+  // No agricultural activities (sección II) nor minoración del art. 110.3.c
+  set("12", provisional);
+  set("13", 0);
+  const beforeNegatives = set("14", provisional);
+
+  // Negative results of earlier quarters not yet deducted (from the
+  // minoraciones this form does not model) only absorb a positive result
+  const appliedNegativeResults = set(
+    "15",
+    Math.min(
+      Math.max(0, toAmount(deductions.negativeResults)),
+      Math.max(0, beforeNegatives)
+    )
+  );
+  line(
+    "Resultados negativos de trimestres anteriores [15]",
+    -appliedNegativeResults
+  );
+
+  set("16", 0);
+  set("17", beforeNegatives - appliedNegativeResults);
+  const result = set("19", casillas["17"]);
+
+  // A negative 130 is never refunded: it is declared as such and deducted
+  // from later quarters of the same year
+  const outcome =
+    result > 0 ? "ingresar" : result === 0 ? "cero" : "compensar";
+  line(
+    result > 0
+      ? "Resultado a ingresar [19]"
+      : result === 0
+      ? "Resultado cero [19]"
+      : "Resultado negativo a deducir en trimestres posteriores [19]",
+    result,
+    "total"
+  );
+
+  const notices: string[] = [];
+  if (declaration.period.quarter === 4 && result < 0) {
+    notices.push(
+      "Los resultados negativos del 4T no se trasladan al año siguiente: se regularizan en la declaración anual del IRPF."
+    );
+  }
+
+  return {
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result,
+    notices,
+    outcome,
+    casillas,
+  };
+}
+
+// Fill casilla 05 from the taxpayer's stored 130s of the earlier quarters of
+// the same year. Without stored quarters the captured value is kept, since it
+// may come from the user or an uploaded form
+export function withPreviousQuarters(
+  declaration: Modelo130Declaration,
+  history: Declaration[]
+): Modelo130Declaration {
+  const quarter = declaration.period.quarter ?? 1;
+  const earlier = history.filter(
+    (stored): stored is Modelo130Declaration =>
+      stored.modelo === "modelo130" &&
+      stored.taxpayer.nif.toUpperCase() ===
+        declaration.taxpayer.nif.toUpperCase() &&
+      stored.period.year === declaration.period.year &&
+      (stored.period.quarter ?? 0) < quarter
+  );
+  if (earlier.length === 0) return declaration;
+
+  // Only positive casillas 07 count: a negative one is already made up for by
+  // the cumulative rendimiento and retenciones of the following quarters
+  const previousPayments = earlier.reduce(
+    (sum, stored) =>
+      sum + Math.max(0, calculateModelo130(stored).casillas["07"]),
+    0
+  );
+
+  return {
+    ...declaration,
+    deductions: {
+      ...declaration.deductions,
+      previousPayments: roundCents(previousPayments).toFixed(2),
+    },
+  };
+}
+
+// Gastos fiscalmente deducibles behind a casilla 02, which also holds the
+// gastos de difícil justificación worked out from them. Used to read back
+// filed forms and presentation files, which only carry the casilla
+export function getModelo130Expenses(
+  revenue: number,
+  casilla02: number,
+  year: number
+): number {
+  const params = forYear(modelo130Parameters, year);
+  const toCasilla = (expenses: number) =>
+    roundCents(expenses + getHardToJustify(revenue, expenses, params));
+
+  // No difícil justificación, the capped one, or the share of the profit
+  const candidates = [
+    casilla02,
+    casilla02 - params.hardToJustifyLimit,
+    (casilla02 - revenue * params.hardToJustifyRate) /
+      (1 - params.hardToJustifyRate),
+  ];
+  for (const candidate of candidates) {
+    // Rounding the share to cents may leave the inverse one cent away
+    for (const offset of [0, -0.01, 0.01]) {
+      const expenses = roundCents(candidate + offset);
+      if (expenses >= 0 && toCasilla(expenses) === casilla02) return expenses;
+    }
+  }
+  return casilla02;
+}
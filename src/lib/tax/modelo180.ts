@@ -0,0 +1,83 @@
+import type {
+  Declaration,
+  Modelo115Declaration,
+  Modelo180Declaration,
+} from "@/lib/declaration/types";
+
+import { forYear, roundCents, sumAmounts, toAmount } from "./amounts";
+import { calculateModelo115, rentRates } from "./modelo115";
+import type { CalculationBreakdown, CalculationLine } from "./types";
+
+// Like the 190, the resumen anual of rent retenciones has to match what the
+// 115s of the year paid in
+export function calculateModelo180(
+  declaration: Modelo180Declaration
+): CalculationBreakdown {
+  const rate = forYear(rentRates, declaration.period.year);
+  const { income, deductions } = declaration;
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+
+  const base = toAmount(income.rentBase);
+  line("Base de las retenciones del ejercicio", base, "subtotal");
+  const withholdings = roundCents(base * rate);
+  line(`Retenciones al ${rate * 100}%`, withholdings);
+
+  const paid = toAmount(deductions.quarterlyPayments);
+  line("Ingresado en los Modelos 115 del ejercicio", -paid);
+  const difference = roundCents(withholdings - paid);
+  line("Diferencia", difference, "subtotal");
+  line("Importe a ingresar o devolver", 0, "total");
+
+  const notices = [
+    "El Modelo 180 es una declaración informativa: las retenciones se ingresan con los Modelos 115.",
+  ];
+  if (difference !== 0) {
+    notices.push(
+      `Las retenciones del resumen anual no coinciden con lo ingresado en los Modelos 115 (diferencia de ${difference.toFixed(
+        2
+      )} €): revisa los trimestres y presenta una complementaria si falta algún ingreso.`
+    );
+  }
+
+  return {
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result: 0,
+    notices,
+    outcome: "cero",
+  };
+}
+
+// Yearly totals of the stored 115s; arrendadores are counted like the
+// perceptores of the 190
+export function aggregateModelo115(
+  quarters: Declaration[]
+): Pick<Modelo180Declaration, "income" | "deductions"> {
+  const stored = quarters.filter(
+    (quarter): quarter is Modelo115Declaration =>
+      quarter.modelo === "modelo115"
+  );
+
+  return {
+    income: {
+      rentRecipients: String(
+        Math.max(
+          0,
+          ...stored.map((quarter) => toAmount(quarter.income.rentRecipients))
+        )
+      ),
+      rentBase: sumAmounts(stored.map((quarter) => quarter.income.rentBase)),
+    },
+    deductions: {
+      quarterlyPayments: sumAmounts(
+        stored.map((quarter) => String(calculateModelo115(quarter).result))
+      ),
+    },
+  };
+}
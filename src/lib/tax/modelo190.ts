@@ -0,0 +1,84 @@
+import type {
+  Declaration,
+  Modelo111Declaration,
+  Modelo190Declaration,
+} from "@/lib/declaration/types";
+
+import { roundCents, sumAmounts, sumRecords, toAmount } from "./amounts";
+import { calculateModelo111, incomeGroups } from "./modelo111";
+import type { CalculationBreakdown, CalculationLine } from "./types";
+
+// The resumen anual de retenciones has to match what the 111s of the year
+// paid in; any gap means one of them needs a complementaria
+export function calculateModelo190(
+  declaration: Modelo190Declaration
+): CalculationBreakdown {
+  const { income, deductions } = declaration;
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+
+  let totalWithholdings = 0;
+  for (const group of incomeGroups) {
+    const withholdings = toAmount(income[group.withholdings]);
+    line(group.label, withholdings);
+    totalWithholdings += withholdings;
+  }
+  line("Total retenciones e ingresos a cuenta", totalWithholdings, "subtotal");
+
+  const paid = toAmount(deductions.quarterlyPayments);
+  line("Ingresado en los Modelos 111 del ejercicio", -paid);
+  const difference = roundCents(totalWithholdings - paid);
+  line("Diferencia", difference, "subtotal");
+  line("Importe a ingresar o devolver", 0, "total");
+
+  const notices = [
+    "El Modelo 190 es una declaración informativa: las retenciones se ingresan con los Modelos 111.",
+  ];
+  if (difference !== 0) {
+    notices.push(
+      `Las retenciones del resumen anual no coinciden con lo ingresado en los Modelos 111 (diferencia de ${difference.toFixed(
+        2
+      )} €): revisa los trimestres y presenta una complementaria si falta algún ingreso.`
+    );
+  }
+
+  return {
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result: 0,
+    notices,
+    outcome: "cero",
+  };
+}
+
+// Yearly totals of the stored 111s. The same perceptores are declared every
+// quarter, so their number is the highest of any quarter, not the sum
+export function aggregateModelo111(
+  quarters: Declaration[]
+): Pick<Modelo190Declaration, "income" | "deductions"> {
+  const stored = quarters.filter(
+    (quarter): quarter is Modelo111Declaration =>
+      quarter.modelo === "modelo111"
+  );
+  const income = sumRecords(stored.map((quarter) => quarter.income));
+  for (const { recipients } of incomeGroups) {
+    const counts = stored.map((quarter) =>
+      toAmount(quarter.income[recipients])
+    );
+    income[recipients] = String(Math.max(0, ...counts));
+  }
+
+  return {
+    income,
+    deductions: {
+      quarterlyPayments: sumAmounts(
+        stored.map((quarter) => String(calculateModelo111(quarter).result))
+      ),
+    },
+  };
+}
@@ -0,0 +1,245 @@
+import type {
+  Modelo303Declaration,
+  Modelo303Settlement,
+} from "@/lib/declaration/types";
+
+import { roundCents, toAmount } from "./amounts";
+import type { CalculationBreakdown, CalculationLine } from "./types";
+
+// Tipos impositivos (art. 90 y 91 LIVA) and the recargo de equivalencia that
+// goes with each of them (art. 161 LIVA)
+const vatRates = [
+  { base: "base4", rate: 4, surchargeBase: "surchargeBase05", surcharge: 0.5 },
+  { base: "base10", rate: 10, surchargeBase: "surchargeBase14", surcharge: 1.4 },
+  { base: "base21", rate: 21, surchargeBase: "surchargeBase52", surcharge: 5.2 },
+] as const;
+
+// Casillas of the base, tipo and cuota of each rate, in the same order
+const rateCasillas = [
+  ["01", "02", "03"],
+  ["04", "05", "06"],
+  ["07", "08", "09"],
+] as const;
+const surchargeCasillas = [
+  ["16", "17", "18"],
+  ["19", "20", "21"],
+  ["22", "23", "24"],
+] as const;
+
+export const modelo303SettlementLabels: Record<Modelo303Settlement, string> = {
+  compensar: "Compensar en periodos posteriores",
+  devolver: "Solicitar la devolución",
+  cero: "Declarar resultado cero (sin actividad)",
+};
+
+// How the liquidación is settled, which decides the tipo de declaración
+export type Modelo303Outcome = NonNullable<CalculationBreakdown["outcome"]>;
+
+export interface Modelo303Result extends CalculationBreakdown {
+  outcome: Modelo303Outcome;
+  // Every casilla of the liquidación, keyed by its official number
+  casillas: Record<string, number>;
+  totalDevengado: number;
+  totalDeducible: number;
+  // Cuotas left to compensate in later periods, including this one's
+  pendingCompensation: number;
+}
+
+export function calculateModelo303(
+  declaration: Modelo303Declaration
+): Modelo303Result {
+  const { income, deductions, settlement } = declaration;
+  const isLastPeriod = declaration.period.quarter === 4;
+  const casillas: Record<string, number> = {};
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+  const set = (casilla: string, amount: number) => {
+    casillas[casilla] = roundCents(amount);
+    return casillas[casilla];
+  };
+
+  // IVA devengado: régimen general at each rate
+  vatRates.forEach(({ base, rate }, index) => {
+    const [baseCasilla, rateCasilla, quotaCasilla] = rateCasillas[index];
+    const amount = set(baseCasilla, toAmount(income[base]));
+    set(rateCasilla, rate);
+    const quota = set(quotaCasilla, (amount * rate) / 100);
+    line(`Cuota devengada al ${rate}% [${quotaCasilla}]`, quota);
+  });
+
+  set("10", toAmount(income.intraCommunityBase));
+  const intraCommunity = set("11", toAmount(income.intraCommunityQuota));
+  line("Adquisiciones intracomunitarias [11]", intraCommunity);
+
+  set("12", toAmount(income.reverseChargeBase));
+  const reverseCharge = set("13", toAmount(income.reverseChargeQuota));
+  line("Inversión del sujeto pasivo [13]", reverseCharge);
+
+  set("14", toAmount(income.modificationsBase));
+  const modifications = set("15", toAmount(income.modificationsQuota));
+  line("Modificación de bases y cuotas [15]", modifications);
+
+  // Recargo de equivalencia
+  vatRates.forEach(({ surchargeBase, surcharge }, index) => {
+    const [baseCasilla, rateCasilla, quotaCasilla] = surchargeCasillas[index];
+    const amount = set(baseCasilla, toAmount(income[surchargeBase]));
+    set(rateCasilla, surcharge);
+    const quota = set(quotaCasilla, (amount * surcharge) / 100);
+    const rate = surcharge.toLocaleString("es-ES");
+    line(`Recargo de equivalencia al ${rate}% [${quotaCasilla}]`, quota);
+  });
+
+  set("25", toAmount(income.surchargeModificationsBase));
+  const surchargeModifications = set(
+    "26",
+    toAmount(income.surchargeModificationsQuota)
+  );
+  line("Modificación de recargo de equivalencia [26]", surchargeModifications);
+
+  const totalDevengado = set(
+    "27",
+    ["03", "06", "09", "11", "13", "15", "18", "21", "24", "26"].reduce(
+      (sum, casilla) => sum + casillas[casilla],
+      0
+    )
+  );
+  line("Total cuota devengada [27]", totalDevengado, "subtotal");
+
+  // IVA deducible, bienes corrientes and bienes de inversión apart
+  const deducible: {
+    casillas: [string, string];
+    base: keyof typeof deductions;
+    quota: keyof typeof deductions;
+    label: string;
+  }[] = [
+    {
+      casillas: ["28", "29"],
+      base: "currentDomesticBase",
+      quota: "currentDomesticQuota",
+      label: "Operaciones interiores corrientes",
+    },
+    {
+      casillas: ["30", "31"],
+      base: "investmentDomesticBase",
+      quota: "investmentDomesticQuota",
+      label: "Operaciones interiores con bienes de inversión",
+    },
+    {
+      casillas: ["36", "37"],
+      base: "currentIntraCommunityBase",
+      quota: "currentIntraCommunityQuota",
+      label: "Adquisiciones intracomunitarias de bienes corrientes",
+    },
+    {
+      casillas: ["38", "39"],
+      base: "investmentIntraCommunityBase",
+      quota: "investmentIntraCommunityQuota",
+      label: "Adquisiciones intracomunitarias de bienes de inversión",
+    },
+    {
+      casillas: ["40", "41"],
+      base: "rectificationBase",
+      quota: "rectificationQuota",
+      label: "Rectificación de deducciones",
+    },
+  ];
+  let totalDeducible = 0;
+  for (const { casillas: pair, base, quota, label } of deducible) {
+    const [baseCasilla, quotaCasilla] = pair;
+    set(baseCasilla, toAmount(deductions[base]));
+    const amount = set(quotaCasilla, toAmount(deductions[quota]));
+    totalDeducible += amount;
+    line(`${label} [${quotaCasilla}]`, -amount);
+  }
+  totalDeducible = set("45", totalDeducible);
+  line("Total a deducir [45]", -totalDeducible, "subtotal");
+
+  const generalResult = set("46", totalDevengado - totalDeducible);
+  line("Resultado régimen general [46]", generalResult, "subtotal");
+
+  // Without foral tributación conjunta the whole result belongs to the State
+  set("64", generalResult);
+  set("65", 100);
+  const stateResult = set("66", generalResult);
+
+  // Cuotas a compensar de periodos anteriores: they can only absorb a
+  // positive result, except in the last period when the whole balance may be
+  // refunded
+  const pending = set(
+    "110",
+    Math.max(0, toAmount(deductions.previousPeriodCompensation))
+  );
+  const applied = set(
+    "78",
+    isLastPeriod && settlement === "devolver"
+      ? pending
+      : Math.min(pending, Math.max(0, stateResult))
+  );
+  set("87", pending - applied);
+  line("Cuotas a compensar de periodos anteriores aplicadas [78]", -applied);
+
+  set("69", stateResult - applied);
+  const result = set("71", casillas["69"]);
+
+  let outcome: Modelo303Outcome;
+  if (result > 0) outcome = "ingresar";
+  else if (result === 0) outcome = "cero";
+  else if (settlement === "devolver" && isLastPeriod) outcome = "devolver";
+  else outcome = "compensar";
+
+  const pendingCompensation = roundCents(
+    casillas["87"] + (outcome === "compensar" ? -result : 0)
+  );
+  if (pendingCompensation > 0) {
+    line(
+      "Cuotas pendientes de compensar en periodos posteriores",
+      pendingCompensation
+    );
+  }
+
+  const totalLabels: Record<Modelo303Outcome, string> = {
+    ingresar: "Resultado a ingresar [71]",
+    devolver: "Resultado a devolver [71]",
+    compensar: "Resultado a compensar [71]",
+    cero: "Resultado cero [71]",
+  };
+  line(totalLabels[outcome], result, "total");
+
+  const notices: string[] = [];
+  if (result < 0 && settlement === "devolver" && !isLastPeriod) {
+    notices.push(
+      "La devolución solo puede solicitarse en el último periodo del año (4T): el resultado negativo se compensará en periodos posteriores."
+    );
+  }
+
+  return {
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result,
+    notices,
+    outcome,
+    casillas,
+    totalDevengado,
+    totalDeducible,
+    pendingCompensation,
+  };
+}
+
+// Settlement options the result does not allow, as a validation message
+export function getSettlementError(
+  declaration: Modelo303Declaration
+): string | null {
+  const { settlement, period } = declaration;
+  if (settlement === "devolver" && period.quarter !== 4) {
+    return "La devolución solo puede solicitarse en el último periodo del año (4T)";
+  }
+  if (settlement === "cero" && calculateModelo303(declaration).result !== 0) {
+    return "Solo puede declararse resultado cero si la liquidación no sale a ingresar ni a compensar";
+  }
+  return null;
+}
@@ -0,0 +1,72 @@
+import type { Modelo347Declaration } from "@/lib/declaration/types";
+
+import {
+  getCounterpartyErrors,
+  getCounterpartyLines,
+  getCounterpartyQuarters,
+  getCounterpartyTotal,
+  normalizeNif,
+} from "./counterparties";
+import type { CalculationBreakdown } from "./types";
+
+// Claves de operación of the declaración anual de operaciones con terceros
+export const modelo347Keys: Record<string, string> = {
+  A: "Adquisiciones de bienes y servicios",
+  B: "Entregas de bienes y prestaciones de servicios",
+  C: "Cobros por cuenta de terceros",
+  D: "Adquisiciones por entidades públicas",
+  E: "Subvenciones satisfechas por entidades públicas",
+  F: "Ventas de agencias de viajes",
+  G: "Compras de agencias de viajes",
+};
+
+// Only counterparties whose operations exceed this amount over the year are
+// declared (art. 33 RGAT)
+export const modelo347Threshold = 3005.06;
+
+// Spanish NIF: DNI, NIE or the NIF of an entity
+const nifPattern = /^([0-9XYZ][0-9]{7}[A-Z]|[A-HJNP-SUVW][0-9]{7}[0-9A-J])$/;
+
+export function calculateModelo347(
+  declaration: Modelo347Declaration
+): CalculationBreakdown {
+  const { counterparties } = declaration;
+  const quarters = getCounterpartyQuarters(declaration.period);
+  const lines = getCounterpartyLines(counterparties, quarters, modelo347Keys);
+  const declared = new Set(counterparties.map(({ nif }) => normalizeNif(nif)));
+
+  return {
+    lines: [
+      ...lines,
+      { label: "Importe a ingresar o devolver", amount: 0, emphasis: "total" },
+    ],
+    result: 0,
+    notices: [
+      `El Modelo 347 es una declaración informativa de ${declared.size} declarado(s): no tiene importe a ingresar.`,
+    ],
+    outcome: "cero",
+  };
+}
+
+// Row errors keyed "counterparties.<index>.<field>": a valid NIF, and no
+// declarado under the threshold
+export function getModelo347Errors(
+  declaration: Modelo347Declaration
+): Record<string, string> {
+  const { counterparties } = declaration;
+  const quarters = getCounterpartyQuarters(declaration.period);
+  const errors = getCounterpartyErrors(counterparties, modelo347Keys);
+
+  counterparties.forEach((counterparty, index) => {
+    if (!nifPattern.test(normalizeNif(counterparty.nif))) {
+      errors[`counterparties.${index}.nif`] =
+        "Introduce un NIF español válido";
+    }
+    if (getCounterpartyTotal(counterparty, quarters) <= modelo347Threshold) {
+      errors[`counterparties.${index}.amounts`] =
+        "No supera 3.005,06 € en el año: no hay que declararlo";
+    }
+  });
+
+  return errors;
+}
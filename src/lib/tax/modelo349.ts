@@ -0,0 +1,93 @@
+import type { Modelo349Declaration } from "@/lib/declaration/types";
+
+import {
+  getCounterpartyErrors,
+  getCounterpartyLines,
+  getCounterpartyQuarters,
+  getCounterpartyTotal,
+  normalizeNif,
+} from "./counterparties";
+import type { CalculationBreakdown } from "./types";
+
+// Claves de operación of the declaración recapitulativa de operaciones
+// intracomunitarias
+export const modelo349Keys: Record<string, string> = {
+  E: "Entregas intracomunitarias exentas",
+  M: "Entregas exentas tras una importación",
+  H: "Entregas exentas tras una importación, por representante fiscal",
+  A: "Adquisiciones intracomunitarias",
+  T: "Operaciones triangulares",
+  S: "Prestaciones intracomunitarias de servicios",
+  I: "Adquisiciones intracomunitarias de servicios",
+  R: "Transferencias de bienes en consigna",
+  D: "Devoluciones de bienes en consigna",
+  C: "Sustituciones del destinatario de bienes en consigna",
+};
+
+// Entregas and prestaciones above this amount in a quarter (or in any of
+// the four previous ones) move the 349 to monthly filing (art. 81 RIVA)
+export const modelo349MonthlyThreshold = 50000;
+
+const supplyKeys = ["E", "M", "H", "T", "S"];
+
+// NIF-IVA of another member state: its prefix (EL for Greece, XI for
+// Northern Ireland) followed by the national number
+const vatPattern =
+  /^(AT|BE|BG|CY|CZ|DE|DK|EE|EL|FI|FR|HR|HU|IE|IT|LT|LU|LV|MT|NL|PL|PT|RO|SE|SI|SK|XI)[0-9A-Z+*]{2,12}$/;
+
+export function calculateModelo349(
+  declaration: Modelo349Declaration
+): CalculationBreakdown {
+  const { counterparties } = declaration;
+  const quarters = getCounterpartyQuarters(declaration.period);
+  const lines = getCounterpartyLines(counterparties, quarters, modelo349Keys);
+  const supplies = counterparties
+    .filter(({ key }) => supplyKeys.includes(key))
+    .reduce(
+      (sum, counterparty) =>
+        sum + getCounterpartyTotal(counterparty, quarters),
+      0
+    );
+
+  const notices = [
+    "El Modelo 349 es una declaración informativa: el IVA de estas operaciones se liquida en el Modelo 303.",
+  ];
+  if (supplies > modelo349MonthlyThreshold) {
+    notices.push(
+      "Las entregas y prestaciones del trimestre superan 50.000 €: a partir del mes siguiente el 349 se presenta mensualmente."
+    );
+  }
+
+  return {
+    lines: [
+      ...lines,
+      { label: "Importe a ingresar o devolver", amount: 0, emphasis: "total" },
+    ],
+    result: 0,
+    notices,
+    outcome: "cero",
+  };
+}
+
+// Row errors keyed "counterparties.<index>.<field>": a NIF-IVA of another
+// member state, and operations with an amount
+export function getModelo349Errors(
+  declaration: Modelo349Declaration
+): Record<string, string> {
+  const { counterparties } = declaration;
+  const quarters = getCounterpartyQuarters(declaration.period);
+  const errors = getCounterpartyErrors(counterparties, modelo349Keys);
+
+  counterparties.forEach((counterparty, index) => {
+    if (!vatPattern.test(normalizeNif(counterparty.nif))) {
+      errors[`counterparties.${index}.nif`] =
+        "Introduce el NIF-IVA con el prefijo de su país (p. ej. FR12345678901)";
+    }
+    if (getCounterpartyTotal(counterparty, quarters) <= 0) {
+      errors[`counterparties.${index}.amounts`] =
+        "Indica la base imponible de las operaciones";
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,68 @@
+import type {
+  Declaration,
+  Modelo303Declaration,
+  Modelo390Declaration,
+} from "@/lib/declaration/types";
+
+import { roundCents, sumRecords } from "./amounts";
+import { calculateModelo303 } from "./modelo303";
+import type { CalculationBreakdown, CalculationLine } from "./types";
+
+// The annual liquidación runs the 303 rules over the yearly totals, as a 4T
+// that keeps any negative result for the next year
+export function calculateModelo390(
+  declaration: Modelo390Declaration
+): CalculationBreakdown {
+  const annual = calculateModelo303({
+    ...declaration,
+    modelo: "modelo303",
+    period: { year: declaration.period.year, quarter: 4 },
+    settlement: "compensar",
+  });
+  const { casillas } = annual;
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+
+  line("Total cuotas devengadas del ejercicio", annual.totalDevengado);
+  line("Total cuotas deducibles del ejercicio", -annual.totalDeducible);
+  line("Resultado del régimen general", casillas["46"], "subtotal");
+  line("Cuotas a compensar del ejercicio anterior aplicadas", -casillas["78"]);
+  line("Resultado de la liquidación anual", casillas["71"], "subtotal");
+  line("Importe a ingresar o devolver", 0, "total");
+
+  return {
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result: 0,
+    notices: [
+      "El Modelo 390 es una declaración informativa: lo ingresado o compensado se liquida en los Modelos 303 del ejercicio.",
+    ],
+    outcome: "cero",
+  };
+}
+
+// Yearly totals of the stored 303s. The cuotas to compensate come from the
+// previous year, so they are taken from the first quarter only
+export function aggregateModelo303(
+  quarters: Declaration[]
+): Pick<Modelo390Declaration, "income" | "deductions"> {
+  const stored = quarters.filter(
+    (quarter): quarter is Modelo303Declaration =>
+      quarter.modelo === "modelo303"
+  );
+  const firstQuarter = stored.find(({ period }) => period.quarter === 1);
+
+  return {
+    income: sumRecords(stored.map(({ income }) => income)),
+    deductions: {
+      ...sumRecords(stored.map(({ deductions }) => deductions)),
+      previousPeriodCompensation:
+        firstQuarter?.deductions.previousPeriodCompensation ?? "0",
+    },
+  };
+}
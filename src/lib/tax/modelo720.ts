@@ -0,0 +1,188 @@
+import type {
+  Declaration,
+  ForeignAsset,
+  ForeignAssetBlock,
+  Modelo720Declaration,
+  Modelo720Deductions,
+} from "@/lib/declaration/types";
+
+import { roundCents, toAmount } from "./amounts";
+import type { CalculationBreakdown, CalculationLine } from "./types";
+
+interface ForeignAssetBlockDefinition {
+  label: string;
+  entityLabel: string;
+  identifierLabel: string;
+  valueLabel: string;
+  // Deductions field holding the block total of the last 720 filed
+  previous: keyof Modelo720Deductions;
+}
+
+export const foreignAssetBlocks: Record<
+  ForeignAssetBlock,
+  ForeignAssetBlockDefinition
+> = {
+  accounts: {
+    label: "Cuentas en entidades financieras",
+    entityLabel: "Entidad financiera",
+    identifierLabel: "IBAN o número de cuenta",
+    valueLabel: "Saldo a 31 de diciembre",
+    previous: "previousAccounts",
+  },
+  securities: {
+    label: "Valores, seguros y rentas",
+    entityLabel: "Entidad emisora o gestora",
+    identifierLabel: "ISIN",
+    valueLabel: "Valor de cotización o liquidativo",
+    previous: "previousSecurities",
+  },
+  realEstate: {
+    label: "Bienes inmuebles",
+    entityLabel: "Dirección del inmueble",
+    identifierLabel: "Referencia registral",
+    valueLabel: "Valor de adquisición",
+    previous: "previousRealEstate",
+  },
+};
+
+// A block is declared once its assets together exceed the threshold, and
+// again when it grows by more than the increase since the last 720 filed
+// (art. 42 bis, 42 ter and 54 bis RGAT)
+export const modelo720Threshold = 50000;
+export const modelo720RefilingIncrease = 20000;
+
+const blocks = Object.keys(foreignAssetBlocks) as ForeignAssetBlock[];
+
+// Total value of each block
+export function getForeignAssetTotals(
+  assets: ForeignAsset[]
+): Record<ForeignAssetBlock, number> {
+  return Object.fromEntries(
+    blocks.map((block) => [
+      block,
+      roundCents(
+        assets
+          .filter((asset) => asset.block === block)
+          .reduce((sum, asset) => sum + toAmount(asset.value), 0)
+      ),
+    ])
+  ) as Record<ForeignAssetBlock, number>;
+}
+
+// Whether a block has to be declared this year: over the threshold the first
+// time, or grown by more than the refiling increase since the last 720
+export function mustDeclareBlock(total: number, previous: number): boolean {
+  return previous > 0
+    ? total - previous > modelo720RefilingIncrease
+    : total > modelo720Threshold;
+}
+
+const formatEuros = (amount: number) =>
+  `${amount.toLocaleString("es-ES", { maximumFractionDigits: 2 })} €`;
+
+export function calculateModelo720(
+  declaration: Modelo720Declaration
+): CalculationBreakdown {
+  const { deductions, foreignAssets } = declaration;
+  const totals = getForeignAssetTotals(foreignAssets);
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+
+  const declared: string[] = [];
+  const notices: string[] = [];
+  for (const block of blocks) {
+    const { label, previous: previousField } = foreignAssetBlocks[block];
+    const previous = toAmount(deductions[previousField]);
+    line(label, totals[block], "subtotal");
+    if (previous > 0) {
+      line("Variación desde el último Modelo 720", totals[block] - previous);
+    }
+
+    if (mustDeclareBlock(totals[block], previous)) {
+      declared.push(label.toLowerCase());
+      if (previous > 0) {
+        notices.push(
+          `${label}: ha aumentado más de ${formatEuros(
+            modelo720RefilingIncrease
+          )} desde el último Modelo 720, así que hay que volver a declararlo.`
+        );
+      }
+    }
+  }
+  line("Importe a ingresar o devolver", 0, "total");
+
+  notices.unshift(
+    declared.length > 0
+      ? `Bloques que debes declarar: ${declared.join(", ")}.`
+      : `Ningún bloque supera ${formatEuros(
+          modelo720Threshold
+        )} ni ha aumentado más de ${formatEuros(
+          modelo720RefilingIncrease
+        )} desde el último Modelo 720: no estás obligado a presentarlo.`
+  );
+
+  return {
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result: 0,
+    notices,
+    outcome: "cero",
+  };
+}
+
+// Each item has to be abroad, identify its entity and carry a valuation.
+// Errors are keyed "foreignAssets.<index>.<field>"
+export function getModelo720Errors(
+  declaration: Modelo720Declaration
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  declaration.foreignAssets.forEach((asset, index) => {
+    if (asset.country.toUpperCase() === "ES") {
+      errors[`foreignAssets.${index}.country`] =
+        "Solo se declaran bienes situados en el extranjero";
+    }
+    if (toAmount(asset.value) <= 0) {
+      errors[`foreignAssets.${index}.value`] = "Indica la valoración";
+    }
+  });
+
+  return errors;
+}
+
+// Block totals of the last 720 stored for the taxpayer in which each block
+// was declared, the reference for the refiling increase. Later 720s that
+// didn't have to include a block leave its reference as it was
+export function withPreviousModelo720(
+  declaration: Modelo720Declaration,
+  history: Declaration[]
+): Modelo720Declaration {
+  const nif = declaration.taxpayer.nif.toUpperCase();
+  const earlier = history
+    .filter(
+      (stored): stored is Modelo720Declaration =>
+        stored.modelo === "modelo720" &&
+        stored.taxpayer.nif.toUpperCase() === nif &&
+        stored.period.year < declaration.period.year
+    )
+    .sort((a, b) => b.period.year - a.period.year);
+  if (earlier.length === 0) return declaration;
+
+  const deductions = { ...declaration.deductions };
+  for (const block of blocks) {
+    const { previous } = foreignAssetBlocks[block];
+    const declared = earlier
+      .map((stored) => ({
+        total: getForeignAssetTotals(stored.foreignAssets)[block],
+        reference: toAmount(stored.deductions[previous]),
+      }))
+      .find(({ total, reference }) => mustDeclareBlock(total, reference));
+    deductions[previous] = declared ? declared.total.toFixed(2) : "0";
+  }
+  return { ...declaration, deductions };
+}
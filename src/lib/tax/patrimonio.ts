@@ -0,0 +1,290 @@
+import type {
+  Declaration,
+  Modelo714Declaration,
+  PatrimonioAsset,
+  PatrimonioAssetType,
+  PatrimonioValueKey,
+} from "@/lib/declaration/types";
+
+import { applyScale, forYear, roundCents, toAmount } from "./amounts";
+import { isForal, resolveCcaa } from "./ccaa";
+import { calculateIrpf } from "./irpf";
+import { getRegionalTable } from "./regional-tables";
+import type { CalculationBreakdown, CalculationLine, TaxBracket } from "./types";
+
+type AssetValues = PatrimonioAsset["values"];
+
+interface AssetTypeDefinition {
+  label: string;
+  // Valuation rule of the Ley del Impuesto sobre el Patrimonio, as shown to
+  // the user
+  rule: string;
+  inputs: { key: PatrimonioValueKey; label: string }[];
+  value: (values: AssetValues) => number;
+}
+
+const amount = (values: AssetValues, key: PatrimonioValueKey) =>
+  toAmount(values[key]);
+
+export const assetTypes: Record<PatrimonioAssetType, AssetTypeDefinition> = {
+  realEstate: {
+    label: "Bien inmueble",
+    rule: "El mayor entre valor catastral, valor comprobado por la Administración y precio de adquisición (art. 10 LIP)",
+    inputs: [
+      { key: "cadastralValue", label: "Valor catastral" },
+      { key: "assessedValue", label: "Valor comprobado" },
+      { key: "acquisitionValue", label: "Precio de adquisición" },
+    ],
+    value: (values) =>
+      Math.max(
+        amount(values, "cadastralValue"),
+        amount(values, "assessedValue"),
+        amount(values, "acquisitionValue")
+      ),
+  },
+  bankAccount: {
+    label: "Cuenta o depósito bancario",
+    rule: "El mayor entre el saldo a 31 de diciembre y el saldo medio del último trimestre (art. 12 LIP)",
+    inputs: [
+      { key: "balance", label: "Saldo a 31 de diciembre" },
+      { key: "averageBalance", label: "Saldo medio del 4T" },
+    ],
+    value: (values) =>
+      Math.max(amount(values, "balance"), amount(values, "averageBalance")),
+  },
+  listedSecurities: {
+    label: "Acciones cotizadas o fondos de inversión",
+    rule: "Cotización media del cuarto trimestre o valor liquidativo a 31 de diciembre (art. 15 y 19 LIP)",
+    inputs: [{ key: "marketValue", label: "Valor de cotización o liquidativo" }],
+    value: (values) => amount(values, "marketValue"),
+  },
+  unlistedShares: {
+    label: "Participaciones no cotizadas",
+    rule: "Valor teórico según el último balance aprobado (art. 16 LIP)",
+    inputs: [{ key: "bookValue", label: "Valor teórico contable" }],
+    value: (values) => amount(values, "bookValue"),
+  },
+  lifeInsurance: {
+    label: "Seguro de vida o renta",
+    rule: "Valor de rescate a 31 de diciembre (art. 17 LIP)",
+    inputs: [{ key: "surrenderValue", label: "Valor de rescate" }],
+    value: (values) => amount(values, "surrenderValue"),
+  },
+  vehicle: {
+    label: "Vehículo, embarcación o joya",
+    rule: "Valor de mercado a 31 de diciembre (art. 18 LIP)",
+    inputs: [{ key: "marketValue", label: "Valor de mercado" }],
+    value: (values) => amount(values, "marketValue"),
+  },
+  otherAsset: {
+    label: "Otros bienes y derechos",
+    rule: "Valor de mercado a 31 de diciembre (art. 24 LIP)",
+    inputs: [{ key: "marketValue", label: "Valor de mercado" }],
+    value: (values) => amount(values, "marketValue"),
+  },
+  debt: {
+    label: "Deuda",
+    rule: "Importe pendiente a 31 de diciembre (art. 25 LIP)",
+    inputs: [{ key: "outstandingAmount", label: "Importe pendiente" }],
+    value: (values) => amount(values, "outstandingAmount"),
+  },
+};
+
+// Value of the taxpayer's share of an asset or debt
+export function getAssetValue(asset: PatrimonioAsset): number {
+  const ownership = Math.min(100, Math.max(0, toAmount(asset.ownership)));
+  const value = assetTypes[asset.type].value(asset.values);
+  return roundCents((value * ownership) / 100);
+}
+
+interface PatrimonioParameters {
+  stateScale: TaxBracket[];
+  // Límite conjunto (art. 31 LIP): IRPF and IP cuotas together may not
+  // exceed a share of the IRPF base, but the IP cuota keeps a minimum share
+  jointLimitShare: number;
+  minimumQuotaShare: number;
+}
+
+// Escala estatal (art. 30 LIP), with the 3.5% top bracket of Ley 11/2021
+const stateScale: TaxBracket[] = [
+  { upTo: 167129.45, rate: 0.002 },
+  { upTo: 334252.88, rate: 0.003 },
+  { upTo: 668499.75, rate: 0.005 },
+  { upTo: 1336999.51, rate: 0.009 },
+  { upTo: 2673999.01, rate: 0.013 },
+  { upTo: 5347998.03, rate: 0.017 },
+  { upTo: 10695996.06, rate: 0.021 },
+  { upTo: null, rate: 0.035 },
+];
+
+// Parameters per tax year (ejercicio)
+const patrimonioParameters: Record<number, PatrimonioParameters> = {
+  2022: {
+    stateScale,
+    jointLimitShare: 0.6,
+    minimumQuotaShare: 0.2,
+  },
+  2023: {
+    stateScale,
+    jointLimitShare: 0.6,
+    minimumQuotaShare: 0.2,
+  },
+};
+
+export interface PatrimonioResult extends CalculationBreakdown {
+  totalAssets: number;
+  habitualHomeExemption: number;
+  totalDebts: number;
+  baseImponible: number;
+  baseLiquidable: number;
+  cuotaIntegra: number;
+}
+
+export function calculatePatrimonio(
+  declaration: Modelo714Declaration
+): PatrimonioResult {
+  const year = declaration.period.year;
+  const params = forYear(patrimonioParameters, year);
+  const { taxpayer, income, deductions, assets } = declaration;
+  const ccaa = resolveCcaa(taxpayer.province, taxpayer.postalCode);
+  const { table } = getRegionalTable(ccaa?.id, year);
+  const regional = table.patrimonio;
+  const lines: CalculationLine[] = [];
+  const line = (
+    label: string,
+    amount: number,
+    emphasis?: CalculationLine["emphasis"]
+  ) => lines.push({ label, amount: roundCents(amount), emphasis });
+
+  // Bienes y derechos, one line per asset
+  let totalAssets = 0;
+  let habitualHomeValue = 0;
+  let totalDebts = 0;
+  for (const asset of assets) {
+    const value = getAssetValue(asset);
+    const label = asset.description || assetTypes[asset.type].label;
+    if (asset.type === "debt") {
+      totalDebts += value;
+      line(label, -value);
+      continue;
+    }
+    totalAssets += value;
+    if (asset.type === "realEstate" && asset.habitualHome) {
+      habitualHomeValue += value;
+    }
+    line(label, value);
+  }
+  line("Total bienes y derechos", totalAssets, "subtotal");
+
+  const habitualHomeExemption = Math.min(
+    habitualHomeValue,
+    regional.habitualHomeExemption
+  );
+  line("Exención de la vivienda habitual", -habitualHomeExemption);
+  line("Total deudas", -totalDebts);
+
+  const baseImponible = roundCents(
+    Math.max(0, totalAssets - habitualHomeExemption - totalDebts)
+  );
+  line("Base imponible (patrimonio neto)", baseImponible, "subtotal");
+
+  const minimoExento = Math.min(baseImponible, regional.minimoExento);
+  line("Mínimo exento", -minimoExento);
+  const baseLiquidable = roundCents(baseImponible - minimoExento);
+  line("Base liquidable", baseLiquidable, "subtotal");
+
+  const cuotaIntegra = applyScale(baseLiquidable, params.stateScale);
+  line("Cuota íntegra", cuotaIntegra, "subtotal");
+
+  // Límite conjunto con el IRPF
+  const irpfBase = toAmount(income.irpfTaxableBase);
+  const irpfQuota = toAmount(income.irpfQuota);
+  const excess =
+    irpfBase > 0
+      ? irpfQuota + cuotaIntegra - irpfBase * params.jointLimitShare
+      : 0;
+  const jointLimitReduction = roundCents(
+    Math.min(
+      Math.max(0, excess),
+      cuotaIntegra * (1 - params.minimumQuotaShare)
+    )
+  );
+  line("Reducción por límite conjunto IRPF + IP", -jointLimitReduction);
+
+  const foreignTax = Math.min(
+    toAmount(deductions.foreignTaxDeduction),
+    cuotaIntegra - jointLimitReduction
+  );
+  line("Deducción por impuestos satisfechos en el extranjero", -foreignTax);
+
+  const quotaBeforeBonus = cuotaIntegra - jointLimitReduction - foreignTax;
+  const bonificacion = roundCents(quotaBeforeBonus * regional.bonificacion);
+  line(
+    `Bonificación autonómica (${regional.bonificacion * 100}%)`,
+    -bonificacion
+  );
+
+  const result = roundCents(Math.max(0, quotaBeforeBonus - bonificacion));
+  line("Cuota a ingresar", result, "total");
+
+  const notices: string[] = [];
+  if (isForal(ccaa)) {
+    notices.push(
+      `${ccaa?.name} tiene su propio Impuesto sobre el Patrimonio, que no está soportado: este cálculo con la normativa estatal es solo orientativo.`
+    );
+  } else if (!ccaa) {
+    notices.push(
+      "No se ha podido determinar la comunidad autónoma: se aplican el mínimo exento y la exención de vivienda habitual estatales, sin bonificación."
+    );
+  }
+  if (irpfBase === 0 && cuotaIntegra > 0) {
+    notices.push(
+      "Sin la base imponible y la cuota del IRPF no puede aplicarse el límite conjunto IRPF + IP."
+    );
+  }
+
+  return {
+    lines: lines.filter(
+      ({ amount, emphasis }) => amount !== 0 || emphasis !== undefined
+    ),
+    result,
+    notices,
+    totalAssets: roundCents(totalAssets),
+    habitualHomeExemption,
+    totalDebts: roundCents(totalDebts),
+    baseImponible,
+    baseLiquidable,
+    cuotaIntegra,
+  };
+}
+
+// Take the IRPF figures of the límite conjunto from the taxpayer's stored
+// Modelo 100 of the same year, unless they were already captured
+export function withIrpfData(
+  declaration: Modelo714Declaration,
+  history: Declaration[]
+): Modelo714Declaration {
+  if (toAmount(declaration.income.irpfTaxableBase) > 0) return declaration;
+
+  const irpf = history.find(
+    (stored) =>
+      stored.modelo === "modelo100" &&
+      stored.taxpayer.nif.toUpperCase() ===
+        declaration.taxpayer.nif.toUpperCase() &&
+      stored.period.year === declaration.period.year
+  );
+  if (irpf?.modelo !== "modelo100") return declaration;
+
+  const result = calculateIrpf(irpf);
+  return {
+    ...declaration,
+    income: {
+      irpfTaxableBase: (
+        result.baseImponibleGeneral + result.baseImponibleAhorro
+      ).toFixed(2),
+      irpfQuota: (
+        result.cuotaIntegraEstatal + result.cuotaIntegraAutonomica
+      ).toFixed(2),
+    },
+  };
+}
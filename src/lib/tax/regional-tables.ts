@@ -0,0 +1,197 @@
+import { forYear } from "./amounts";
+import type { CcaaId } from "./ccaa";
+import type { TaxBracket } from "./types";
+
+// Data a regional IRPF deduction can depend on
+export interface RegionalDeductionContext {
+  age: number | null;
+  descendants: number;
+  descendantsUnder3: number;
+  disabilityDegree: number;
+  donations: number;
+  baseLiquidable: number;
+}
+
+// A deducción autonómica applied to the regional half of the cuota
+export interface RegionalDeduction {
+  label: string;
+  amount: (context: RegionalDeductionContext) => number;
+}
+
+export interface PatrimonioParameters {
+  minimoExento: number;
+  // Exención de la vivienda habitual
+  habitualHomeExemption: number;
+  // Share of the cuota waived by the comunidad (1 = 100%)
+  bonificacion: number;
+}
+
+export interface RegionalTaxTable {
+  // Escala autonómica of the general base; without one the escala supletoria
+  // of the IRPF engine applies
+  irpfGeneralScale?: TaxBracket[];
+  irpfDeductions: RegionalDeduction[];
+  patrimonio: PatrimonioParameters;
+}
+
+// State defaults of the Impuesto sobre el Patrimonio (arts. 4 and 28 LIP)
+export const statePatrimonio: PatrimonioParameters = {
+  minimoExento: 700000,
+  habitualHomeExemption: 300000,
+  bonificacion: 0,
+};
+
+const stateOnly: RegionalTaxTable = {
+  irpfDeductions: [],
+  patrimonio: statePatrimonio,
+};
+
+const disabilityDeduction = (label: string, amount: number) => ({
+  label,
+  amount: ({ disabilityDegree }: RegionalDeductionContext) =>
+    disabilityDegree >= 33 ? amount : 0,
+});
+
+const madrid2023: RegionalTaxTable = {
+  irpfGeneralScale: [
+    { upTo: 12961.45, rate: 0.085 },
+    { upTo: 18612.37, rate: 0.107 },
+    { upTo: 34766.99, rate: 0.128 },
+    { upTo: 55038.99, rate: 0.174 },
+    { upTo: null, rate: 0.205 },
+  ],
+  irpfDeductions: [
+    {
+      label: "Deducción autonómica por donativos a fundaciones",
+      amount: ({ donations, baseLiquidable }) =>
+        Math.min(donations * 0.15, baseLiquidable * 0.1),
+    },
+  ],
+  patrimonio: { ...statePatrimonio, bonificacion: 1 },
+};
+
+const andalucia: RegionalTaxTable = {
+  irpfGeneralScale: [
+    { upTo: 13000, rate: 0.095 },
+    { upTo: 21100, rate: 0.12 },
+    { upTo: 35200, rate: 0.15 },
+    { upTo: 60000, rate: 0.185 },
+    { upTo: null, rate: 0.225 },
+  ],
+  irpfDeductions: [
+    disabilityDeduction("Deducción autonómica por discapacidad", 150),
+  ],
+  patrimonio: { ...statePatrimonio, bonificacion: 1 },
+};
+
+const cataluna: RegionalTaxTable = {
+  irpfGeneralScale: [
+    { upTo: 12450, rate: 0.105 },
+    { upTo: 17707.2, rate: 0.12 },
+    { upTo: 21000, rate: 0.14 },
+    { upTo: 33007.2, rate: 0.15 },
+    { upTo: 53407.2, rate: 0.188 },
+    { upTo: 90000, rate: 0.215 },
+    { upTo: 120000, rate: 0.235 },
+    { upTo: 175000, rate: 0.245 },
+    { upTo: null, rate: 0.255 },
+  ],
+  irpfDeductions: [],
+  patrimonio: { ...statePatrimonio, minimoExento: 500000 },
+};
+
+const valencia2023: RegionalTaxTable = {
+  irpfGeneralScale: [
+    { upTo: 12000, rate: 0.09 },
+    { upTo: 22000, rate: 0.12 },
+    { upTo: 32000, rate: 0.15 },
+    { upTo: 42000, rate: 0.175 },
+    { upTo: 52000, rate: 0.2 },
+    { upTo: 62000, rate: 0.225 },
+    { upTo: 72000, rate: 0.25 },
+    { upTo: 100000, rate: 0.265 },
+    { upTo: 150000, rate: 0.275 },
+    { upTo: 200000, rate: 0.285 },
+    { upTo: null, rate: 0.295 },
+  ],
+  irpfDeductions: [
+    {
+      // Applies in the year of birth and the two following ones
+      label: "Deducción autonómica por nacimiento o adopción",
+      amount: ({ descendantsUnder3 }) => descendantsUnder3 * 300,
+    },
+    disabilityDeduction("Deducción autonómica por discapacidad", 179),
+  ],
+  patrimonio: { ...statePatrimonio, minimoExento: 500000 },
+};
+
+const galicia: RegionalTaxTable = {
+  irpfGeneralScale: [
+    { upTo: 12985.35, rate: 0.09 },
+    { upTo: 21068.6, rate: 0.1165 },
+    { upTo: 35200, rate: 0.149 },
+    { upTo: 47600, rate: 0.184 },
+    { upTo: 60000, rate: 0.205 },
+    { upTo: null, rate: 0.225 },
+  ],
+  irpfDeductions: [],
+  patrimonio: { ...statePatrimonio, bonificacion: 0.5 },
+};
+
+// Regional parameters per comunidad and tax year (ejercicio). Comunidades
+// without an entry, or years before their first one, use the state defaults
+const regionalTables: Partial<Record<CcaaId, Record<number, RegionalTaxTable>>> =
+  {
+    madrid: {
+      2023: madrid2023,
+      2024: {
+        ...madrid2023,
+        irpfGeneralScale: [
+          { upTo: 13362.22, rate: 0.085 },
+          { upTo: 19004.63, rate: 0.107 },
+          { upTo: 35425.68, rate: 0.128 },
+          { upTo: 57320.4, rate: 0.174 },
+          { upTo: null, rate: 0.205 },
+        ],
+      },
+    },
+    andalucia: { 2023: andalucia },
+    cataluna: { 2023: cataluna },
+    valencia: {
+      2023: valencia2023,
+      2024: {
+        ...valencia2023,
+        patrimonio: { ...statePatrimonio, minimoExento: 1000000 },
+      },
+    },
+    galicia: { 2023: galicia },
+    aragon: {
+      2023: { ...stateOnly, patrimonio: { ...statePatrimonio, minimoExento: 400000 } },
+    },
+    extremadura: {
+      2023: { ...stateOnly, patrimonio: { ...statePatrimonio, minimoExento: 500000 } },
+    },
+    cantabria: {
+      2023: stateOnly,
+      2024: { ...stateOnly, patrimonio: { ...statePatrimonio, bonificacion: 1 } },
+    },
+  };
+
+export interface RegionalTableLookup {
+  table: RegionalTaxTable;
+  // False when the comunidad has no table for the year and the state
+  // defaults are used instead
+  isRegional: boolean;
+}
+
+export function getRegionalTable(
+  ccaa: CcaaId | undefined,
+  year: number
+): RegionalTableLookup {
+  const byYear = ccaa ? regionalTables[ccaa] : undefined;
+  const years = Object.keys(byYear ?? {}).map(Number);
+  if (!byYear || years.every((tableYear) => tableYear > year)) {
+    return { table: stateOnly, isRegional: false };
+  }
+  return { table: forYear(byYear, year), isRegional: true };
+}
@@ -0,0 +1,29 @@
+// A single row of a calculation breakdown, as shown to the user
+export interface CalculationLine {
+  label: string;
+  amount: number;
+  // Subtotals and totals are rendered emphasized
+  emphasis?: "subtotal" | "total";
+}
+
+// Outcome of any tax calculation: a positive result is "a ingresar", a
+// negative one "a devolver" (or "a compensar" where the modelo allows it)
+export interface CalculationBreakdown {
+  lines: CalculationLine[];
+  result: number;
+  // Caveats about how the result was obtained (unsupported regimes,
+  // fallback parameters...)
+  notices?: string[];
+  // Set by modelos where a negative result can be carried forward instead of
+  // refunded
+  outcome?: "ingresar" | "devolver" | "compensar" | "cero";
+  // Every casilla of the liquidación, keyed by its official number, for
+  // modelos whose engine works them out
+  casillas?: Record<string, number>;
+}
+
+// One bracket of a progressive scale; the last bracket has no upper limit
+export interface TaxBracket {
+  upTo: number | null;
+  rate: number;
+}
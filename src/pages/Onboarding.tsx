@@ -11,8 +11,15 @@ import {
   Settings,
   User,
 } from "lucide-react";
-import { useEffect, useState } from "react";
-import { Link } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Link,
+  Navigate,
+  useLocation,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from "react-router-dom";
 
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -34,12 +41,73 @@ import { Progress } from "@/components/ui/progress";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { cn } from "@/lib/utils";
 
+import { ConfirmDeclaration } from "@/components/onboarding/confirm-declaration/ConfirmDeclaration";
+import { DraftUnlock } from "@/components/onboarding/draft-unlock/DraftUnlock";
 import { FormFilling } from "@/components/onboarding/FormFilling";
+import { GeneratePdf } from "@/components/onboarding/generate-pdf/GeneratePdf";
 import { History } from "@/components/onboarding/History";
 import { Profile } from "@/components/onboarding/Profile";
+import { ReviewEdit } from "@/components/onboarding/review-edit/ReviewEdit";
 import { Support } from "@/components/onboarding/Support";
+import {
+  createEmptyDeclaration,
+  type ManualFormValues,
+} from "@/lib/declaration/adapters";
+import {
+  deleteDraft,
+  getDrafts,
+  loadPassphraseSettings,
+  saveDraft,
+  type Draft,
+  type DraftInput,
+} from "@/lib/declaration/drafts";
+import { getFormTitle } from "@/lib/declaration/forms";
+import {
+  getDeclarationHistory,
+  saveDeclaration,
+} from "@/lib/declaration/history";
+import {
+  emptyJournal,
+  getDeclarationValues,
+  recordChanges,
+  redoChange,
+  revertChange,
+  setDeclarationValue,
+  undoChange,
+  type ChangeJournal,
+  type JournalStep,
+} from "@/lib/declaration/journal";
+import {
+  formatPeriod,
+  getDefaultPeriod,
+  parsePeriod,
+  toPeriodSlug,
+} from "@/lib/declaration/period";
+import {
+  isModeloId,
+  toModeloId,
+  type Declaration,
+  type DeclarationPeriod,
+  type ModeloId,
+} from "@/lib/declaration/types";
+import { isLocked } from "@/lib/declaration/vault";
+import {
+  canEnterStep,
+  getFirstIncompleteStep,
+  getProgress,
+  getTransition,
+  isWizardStepId,
+  wizardSteps,
+  type WizardState,
+  type WizardStepId,
+} from "@/lib/declaration/wizard";
+import { applyCalculations, prefillFromHistory } from "@/lib/tax/calculate";
 import { toast } from "sonner";
 
+// Fill in what earlier periods stored on this device already settled
+const withStoredHistory = (declaration: Declaration) =>
+  prefillFromHistory(declaration, getDeclarationHistory());
+
 // Define the sidebar items with proper typing
 interface SidebarItem {
   id: string;
@@ -54,166 +122,471 @@ const sidebarItems: SidebarItem[] = [
   { id: "support", icon: HelpCircle, label: "Support" },
 ];
 
-// Define the form steps with proper typing
-interface FormStep {
-  id: string;
-  label: string;
-  description?: string;
-}
+// Methods a declaration can be filled in with, as they appear in links
+const formMethodIds = ["manual", "ai", "upload", "lookup"];
 
-// Define tax form types
-interface TaxFormType {
-  id: string;
-  name: string;
-  description: string;
-}
+// Path of a wizard step: the modelo, the period and the step, plus the
+// filling method once there is one. Without a modelo the wizard starts over
+const getStepPath = (
+  modelo: ModeloId | null,
+  period: DeclarationPeriod | null,
+  step: string,
+  method: string | null
+) => {
+  if (!modelo || !period) return "/onboarding";
+  const path = `/onboarding/${modelo}/${toPeriodSlug(period)}/${step}`;
+  return method ? `${path}?method=${method}` : path;
+};
 
-// Spanish tax form types
-// eslint-disable-next-line react-refresh/only-export-components
-export const taxFormTypes: TaxFormType[] = [
-  {
-    id: "modelo100",
-    name: "Modelo 100",
-    description: "Declaración de la Renta (IRPF)",
-  },
-  {
-    id: "modelo303",
-    name: "Modelo 303",
-    description: "Impuesto sobre el Valor Añadido (IVA)",
-  },
-  {
-    id: "modelo130",
-    name: "Modelo 130",
-    description: "Pago fraccionado empresarios y profesionales",
-  },
-  {
-    id: "modelo714",
-    name: "Modelo 714",
-    description: "Impuesto sobre el Patrimonio",
-  },
-];
+// Steps a declaration is still being filled in at; once confirmed it is kept
+// in the history instead
+const draftSteps = ["select-method", "fill-form", "review"];
 
-const formSteps: FormStep[] = [
-  {
-    id: "select-type",
-    label: "Select Form Type",
-    description: "Choose the tax form you need to complete",
-  },
-  {
-    id: "select-method",
-    label: "Select Method",
-    description: "Choose how you want to fill out your form",
-  },
-  {
-    id: "fill-form",
-    label: "Fill Form",
-    description: "Enter your tax information",
-  },
-  {
-    id: "review",
-    label: "Review & Edit",
-    description: "Check your information for accuracy",
-  },
-  {
-    id: "confirm",
-    label: "Confirm",
-    description: "Verify all information is correct",
-  },
-  {
-    id: "generate",
-    label: "Generate PDF",
-    description: "Create your final tax document",
-  },
-];
+// Milliseconds without changes before the draft is saved
+const autosaveDelay = 500;
 
 export default function EnhancedOnboarding() {
   // Main state management
-  const [activeSection, setActiveSection] = useState<string>("form");
-  const [activeStep, setActiveStep] = useState<string>("select-type");
-  const [selectedForm, setSelectedForm] = useState<string | null>(null);
-  const [selectedMethod, setSelectedMethod] = useState<string | null>(null);
   const [isMenuOpen, setIsMenuOpen] = useState<boolean>(false);
-  const [progress, setProgress] = useState<number>(0);
+  const [declaration, setDeclaration] = useState<Declaration | null>(null);
+  // The declaration as it was confirmed and as its PDF was generated; any
+  // later change has to be confirmed again
+  const [confirmedDeclaration, setConfirmedDeclaration] =
+    useState<Declaration | null>(null);
+  const [generatedDeclaration, setGeneratedDeclaration] =
+    useState<Declaration | null>(null);
 
-  // Save session data
-  const [sessionSaved, setSessionSaved] = useState<boolean>(false);
+  // Where the wizard is lives in the URL, so that a step can be linked,
+  // refreshed and walked back with the browser
+  const params = useParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const currentPath = location.pathname + location.search;
+  const activeSection = params.section ?? "form";
+  const activeStep: WizardStepId =
+    params.step && isWizardStepId(params.step) ? params.step : "select-type";
+  const selectedForm =
+    params.modelo && isModeloId(params.modelo) ? params.modelo : null;
+  const methodParam = searchParams.get("method");
+  const selectedMethod =
+    methodParam && formMethodIds.includes(methodParam) ? methodParam : null;
+  // A captured declaration carries its own period; until then it is the
+  // one in the link
+  const period = useMemo(
+    () =>
+      selectedForm
+        ? declaration?.period ?? parsePeriod(params.period, selectedForm)
+        : null,
+    [selectedForm, params.period, declaration]
+  );
+  // Every change made to the declaration, to undo it or revert it
+  const [journal, setJournal] = useState<ChangeJournal>(emptyJournal);
 
-  // Find the current step index for progress calculation
-  const currentStepIndex = formSteps.findIndex(
-    (step) => step.id === activeStep
+  // Drafts on this device, and the values of the manual form in this one
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [draftValues, setDraftValues] = useState<ManualFormValues | null>(
+    null
   );
+  // Key the current draft was last saved under, and what is still waiting
+  // for the autosave
+  const draftId = useRef<string | null>(null);
+  const unsavedDraft = useRef<DraftInput | null>(null);
+  // Remounts the filling methods with the values of a resumed draft
+  const [resumeCount, setResumeCount] = useState<number>(0);
+  // Drafts sealed with a passphrase wait for it at the start of the session
+  const [isDraftStoreLocked, setIsDraftStoreLocked] =
+    useState<boolean>(isLocked);
+  const [hasLoadedDrafts, setHasLoadedDrafts] = useState<boolean>(false);
+  // Step a link opened the wizard at, until the draft it refers to has been
+  // looked for
+  const [linkedStep, setLinkedStep] = useState<string | null>(
+    selectedForm ? params.step ?? null : null
+  );
+  // The wizard is left where it was while the other sections are visited
+  const wizardPath = useRef<string>("/onboarding");
+
+  const refreshDrafts = async () => {
+    try {
+      await loadPassphraseSettings();
+    } catch {
+      // The copy of the settings at hand is used instead
+    }
+    setIsDraftStoreLocked(isLocked());
+    if (isLocked()) {
+      setDrafts([]);
+      return;
+    }
+    try {
+      setDrafts(await getDrafts());
+    } catch {
+      setDrafts([]);
+    } finally {
+      setHasLoadedDrafts(true);
+    }
+  };
 
-  // Update progress when step changes
   useEffect(() => {
-    // Calculate progress percentage based on current step
-    const newProgress = Math.round(
-      ((currentStepIndex + 1) / formSteps.length) * 100
-    );
-    setProgress(newProgress);
-  }, [currentStepIndex, activeStep]);
+    void refreshDrafts();
+  }, []);
 
-  // Function to handle moving to the next step
-  const handleNextStep = () => {
-    const currentIndex = formSteps.findIndex((step) => step.id === activeStep);
-    if (currentIndex < formSteps.length - 1) {
-      const nextStep = formSteps[currentIndex + 1].id;
-      setActiveStep(nextStep);
-
-      // Show toast notification for step change
-      toast.success(`Moved to ${formSteps[currentIndex + 1].label}`, {
-        description: formSteps[currentIndex + 1].description,
-      });
+  // What the draft of the declaration being filled in is made of
+  const draftInput = useMemo<DraftInput | null>(
+    () =>
+      selectedForm &&
+      period &&
+      !isDraftStoreLocked &&
+      !linkedStep &&
+      draftSteps.includes(activeStep)
+        ? {
+            modelo: selectedForm,
+            step: activeStep,
+            method: selectedMethod,
+            period,
+            values: draftValues ?? undefined,
+            declaration: declaration ?? undefined,
+            journal,
+          }
+        : null,
+    [
+      selectedForm,
+      isDraftStoreLocked,
+      linkedStep,
+      activeStep,
+      selectedMethod,
+      period,
+      draftValues,
+      declaration,
+      journal,
+    ]
+  );
 
-      // Save session automatically when progressing
-      if (!sessionSaved) {
-        saveSession();
-      }
+  const persistDraft = async (input: DraftInput) => {
+    try {
+      const draft = await saveDraft(input, draftId.current);
+      draftId.current = draft.id;
+      if (unsavedDraft.current === input) unsavedDraft.current = null;
+      await refreshDrafts();
+      return true;
+    } catch {
+      toast.error("Could not save the draft", {
+        description: "This browser doesn't allow storing data on the device.",
+      });
+      return false;
     }
   };
 
-  // Function to handle moving to the previous step
-  const handlePreviousStep = () => {
-    const currentIndex = formSteps.findIndex((step) => step.id === activeStep);
-    if (currentIndex > 0) {
-      const prevStep = formSteps[currentIndex - 1].id;
-      setActiveStep(prevStep);
+  // Autosave a moment after the last change
+  useEffect(() => {
+    if (!draftInput) return;
+    unsavedDraft.current = draftInput;
+    const timer = setTimeout(
+      () => void persistDraft(draftInput),
+      autosaveDelay
+    );
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftInput]);
+
+  // What the steps of the wizard are judged on
+  const wizardState: WizardState = {
+    modelo: selectedForm,
+    method: selectedMethod,
+    declaration,
+    isConfirmed: declaration !== null && confirmedDeclaration === declaration,
+    isGenerated: declaration !== null && generatedDeclaration === declaration,
+  };
+  const currentStepIndex = wizardSteps.findIndex(
+    (step) => step.id === activeStep
+  );
+  const nextStep = wizardSteps[currentStepIndex + 1];
+  const previousStep = wizardSteps[currentStepIndex - 1];
+  const canMoveNext =
+    !!nextStep && getTransition(wizardState, activeStep, nextStep.id) !== null;
+  const progress = getProgress(wizardState);
+
+  useEffect(() => {
+    if (activeSection === "form") wizardPath.current = currentPath;
+  }, [activeSection, currentPath]);
 
-      // Also show toast for previous step
-      toast.info(`Volviendo a ${formSteps[currentIndex - 1].label}`);
+  const goToStep = (
+    step: WizardStepId,
+    method: string | null = selectedMethod,
+    replace = false
+  ) => navigate(getStepPath(selectedForm, period, step, method), { replace });
 
-      // Recalculate progress when stepping back
-      const newProgress = Math.round((currentIndex / formSteps.length) * 100);
-      setProgress(newProgress);
+  const handleSectionChange = (section: string) => {
+    navigate(section === "form" ? wizardPath.current : `/onboarding/${section}`);
+  };
+
+  // Move to another step when the wizard allows it from this one, running
+  // the side effects of the move
+  const moveToStep = (step: WizardStepId) => {
+    const effects = getTransition(wizardState, activeStep, step);
+    if (!effects) {
+      toast.error("Complete this step first", {
+        description: wizardSteps[currentStepIndex]?.description,
+      });
+      return;
     }
+    if (effects.includes("store-declaration")) {
+      storeDeclaration();
+    }
+    goToStep(step, effects.includes("clear-method") ? null : selectedMethod);
+
+    const targetIndex = wizardSteps.findIndex(({ id }) => id === step);
+    const target = wizardSteps[targetIndex];
+    if (targetIndex > currentStepIndex) {
+      toast.success(`Moved to ${target.label}`, {
+        description: target.description,
+      });
+    } else {
+      toast.info(`Back to ${target.label}`);
+    }
+  };
+
+  const handleNextStep = () => {
+    if (nextStep) moveToStep(nextStep.id);
+  };
+
+  const handlePreviousStep = () => {
+    if (previousStep) moveToStep(previousStep.id);
   };
 
   // Function to handle form selection
   const handleFormSelection = (formId: string) => {
-    setSelectedForm(formId);
-    // If we're on select-type, automatically go to select-method when form is selected
-    if (activeStep === "select-type") {
-      handleNextStep();
-    }
+    // A new declaration starts a draft of its own
+    draftId.current = null;
+    setDraftValues(null);
+    setDeclaration(null);
+    setJournal(emptyJournal);
+    // The period of the link is kept while the modelo stays the same
+    const modelo = toModeloId(formId);
+    const nextPeriod =
+      modelo === selectedForm && period ? period : getDefaultPeriod(modelo);
+    navigate(getStepPath(modelo, nextPeriod, "select-method", null));
+    toast.success(`Moved to ${wizardSteps[1].label}`, {
+      description: wizardSteps[1].description,
+    });
   };
 
   // Function to handle method selection
   const handleMethodSelection = (methodId: string) => {
-    setSelectedMethod(methodId);
+    // Clearing the method leaves the step as it is
+    if (!methodId) {
+      goToStep("select-method", null, true);
+      return;
+    }
     // After method is selected, we can proceed to fill-form step
     if (activeStep === "select-method") {
-      handleNextStep();
+      goToStep("fill-form", methodId);
+      toast.success(`Moved to ${wizardSteps[2].label}`, {
+        description: wizardSteps[2].description,
+      });
+      return;
+    }
+    goToStep(activeStep, methodId, true);
+  };
+
+  // Keep the declaration captured by the filling method and move on to review.
+  // Only documents say which period they are for; the rest are for the one in
+  // the link. The values a document, a lookup or the assistant brought in are
+  // journaled under that source; manual edits were journaled as typed
+  const handleFormComplete = (completed: Declaration) => {
+    const captured =
+      completed.source === "upload" || !period
+        ? completed
+        : { ...completed, period };
+    if (captured.source !== "manual") {
+      const before =
+        declaration ??
+        createEmptyDeclaration(
+          captured.modelo,
+          captured.source,
+          captured.period
+        );
+      setJournal((current) =>
+        recordChanges(
+          current,
+          getDeclarationValues(before),
+          getDeclarationValues(captured),
+          captured.source
+        )
+      );
+    }
+    setDeclaration(applyCalculations(withStoredHistory(captured)));
+    navigate(
+      getStepPath(selectedForm, captured.period, "review", selectedMethod)
+    );
+    toast.success(`Moved to ${wizardSteps[3].label}`, {
+      description: wizardSteps[3].description,
+    });
+  };
+
+  // Another period has other earlier quarters to take into account
+  const updateDeclaration = (updated: Declaration) => {
+    const periodChanged =
+      declaration !== null &&
+      formatPeriod(updated.period) !== formatPeriod(declaration.period);
+    setDeclaration(
+      applyCalculations(periodChanged ? withStoredHistory(updated) : updated)
+    );
+  };
+
+  // Edits on the review step, before anything is recalculated
+  const handleDeclarationChange = (updated: Declaration) => {
+    if (declaration) {
+      setJournal((current) =>
+        recordChanges(
+          current,
+          getDeclarationValues(declaration),
+          getDeclarationValues(updated),
+          "manual"
+        )
+      );
     }
+    updateDeclaration(updated);
   };
 
-  // Simulate saving session
-  const saveSession = () => {
-    // This would save to localStorage or backend in a real app
-    setSessionSaved(true);
+  // Undo, redo or revert a change of the declaration under review
+  const applyJournalStep = (step: JournalStep | null) => {
+    if (!step || !declaration) return;
+    setJournal(step.journal);
+    updateDeclaration(setDeclarationValue(declaration, step.field, step.value));
+  };
+
+  // Confirmed declarations are kept so later periods can build on them, and
+  // their draft isn't needed any more
+  const storeDeclaration = () => {
+    if (!declaration) return;
+    saveDeclaration(declaration);
+    setConfirmedDeclaration(declaration);
+    if (draftId.current) {
+      void deleteDraft(draftId.current).then(refreshDrafts);
+      draftId.current = null;
+    }
+  };
+
+  // Save the draft right away rather than on the next autosave
+  const saveSession = async () => {
+    if (!draftInput || !(await persistDraft(draftInput))) return;
     toast.success("Progress saved", {
       description: "You can continue later from where you left off",
     });
   };
 
+  // The manual form asks for its values to be kept right away. There is no
+  // draft to save while the drafts are locked
+  const saveDraftValues = async (values: ManualFormValues) => {
+    setDraftValues(values);
+    return draftInput !== null && persistDraft({ ...draftInput, values });
+  };
+
+  // Carry on with a draft at the step it was left at, or the one a link asked
+  // for. Steps that can't be reached yet send on to the first one to do
+  const handleResumeDraft = (draft: Draft, step: string = draft.step) => {
+    draftId.current = draft.id;
+    setDraftValues(draft.values ?? null);
+    setDeclaration(draft.declaration ?? null);
+    setJournal(draft.journal ?? emptyJournal);
+    setResumeCount((count) => count + 1);
+    navigate(getStepPath(draft.modelo, draft.period, step, draft.method), {
+      replace: step !== draft.step,
+    });
+    toast.success("Draft restored", {
+      description: `${getFormTitle(draft.modelo)} ${formatPeriod(
+        draft.period
+      )}`,
+    });
+  };
+
+  // A link into a step of a modelo and period picks up the draft kept for
+  // them, if any, once the drafts can be read
+  useEffect(() => {
+    if (!linkedStep || !hasLoadedDrafts) return;
+    setLinkedStep(null);
+    if (declaration || draftValues) return;
+    const draft = drafts.find(
+      (candidate) =>
+        candidate.modelo === selectedForm &&
+        toPeriodSlug(candidate.period) === params.period
+    );
+    if (draft) handleResumeDraft(draft, linkedStep);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasLoadedDrafts, drafts]);
+
+  // Links to a step that isn't reachable yet land on the first one still to
+  // be done; unknown sections, modelos and periods are put right
+  const getRedirectPath = (): string | null => {
+    if (params.section) {
+      return sidebarItems.some(
+        ({ id }) => id === params.section && id !== "form"
+      )
+        ? null
+        : "/onboarding";
+    }
+    if (!params.modelo) return null;
+    if (!selectedForm) return "/onboarding";
+
+    const step =
+      params.step &&
+      isWizardStepId(params.step) &&
+      canEnterStep(wizardState, params.step)
+        ? params.step
+        : getFirstIncompleteStep(wizardState);
+    const path = getStepPath(selectedForm, period, step, selectedMethod);
+    return path === currentPath ? null : path;
+  };
+
+  // The draft a link refers to is looked for before sending it elsewhere
+  const isResolvingLink =
+    linkedStep !== null && !isDraftStoreLocked && !hasLoadedDrafts;
+  const redirectPath = isResolvingLink ? null : getRedirectPath();
+
+  // Unlocked, locked, sealed with another passphrase or wiped from Profile
+  const handleDraftStoreChange = () => {
+    setIsDraftStoreLocked(isLocked());
+    void refreshDrafts();
+  };
+
+  // Forget the declaration being filled in, leaving the wizard at the start
+  const resetWizard = () => {
+    draftId.current = null;
+    unsavedDraft.current = null;
+    setDraftValues(null);
+    setDeclaration(null);
+    setJournal(emptyJournal);
+    setConfirmedDeclaration(null);
+    setGeneratedDeclaration(null);
+    setLinkedStep(null);
+    setResumeCount((count) => count + 1);
+    wizardPath.current = "/onboarding";
+  };
+
+  // Whatever the autosave hadn't kept yet goes to its draft, to be resumed
+  // once unlocked, and nothing of it stays on screen
+  const handleDraftStoreLock = async () => {
+    if (unsavedDraft.current) await persistDraft(unsavedDraft.current);
+    resetWizard();
+  };
+
+  // Nothing of what was removed stays in memory to be autosaved again
+  const handleDraftStoreWipe = () => {
+    resetWizard();
+    navigate("/onboarding");
+  };
+
+  const handleDiscardDraft = async (draft: Draft) => {
+    try {
+      await deleteDraft(draft.id);
+      if (draftId.current === draft.id) draftId.current = null;
+      await refreshDrafts();
+      toast.success("Draft discarded");
+    } catch {
+      toast.error("Could not discard the draft");
+    }
+  };
+
   // Component for the sidebar
   const SidebarContent = ({ mobile = false }: { mobile?: boolean }) => (
     <div
@@ -236,7 +609,7 @@ export default function EnhancedOnboarding() {
           <button
             key={item.id}
             onClick={() => {
-              setActiveSection(item.id);
+              handleSectionChange(item.id);
               if (mobile) {
                 setIsMenuOpen(false);
               }
@@ -262,8 +635,12 @@ export default function EnhancedOnboarding() {
           <Button variant="ghost" size="icon">
             <HelpCircle className="h-5 w-5" />
           </Button>
-          {!sessionSaved && activeStep !== "select-type" && (
-            <Button variant="outline" className="flex-1" onClick={saveSession}>
+          {draftInput && (
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => void saveSession()}
+            >
               Save Progress
             </Button>
           )}
@@ -274,15 +651,54 @@ export default function EnhancedOnboarding() {
 
   // Function to render the main content based on the active section
   const renderMainContent = () => {
+    if (isResolvingLink) return null;
     switch (activeSection) {
       case "form":
+        if (activeStep === "review" && declaration) {
+          return (
+            <ReviewEdit
+              declaration={declaration}
+              onChange={handleDeclarationChange}
+              onBack={handlePreviousStep}
+              onContinue={() => moveToStep("confirm")}
+              journal={journal}
+              onUndo={() => applyJournalStep(undoChange(journal))}
+              onRedo={() => applyJournalStep(redoChange(journal))}
+              onRevert={(id) =>
+                applyJournalStep(
+                  revertChange(journal, id, getDeclarationValues(declaration))
+                )
+              }
+            />
+          );
+        }
+        if (activeStep === "confirm" && declaration) {
+          return (
+            <ConfirmDeclaration
+              declaration={declaration}
+              isConfirmed={wizardState.isConfirmed}
+              onBack={handlePreviousStep}
+              onConfirm={handleNextStep}
+            />
+          );
+        }
+        if (activeStep === "generate" && declaration) {
+          return (
+            <GeneratePdf
+              declaration={declaration}
+              onBack={handlePreviousStep}
+              onGenerated={() => setGeneratedDeclaration(declaration)}
+            />
+          );
+        }
         return (
           <FormFilling
+            key={`${resumeCount}-${activeStep}-${selectedMethod ?? ""}`}
             onNext={handleNextStep}
             onPrevious={handlePreviousStep}
             step={activeStep === "select-type" ? "form-type" : "form-method"}
             setStep={(newStep) =>
-              setActiveStep(
+              moveToStep(
                 newStep === "form-type" ? "select-type" : "select-method"
               )
             }
@@ -290,22 +706,44 @@ export default function EnhancedOnboarding() {
             onFormSelect={handleFormSelection}
             selectedMethod={selectedMethod}
             onMethodSelect={handleMethodSelection}
+            onComplete={handleFormComplete}
+            drafts={drafts}
+            onResumeDraft={handleResumeDraft}
+            onDiscardDraft={(draft) => void handleDiscardDraft(draft)}
+            draftValues={draftValues ?? undefined}
+            onDraftValuesChange={setDraftValues}
+            onSaveDraftValues={saveDraftValues}
+            journal={journal}
+            onJournalChange={setJournal}
           />
         );
       case "profile":
-        return <Profile />;
+        return (
+          <Profile
+            onDraftStoreChange={handleDraftStoreChange}
+            onDraftStoreLock={handleDraftStoreLock}
+            onDraftStoreWipe={handleDraftStoreWipe}
+          />
+        );
       case "history":
-        return <History />;
+        return (
+          <History
+            drafts={drafts}
+            onResumeDraft={handleResumeDraft}
+            onDiscardDraft={(draft) => void handleDiscardDraft(draft)}
+          />
+        );
       case "support":
         return <Support />;
       default:
         return (
           <FormFilling
+            key={`${resumeCount}-${activeStep}-${selectedMethod ?? ""}`}
             onNext={handleNextStep}
             onPrevious={handlePreviousStep}
             step={activeStep === "select-type" ? "form-type" : "form-method"}
             setStep={(newStep) =>
-              setActiveStep(
+              moveToStep(
                 newStep === "form-type" ? "select-type" : "select-method"
               )
             }
@@ -313,11 +751,24 @@ export default function EnhancedOnboarding() {
             onFormSelect={handleFormSelection}
             selectedMethod={selectedMethod}
             onMethodSelect={handleMethodSelection}
+            onComplete={handleFormComplete}
+            drafts={drafts}
+            onResumeDraft={handleResumeDraft}
+            onDiscardDraft={(draft) => void handleDiscardDraft(draft)}
+            draftValues={draftValues ?? undefined}
+            onDraftValuesChange={setDraftValues}
+            onSaveDraftValues={saveDraftValues}
+            journal={journal}
+            onJournalChange={setJournal}
           />
         );
     }
   };
 
+  if (redirectPath) {
+    return <Navigate to={redirectPath} replace />;
+  }
+
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Desktop Sidebar */}
@@ -353,7 +804,7 @@ export default function EnhancedOnboarding() {
             <h1 className="text-xl font-bold mx-auto md:mx-0">
               {activeSection === "form"
                 ? `Tax Filing: ${
-                    formSteps[currentStepIndex]?.label || "Onboarding"
+                    wizardSteps[currentStepIndex]?.label || "Onboarding"
                   }`
                 : sidebarItems.find((item) => item.id === activeSection)
                     ?.label || "Onboarding"}
@@ -395,7 +846,7 @@ export default function EnhancedOnboarding() {
 
               <DropdownMenuItem
                 className="cursor-pointer"
-                onClick={() => setActiveSection("profile")}
+                onClick={() => handleSectionChange("profile")}
               >
                 <User className="mr-2 h-4 w-4" />
                 <span>My Profile</span>
@@ -443,7 +894,7 @@ export default function EnhancedOnboarding() {
                     <BreadcrumbItem>
                       <BreadcrumbPage>
                         {
-                          formSteps.find((step) => step.id === activeStep)
+                          wizardSteps.find((step) => step.id === activeStep)
                             ?.label
                         }
                       </BreadcrumbPage>
@@ -468,7 +919,7 @@ export default function EnhancedOnboarding() {
 
               {/* Step indicators */}
               <div className="hidden md:flex items-center justify-between text-sm mb-2">
-                {formSteps.map((step, index) => (
+                {wizardSteps.map((step, index) => (
                   <div
                     key={step.id}
                     className={cn(
@@ -481,7 +932,8 @@ export default function EnhancedOnboarding() {
                     <div
                       className={cn(
                         "h-6 w-6 rounded-full flex items-center justify-center mb-1 text-xs",
-                        index < currentStepIndex
+                        index !== currentStepIndex &&
+                          step.isComplete(wizardState)
                           ? "bg-primary text-primary-foreground"
                           : index === currentStepIndex
                           ? "border-2 border-primary text-primary"
@@ -504,7 +956,7 @@ export default function EnhancedOnboarding() {
 
               {/* Mobile step list */}
               <div className="flex md:hidden items-center space-x-2 text-xs overflow-x-auto py-1">
-                {formSteps.map((step, index) => (
+                {wizardSteps.map((step, index) => (
                   <div key={step.id} className="flex items-center">
                     {index > 0 && (
                       <ChevronRight className="h-3 w-3 mx-1 text-gray-400 flex-shrink-0" />
@@ -530,7 +982,7 @@ export default function EnhancedOnboarding() {
             <div className="mb-4">
               <div className="flex items-center justify-between">
                 <h2 className="text-xl font-semibold">
-                  {formSteps[currentStepIndex]?.label}
+                  {wizardSteps[currentStepIndex]?.label}
                 </h2>
 
                 {/* Navigation buttons for desktop */}
@@ -546,13 +998,10 @@ export default function EnhancedOnboarding() {
                     </Button>
                   )}
 
-                  {currentStepIndex < formSteps.length - 1 && (
+                  {currentStepIndex < wizardSteps.length - 1 && (
                     <Button
                       onClick={handleNextStep}
-                      disabled={
-                        (activeStep === "select-type" && !selectedForm) ||
-                        (activeStep === "select-method" && !selectedMethod)
-                      }
+                      disabled={!canMoveNext}
                     >
                       Next
                       <ArrowRight className="ml-2 h-4 w-4" />
@@ -561,14 +1010,19 @@ export default function EnhancedOnboarding() {
                 </div>
               </div>
 
-              {formSteps[currentStepIndex]?.description && (
+              {wizardSteps[currentStepIndex]?.description && (
                 <p className="text-muted-foreground text-sm">
-                  {formSteps[currentStepIndex].description}
+                  {wizardSteps[currentStepIndex].description}
                 </p>
               )}
             </div>
           )}
 
+          {isDraftStoreLocked &&
+            (activeSection === "form" || activeSection === "history") && (
+              <DraftUnlock onUnlock={handleDraftStoreChange} />
+            )}
+
           {/* Main Content Component */}
           {renderMainContent()}
 
@@ -588,13 +1042,10 @@ export default function EnhancedOnboarding() {
                 <div></div> // Empty div for spacing
               )}
 
-              {currentStepIndex < formSteps.length - 1 && (
+              {currentStepIndex < wizardSteps.length - 1 && (
                 <Button
                   onClick={handleNextStep}
-                  disabled={
-                    (activeStep === "select-type" && !selectedForm) ||
-                    (activeStep === "select-method" && !selectedMethod)
-                  }
+                  disabled={!canMoveNext}
                 >
                   Next
                   <ArrowRight className="ml-2 h-4 w-4" />